@@ -0,0 +1,34 @@
+/**
+ * Argument helpers shared by the benchmark scripts
+ */
+
+/**
+ * "--key value" pairs and bare "--flag" switches
+ */
+export function parseArgs(argv: string[]): Map<string, string> {
+  const parsed = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const key = argv[i].slice(2);
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      parsed.set(key, next);
+      i++;
+    } else {
+      parsed.set(key, '');
+    }
+  }
+  return parsed;
+}
+
+/**
+ * "1-5" (inclusive range) or "1,2,3"
+ */
+export function parseSeeds(value: string): number[] {
+  const range = value.match(/^(\d+)-(\d+)$/);
+  if (range) {
+    const [from, to] = [Number(range[1]), Number(range[2])];
+    return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+  }
+  return value.split(',').map(Number);
+}
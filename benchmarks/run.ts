@@ -0,0 +1,61 @@
+/**
+ * Headless benchmark runner
+ *
+ * Runs the built-in templates through each solver for a range of seeds and writes
+ * report.json, report.csv and (if a baseline exists) diff.md to the output directory.
+ * Exits with code 1 when a gated quality metric regressed against the baseline.
+ * The tracked benchmarks/baseline.json comes from `yarn benchmark --update-baseline` at the
+ * default settings; regenerate it that way after an intended change in solver quality.
+ *
+ * Usage:
+ *   yarn benchmark [--solvers spring,discrete,evolutionary] [--templates house,clinic]
+ *                  [--seeds 1-5 | 1,2,3] [--generations 100] [--out benchmarks/results]
+ *                  [--baseline benchmarks/baseline.json] [--tolerance 0.05] [--update-baseline]
+ */
+
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { runBenchmark, BenchmarkReport } from '../src/benchmark/runBenchmark.js';
+import { toBenchmarkCsv, diffBenchmarks, formatBenchmarkDiff } from '../src/benchmark/benchmarkReport.js';
+import { SolverKind } from '../src/workers/solverJob.js';
+import { parseArgs, parseSeeds } from './cli.js';
+
+const args = parseArgs(process.argv.slice(2));
+
+const outDir = args.get('out') ?? 'benchmarks/results';
+const baselinePath = args.get('baseline') ?? 'benchmarks/baseline.json';
+
+const report = runBenchmark({
+  solvers: args.get('solvers')?.split(',') as SolverKind[] | undefined,
+  templates: args.get('templates')?.split(','),
+  seeds: args.has('seeds') ? parseSeeds(args.get('seeds')!) : undefined,
+  generations: args.has('generations') ? Number(args.get('generations')) : undefined,
+  onRecord: r => console.log(
+    `${r.solver.padEnd(12)} ${r.template.padEnd(16)} seed ${String(r.seed).padEnd(4)} ` +
+    `${r.runtimeMs.toFixed(0).padStart(6)}ms  adjacency ${r.adjacencySatisfaction.toFixed(2)}  ` +
+    `overlap ${r.overlapRatio.toFixed(3)}  converged @${r.convergenceGeneration}`
+  ),
+});
+
+mkdirSync(outDir, { recursive: true });
+writeFileSync(join(outDir, 'report.json'), JSON.stringify(report, null, 2) + '\n');
+writeFileSync(join(outDir, 'report.csv'), toBenchmarkCsv(report));
+console.log(`\nWrote ${report.records.length} runs to ${outDir}`);
+
+if (args.has('update-baseline')) {
+  mkdirSync(dirname(baselinePath), { recursive: true });
+  writeFileSync(baselinePath, JSON.stringify(report, null, 2) + '\n');
+  console.log(`Updated baseline ${baselinePath}`);
+} else if (existsSync(baselinePath)) {
+  const baseline = JSON.parse(readFileSync(baselinePath, 'utf8')) as BenchmarkReport;
+  const diff = diffBenchmarks(report, baseline, {
+    tolerance: args.has('tolerance') ? Number(args.get('tolerance')) : undefined,
+  });
+  const summary = formatBenchmarkDiff(diff);
+
+  writeFileSync(join(outDir, 'diff.md'), summary);
+  console.log(`\n${summary}`);
+  if (diff.regressions.length > 0) process.exitCode = 1;
+} else {
+  console.log(`No baseline at ${baselinePath}; run with --update-baseline to store this one`);
+}
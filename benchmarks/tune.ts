@@ -0,0 +1,49 @@
+/**
+ * Hyperparameter tuner
+ *
+ * Searches SpringConfig or EvolutionaryConfig for the given templates and writes the
+ * winner as a named preset to benchmarks/presets/<name>.json. Pass `preset.config` to the
+ * solver constructor to use it.
+ *
+ * Usage:
+ *   yarn tune --solver spring --name apartments [--templates small-apartment,house]
+ *             [--objective adjacencySatisfaction] [--strategy random|successive-halving]
+ *             [--trials 20] [--eta 3] [--generations 100] [--seeds 1-2] [--time 600]
+ *             [--out benchmarks/presets]
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tuneConfig, TunableSolver } from '../src/benchmark/tuneConfig.js';
+import { MetricKey } from '../src/benchmark/benchmarkReport.js';
+import { parseArgs, parseSeeds } from './cli.js';
+
+const args = parseArgs(process.argv.slice(2));
+
+const solver = (args.get('solver') ?? 'spring') as TunableSolver;
+const name = args.get('name') ?? `${solver}-tuned`;
+const outDir = args.get('out') ?? 'benchmarks/presets';
+
+const result = tuneConfig({
+  solver,
+  name,
+  templates: args.get('templates')?.split(','),
+  objective: args.get('objective') as MetricKey | undefined,
+  strategy: args.get('strategy') as 'random' | 'successive-halving' | undefined,
+  trials: args.has('trials') ? Number(args.get('trials')) : undefined,
+  eta: args.has('eta') ? Number(args.get('eta')) : undefined,
+  generations: args.has('generations') ? Number(args.get('generations')) : undefined,
+  seeds: args.has('seeds') ? parseSeeds(args.get('seeds')!) : undefined,
+  timeBudgetMs: args.has('time') ? Number(args.get('time')) * 1000 : undefined,
+  onTrial: t => console.log(
+    `candidate ${String(t.candidate).padStart(3)}  ${String(t.generations).padStart(4)} gen  ` +
+    `score ${t.score.toFixed(4)}  ${(t.runtimeMs / 1000).toFixed(1)}s`
+  ),
+});
+
+mkdirSync(outDir, { recursive: true });
+const path = join(outDir, `${name}.json`);
+writeFileSync(path, JSON.stringify(result.preset, null, 2) + '\n');
+
+console.log(`\n${result.trials.length} evaluations in ${(result.elapsedMs / 1000).toFixed(1)}s (${result.stopReason})`);
+console.log(`Best score ${result.preset.score.toFixed(4)}; wrote ${path}`);
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { toBenchmarkCsv, diffBenchmarks, formatBenchmarkDiff } from './benchmarkReport.js';
+import { BenchmarkRecord, BenchmarkReport } from './runBenchmark.js';
+
+const record = (overrides: Partial<BenchmarkRecord> = {}): BenchmarkRecord => ({
+  solver: 'spring',
+  template: 'house',
+  seed: 1,
+  runtimeMs: 100,
+  generations: 50,
+  convergenceGeneration: 40,
+  stopReason: 'maxGenerations',
+  bestFitness: 12.5,
+  placedRooms: 6,
+  totalRooms: 6,
+  overlapRatio: 0.02,
+  outOfBoundsRatio: 0,
+  unusedRatio: 0.1,
+  meanAreaDeviation: 0.05,
+  aspectRatioViolations: 1,
+  adjacencySatisfaction: 0.8,
+  exteriorAccessRatio: 1,
+  circulationRatio: 0,
+  ...overrides,
+});
+
+const report = (records: BenchmarkRecord[]): BenchmarkReport => ({
+  createdAt: '2024-01-01T00:00:00.000Z',
+  options: { solvers: ['spring'], seeds: [1, 2], generations: 50, configs: {} },
+  records,
+});
+
+describe('benchmarkReport', () => {
+  it('should write one CSV row per run', () => {
+    const csv = toBenchmarkCsv(report([record(), record({ seed: 2, template: 'gallery, large' })]));
+    const lines = csv.trim().split('\n');
+
+    expect(lines).toHaveLength(3);
+    expect(lines[0].startsWith('solver,template,seed,stopReason,runtimeMs')).toBe(true);
+    expect(lines[1].startsWith('spring,house,1,maxGenerations,100,')).toBe(true);
+    expect(lines[2]).toContain('"gallery, large"');
+  });
+
+  it('should average seeds and classify changes by direction', () => {
+    const baseline = report([record(), record({ seed: 2, adjacencySatisfaction: 0.6 })]);
+    const current = report([
+      record({ adjacencySatisfaction: 0.5, overlapRatio: 0.01, runtimeMs: 300 }),
+      record({ seed: 2, adjacencySatisfaction: 0.5, overlapRatio: 0.01, runtimeMs: 300 }),
+    ]);
+
+    const diff = diffBenchmarks(current, baseline);
+    const status = (metric: string) => diff.metrics.find(m => m.metric === metric)?.status;
+
+    expect(status('adjacencySatisfaction')).toBe('regressed');
+    expect(diff.metrics.find(m => m.metric === 'adjacencySatisfaction')?.delta).toBeCloseTo(-0.2);
+    expect(status('overlapRatio')).toBe('improved');
+    expect(status('unusedRatio')).toBe('unchanged');
+    expect(status('runtimeMs')).toBe('regressed');
+
+    // Runtime depends on the machine and never gates
+    expect(diff.regressions.map(m => m.metric)).toEqual(['adjacencySatisfaction']);
+    expect(formatBenchmarkDiff(diff)).toContain('Regressions: 1');
+  });
+
+  it('should compare only seeds present in both reports', () => {
+    const baseline = report([record(), record({ seed: 2, placedRooms: 2 })]);
+    const current = report([record()]);
+
+    expect(diffBenchmarks(current, baseline).regressions).toEqual([]);
+  });
+
+  it('should list cases missing from either side', () => {
+    const baseline = report([record(), record({ template: 'clinic' })]);
+    const current = report([record(), record({ solver: 'discrete' })]);
+
+    const diff = diffBenchmarks(current, baseline);
+
+    expect(diff.missing).toEqual(['spring/clinic']);
+    expect(diff.added).toEqual(['discrete/house']);
+    expect(formatBenchmarkDiff(diff)).toContain('No metric changed beyond the tolerance.');
+  });
+});
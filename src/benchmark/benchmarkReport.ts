@@ -0,0 +1,179 @@
+import { BenchmarkRecord, BenchmarkReport } from './runBenchmark.js';
+
+const DEFAULT_TOLERANCE = 0.05;          // Relative change below which a metric counts as unchanged
+const DEFAULT_ABSOLUTE_TOLERANCE = 1e-3; // Floor for metrics whose baseline is (close to) zero
+
+export type MetricKey = Exclude<keyof BenchmarkRecord, 'solver' | 'template' | 'seed' | 'stopReason'>;
+
+/**
+ * How each recorded metric is compared against the baseline.
+ * Only gated metrics count as regressions; runtime depends on the machine and is reported only.
+ */
+export const BENCHMARK_METRICS: { key: MetricKey; better: 'higher' | 'lower' | null; gated: boolean }[] = [
+  { key: 'runtimeMs', better: 'lower', gated: false },
+  { key: 'generations', better: null, gated: false },
+  { key: 'convergenceGeneration', better: 'lower', gated: false },
+  { key: 'bestFitness', better: null, gated: false }, // Direction and scale differ per solver
+  { key: 'placedRooms', better: 'higher', gated: true },
+  { key: 'totalRooms', better: null, gated: false },
+  { key: 'overlapRatio', better: 'lower', gated: true },
+  { key: 'outOfBoundsRatio', better: 'lower', gated: true },
+  { key: 'unusedRatio', better: 'lower', gated: true },
+  { key: 'meanAreaDeviation', better: 'lower', gated: true },
+  { key: 'aspectRatioViolations', better: 'lower', gated: true },
+  { key: 'adjacencySatisfaction', better: 'higher', gated: true },
+  { key: 'exteriorAccessRatio', better: 'higher', gated: true },
+  { key: 'circulationRatio', better: null, gated: false },
+];
+
+const CSV_COLUMNS: (keyof BenchmarkRecord)[] = ['solver', 'template', 'seed', 'stopReason', ...BENCHMARK_METRICS.map(m => m.key)];
+
+export type MetricStatus = 'improved' | 'regressed' | 'changed' | 'unchanged';
+
+/**
+ * One metric of one solver × template, averaged over the seeds both reports ran
+ */
+export interface MetricDiff {
+  solver: string;
+  template: string;
+  metric: MetricKey;
+  baseline: number;
+  current: number;
+  delta: number;  // current - baseline
+  status: MetricStatus;
+  gated: boolean;
+}
+
+export interface BenchmarkDiff {
+  metrics: MetricDiff[];
+  regressions: MetricDiff[];  // Gated metrics that got worse beyond the tolerance
+  missing: string[];          // "solver/template" cases only in the baseline
+  added: string[];            // "solver/template" cases only in the current report
+}
+
+export interface BenchmarkDiffOptions {
+  tolerance?: number;         // Relative change that counts (default 0.05)
+  absoluteTolerance?: number; // Absolute change that always counts as noise (default 0.001)
+}
+
+/**
+ * One CSV row per run, with a header row
+ */
+export function toBenchmarkCsv(report: BenchmarkReport): string {
+  const rows = report.records.map(record => CSV_COLUMNS.map(column => formatCell(record[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Compare a report against a stored baseline. Runs are matched by solver, template and seed;
+ * each metric is averaged over the matched seeds before comparing.
+ */
+export function diffBenchmarks(
+  current: BenchmarkReport,
+  baseline: BenchmarkReport,
+  options: BenchmarkDiffOptions = {}
+): BenchmarkDiff {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const absoluteTolerance = options.absoluteTolerance ?? DEFAULT_ABSOLUTE_TOLERANCE;
+
+  const currentCases = groupByCase(current.records);
+  const baselineCases = groupByCase(baseline.records);
+
+  const metrics: MetricDiff[] = [];
+
+  for (const [key, baselineRuns] of baselineCases) {
+    const currentRuns = currentCases.get(key);
+    if (!currentRuns) continue;
+
+    const seeds = new Set(currentRuns.map(r => r.seed));
+    const matchedBaseline = baselineRuns.filter(r => seeds.has(r.seed));
+    const matchedSeeds = new Set(matchedBaseline.map(r => r.seed));
+    const matchedCurrent = currentRuns.filter(r => matchedSeeds.has(r.seed));
+    if (matchedBaseline.length === 0) continue;
+
+    for (const { key: metric, better, gated } of BENCHMARK_METRICS) {
+      const before = mean(matchedBaseline.map(r => r[metric]));
+      const after = mean(matchedCurrent.map(r => r[metric]));
+      const delta = after - before;
+
+      let status: MetricStatus = 'unchanged';
+      if (Math.abs(delta) > Math.max(absoluteTolerance, tolerance * Math.abs(before))) {
+        if (better === null) {
+          status = 'changed';
+        } else {
+          status = (better === 'higher') === (delta > 0) ? 'improved' : 'regressed';
+        }
+      }
+
+      metrics.push({
+        solver: matchedBaseline[0].solver,
+        template: matchedBaseline[0].template,
+        metric,
+        baseline: before,
+        current: after,
+        delta,
+        status,
+        gated,
+      });
+    }
+  }
+
+  return {
+    metrics,
+    regressions: metrics.filter(m => m.gated && m.status === 'regressed'),
+    missing: Array.from(baselineCases.keys()).filter(key => !currentCases.has(key)),
+    added: Array.from(currentCases.keys()).filter(key => !baselineCases.has(key)),
+  };
+}
+
+/**
+ * Markdown summary of a diff: every metric that moved, regressions first
+ */
+export function formatBenchmarkDiff(diff: BenchmarkDiff): string {
+  const order: Record<MetricStatus, number> = { regressed: 0, improved: 1, changed: 2, unchanged: 3 };
+  const moved = diff.metrics
+    .filter(m => m.status !== 'unchanged')
+    .sort((a, b) => order[a.status] - order[b.status] || Number(b.gated) - Number(a.gated));
+
+  const lines = [`Regressions: ${diff.regressions.length}`, ''];
+
+  if (moved.length === 0) {
+    lines.push('No metric changed beyond the tolerance.');
+  } else {
+    lines.push('| solver | template | metric | baseline | current | delta | status |');
+    lines.push('|---|---|---|---|---|---|---|');
+    for (const m of moved) {
+      const status = m.gated || m.status === 'changed' ? m.status : `${m.status} (not gated)`;
+      lines.push(`| ${m.solver} | ${m.template} | ${m.metric} | ${fmt(m.baseline)} | ${fmt(m.current)} | ${fmt(m.delta)} | ${status} |`);
+    }
+  }
+
+  if (diff.missing.length > 0) lines.push('', `Missing from this run: ${diff.missing.join(', ')}`);
+  if (diff.added.length > 0) lines.push('', `Not in the baseline: ${diff.added.join(', ')}`);
+
+  return lines.join('\n') + '\n';
+}
+
+function groupByCase(records: BenchmarkRecord[]): Map<string, BenchmarkRecord[]> {
+  const cases = new Map<string, BenchmarkRecord[]>();
+  for (const record of records) {
+    const key = `${record.solver}/${record.template}`;
+    const runs = cases.get(key) ?? [];
+    runs.push(record);
+    cases.set(key, runs);
+  }
+  return cases;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function formatCell(value: string | number): string {
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(6);
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function fmt(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(4);
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { runBenchmark, listBenchmarkTemplates } from './runBenchmark.js';
+import { springTemplates } from '../stories/templates/springTemplates.js';
+
+describe('runBenchmark', () => {
+  it('should run every solver, template and seed combination', () => {
+    const report = runBenchmark({
+      solvers: ['spring', 'discrete'],
+      templates: ['small-apartment'],
+      seeds: [1, 2],
+      generations: 5,
+    });
+
+    expect(report.records.map(r => [r.solver, r.template, r.seed])).toEqual([
+      ['spring', 'small-apartment', 1],
+      ['spring', 'small-apartment', 2],
+      ['discrete', 'small-apartment', 1],
+      ['discrete', 'small-apartment', 2],
+    ]);
+    expect(report.options.generations).toBe(5);
+
+    for (const record of report.records) {
+      expect(record.generations).toBeLessThanOrEqual(5);
+      expect(record.convergenceGeneration).toBeLessThanOrEqual(record.generations);
+      expect(record.adjacencySatisfaction).toBeGreaterThanOrEqual(0);
+      expect(record.adjacencySatisfaction).toBeLessThanOrEqual(1);
+      expect(record.placedRooms).toBeLessThanOrEqual(record.totalRooms);
+    }
+  });
+
+  it('should be reproducible for a seed', () => {
+    const options = { solvers: ['spring' as const], templates: ['house'], seeds: [7], generations: 5 };
+    const { runtimeMs: _a, ...first } = runBenchmark(options).records[0];
+    const { runtimeMs: _b, ...second } = runBenchmark(options).records[0];
+
+    expect(second).toEqual(first);
+  });
+
+  it('should measure DiscreteSolver circulation from corridor cells', () => {
+    const [record] = runBenchmark({ solvers: ['discrete'], templates: ['house'], seeds: [1], generations: 5 }).records;
+
+    expect(record.circulationRatio).toBeGreaterThan(0);
+    expect(record.circulationRatio).toBeLessThan(1);
+  });
+
+  it('should list the templates of each solver', () => {
+    expect(listBenchmarkTemplates('spring')).toEqual(Object.keys(springTemplates));
+    expect(listBenchmarkTemplates('evolutionary')).not.toContain('palace');
+  });
+});
@@ -0,0 +1,296 @@
+import { Adjacency, DiscreteConfig, SpringConfig, StopReason, StoppingRules } from '../types.js';
+import { CELL_CORRIDOR } from '../constants.js';
+import { EvolutionaryConfig } from '../core/solvers/EvolutionaryGene.js';
+import { evaluateLayout, EvaluatedRoom, LayoutMetrics } from '../core/metrics/evaluateLayout.js';
+import { PolygonLike } from '../core/geometry/Polygon.js';
+import { runSolverJob, SolverKind } from '../workers/solverJob.js';
+import { springTemplates } from '../stories/templates/springTemplates.js';
+import { discreteTemplates } from '../stories/templates/discreteTemplates.js';
+import { evolutionaryTemplates } from '../stories/templates/evolutionaryTemplates.js';
+
+const DEFAULT_SEEDS = [1, 2, 3];
+const DEFAULT_GENERATIONS = 100;
+
+// DiscreteSolver rooms are in grid cells, where walls meet exactly (same as DiscreteSolver.getResult)
+const DISCRETE_WALL_TOLERANCE = 0.5;
+
+// Evolutionary solver has no built-in defaults; these match the Storybook defaults
+export const DEFAULT_EVOLUTIONARY_CONFIG: EvolutionaryConfig = {
+  populationSize: 25,
+  maxGenerations: DEFAULT_GENERATIONS,
+  physicsIterations: 10,
+  sharedWallTarget: 1.5,
+  sharedWallWeight: 1500,
+  geometricWeight: 15,
+  teleportProbability: 0.4,
+  swapProbability: 0.6,
+  rotationProbability: 0.3,
+  reshapeProbability: 0.8,
+  maxAspectRatio: 2.0,
+  useNonLinearOverlapPenalty: true,
+  overlapPenaltyExponent: 1.5,
+};
+
+/**
+ * Per-solver config overrides; omitted fields use each solver's defaults
+ */
+export interface BenchmarkConfigs {
+  spring?: Partial<SpringConfig>;
+  discrete?: Partial<DiscreteConfig>;
+  evolutionary?: Partial<EvolutionaryConfig>;
+}
+
+export interface BenchmarkOptions {
+  solvers?: SolverKind[];   // Default: all three
+  templates?: string[];     // Template names to include (default: every template of each solver)
+  seeds?: number[];         // Default: [1, 2, 3]
+  generations?: number;     // Generations (DiscreteSolver: iterations) per run
+  configs?: BenchmarkConfigs;
+  stopping?: StoppingRules;
+  onRecord?: (record: BenchmarkRecord) => void; // Called after each run (progress output)
+}
+
+/**
+ * One solver run on one template with one seed
+ */
+export interface BenchmarkRecord {
+  solver: SolverKind;
+  template: string;
+  seed: number;
+  runtimeMs: number;
+  generations: number;            // Generations actually run
+  convergenceGeneration: number;  // Generation of the last best-fitness improvement
+  stopReason: StopReason;
+  bestFitness: number;            // Solver's own fitness (DiscreteSolver: score, higher is better)
+  placedRooms: number;
+  totalRooms: number;
+  overlapRatio: number;           // Overlap area / boundary area
+  outOfBoundsRatio: number;       // Out-of-bounds area / boundary area
+  unusedRatio: number;            // Unused floor area / boundary area
+  meanAreaDeviation: number;
+  aspectRatioViolations: number;
+  adjacencySatisfaction: number;
+  exteriorAccessRatio: number;
+  circulationRatio: number;
+}
+
+export interface BenchmarkReport {
+  createdAt: string; // ISO timestamp
+  options: { solvers: SolverKind[]; seeds: number[]; generations: number; configs: BenchmarkConfigs };
+  records: BenchmarkRecord[];
+}
+
+/**
+ * What a finished run hands back for measuring
+ */
+interface CaseOutcome {
+  run: { generation: number; stopReason: StopReason };
+  rooms: EvaluatedRoom[];
+  totalRooms: number;
+  circulationRatio?: number; // Set when corridors are not rooms (DiscreteSolver grid cells)
+}
+
+/**
+ * A template prepared for one solver
+ */
+interface BenchmarkCase {
+  solver: SolverKind;
+  template: string;
+  boundary: PolygonLike;
+  adjacencies: Adjacency[];
+  tolerance?: number; // Wall snapping for evaluateLayout (default suits 30 units/m layouts)
+  run: (seed: number, onFitness: (generation: number, bestFitness: number) => void) => CaseOutcome;
+}
+
+/**
+ * Run every selected solver on every selected template for every seed, headless and
+ * synchronously, and measure the resulting layouts with evaluateLayout.
+ */
+export function runBenchmark(options: BenchmarkOptions = {}): BenchmarkReport {
+  const solvers = options.solvers ?? ['spring', 'discrete', 'evolutionary'];
+  const seeds = options.seeds ?? DEFAULT_SEEDS;
+  const generations = options.generations ?? DEFAULT_GENERATIONS;
+  const configs = options.configs ?? {};
+
+  const cases = createBenchmarkCases(solvers, generations, configs, options.stopping)
+    .filter(c => !options.templates || options.templates.includes(c.template));
+
+  const records: BenchmarkRecord[] = [];
+  for (const benchmarkCase of cases) {
+    for (const seed of seeds) {
+      const record = runCase(benchmarkCase, seed);
+      records.push(record);
+      options.onRecord?.(record);
+    }
+  }
+
+  return {
+    createdAt: new Date().toISOString(),
+    options: { solvers, seeds, generations, configs },
+    records,
+  };
+}
+
+/**
+ * Names of the built-in templates each solver is benchmarked on
+ */
+export function listBenchmarkTemplates(solver: SolverKind): string[] {
+  switch (solver) {
+    case 'spring':
+      return Object.keys(springTemplates);
+    case 'discrete':
+      return Object.keys(discreteTemplates);
+    case 'evolutionary':
+      return Object.keys(evolutionaryTemplates);
+  }
+}
+
+function createBenchmarkCases(
+  solvers: SolverKind[],
+  generations: number,
+  configs: BenchmarkConfigs,
+  stopping: StoppingRules | undefined
+): BenchmarkCase[] {
+  const cases: BenchmarkCase[] = [];
+
+  for (const solver of solvers) {
+    if (solver === 'spring') {
+      for (const [template, { boundary, rooms, adjacencies }] of Object.entries(springTemplates)) {
+        cases.push({
+          solver,
+          template,
+          boundary,
+          adjacencies,
+          run: (seed, onFitness) => {
+            const result = runSolverJob(
+              { kind: 'spring', input: { rooms, boundary, adjacencies, generations, seed, stopping }, config: configs.spring ?? {} },
+              progress => onFitness(progress.generation, progress.stats.bestFitness)
+            );
+            return { run: result, rooms: result.state, totalRooms: rooms.length };
+          },
+        });
+      }
+    } else if (solver === 'discrete') {
+      for (const [template, { boundary, rooms, adjacencies, startPoint }] of Object.entries(discreteTemplates)) {
+        const targets = new Map(rooms.map(room => [room.id, room]));
+
+        cases.push({
+          solver,
+          template,
+          boundary,
+          adjacencies,
+          tolerance: DISCRETE_WALL_TOLERANCE,
+          run: (seed, onFitness) => {
+            const result = runSolverJob(
+              {
+                kind: 'discrete',
+                input: { boundary, rooms, adjacencies, seed, stopping },
+                config: { startPoint, ...configs.discrete, maxIterations: generations },
+              },
+              progress => onFitness(progress.generation, progress.stats.bestScore)
+            );
+
+            // Corridors are grid cells, not rooms, so circulation comes from the grid
+            const cells = result.snapshot.grid.cells;
+            const corridorCells = cells.filter(value => value === CELL_CORRIDOR).length;
+            const roomCells = cells.filter(value => value > 0).length;
+
+            return {
+              run: result,
+              rooms: result.state.map(({ id, x, y, width, height }) => ({
+                id, x, y, width, height,
+                targetArea: targets.get(id)?.targetArea,
+                targetRatio: targets.get(id)?.targetRatio,
+              })),
+              totalRooms: rooms.length,
+              circulationRatio: corridorCells + roomCells > 0 ? corridorCells / (corridorCells + roomCells) : 0,
+            };
+          },
+        });
+      }
+    } else {
+      for (const [template, { boundary, rooms, adjacencies }] of Object.entries(evolutionaryTemplates)) {
+        // Same conversion as the Storybook story: the template size is the target area
+        const roomsES = rooms.map(room => ({
+          ...room,
+          targetArea: room.width * room.height,
+          pressureX: 0,
+          pressureY: 0,
+          accumulatedPressureX: 0,
+          accumulatedPressureY: 0,
+        }));
+
+        cases.push({
+          solver,
+          template,
+          boundary,
+          adjacencies,
+          run: (seed, onFitness) => {
+            const result = runSolverJob(
+              {
+                kind: 'evolutionary',
+                input: { rooms: roomsES, boundary, adjacencies, generations, seed, stopping },
+                config: { ...DEFAULT_EVOLUTIONARY_CONFIG, ...configs.evolutionary, maxGenerations: generations },
+              },
+              progress => onFitness(progress.generation, progress.stats.bestFitness)
+            );
+            return { run: result, rooms: result.state, totalRooms: rooms.length };
+          },
+        });
+      }
+    }
+  }
+
+  return cases;
+}
+
+function runCase(benchmarkCase: BenchmarkCase, seed: number): BenchmarkRecord {
+  // DiscreteSolver maximizes its score; the other solvers minimize fitness
+  const minimize = benchmarkCase.solver !== 'discrete';
+  let bestFitness = minimize ? Infinity : -Infinity;
+  let convergenceGeneration = 0;
+
+  const start = performance.now();
+  const outcome = benchmarkCase.run(seed, (generation, fitness) => {
+    if (minimize ? fitness < bestFitness : fitness > bestFitness) {
+      bestFitness = fitness;
+      convergenceGeneration = generation;
+    }
+  });
+  const runtimeMs = performance.now() - start;
+
+  const metrics = evaluateLayout(benchmarkCase.boundary, outcome.rooms, benchmarkCase.adjacencies, {
+    tolerance: benchmarkCase.tolerance,
+  });
+
+  return {
+    solver: benchmarkCase.solver,
+    template: benchmarkCase.template,
+    seed,
+    runtimeMs,
+    generations: outcome.run.generation,
+    convergenceGeneration,
+    stopReason: outcome.run.stopReason,
+    bestFitness,
+    placedRooms: outcome.rooms.length,
+    totalRooms: outcome.totalRooms,
+    ...areaRatios(metrics),
+    meanAreaDeviation: metrics.meanAreaDeviation,
+    aspectRatioViolations: metrics.aspectRatioViolations,
+    adjacencySatisfaction: metrics.adjacencySatisfaction,
+    exteriorAccessRatio: metrics.exteriorAccessRatio,
+    circulationRatio: outcome.circulationRatio ?? metrics.circulationRatio,
+  };
+}
+
+/**
+ * Area metrics relative to the boundary, so templates of different size compare
+ */
+function areaRatios(metrics: LayoutMetrics): Pick<BenchmarkRecord, 'overlapRatio' | 'outOfBoundsRatio' | 'unusedRatio'> {
+  const area = metrics.boundaryArea > 0 ? metrics.boundaryArea : 1;
+  return {
+    overlapRatio: metrics.overlapArea / area,
+    outOfBoundsRatio: metrics.outOfBoundsArea / area,
+    unusedRatio: metrics.unusedArea / area,
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { tuneConfig, sampleParams, SPRING_TUNING_SPACE, TuningSpace } from './tuneConfig.js';
+import { DEFAULT_EVOLUTIONARY_CONFIG } from './runBenchmark.js';
+import { Random } from '../utils/Random.js';
+
+const quick = { templates: ['small-apartment'], seeds: [1], generations: 9 };
+
+describe('tuneConfig', () => {
+  it('should evaluate every candidate with random search and keep the best', () => {
+    const result = tuneConfig({ solver: 'spring', name: 'apartment', ...quick, trials: 4 });
+
+    expect(result.trials).toHaveLength(4);
+    expect(result.trials[0].params).toEqual({}); // Untuned baseline
+    expect(result.trials.every(t => t.generations === 9)).toBe(true);
+    expect(result.preset.score).toBe(Math.max(...result.trials.map(t => t.score)));
+    expect(result.preset).toMatchObject({ name: 'apartment', solver: 'spring', templates: ['small-apartment'] });
+    expect(result.stopReason).toBe('completed');
+  });
+
+  it('should grow the budget of survivors with successive halving', () => {
+    const result = tuneConfig({ solver: 'spring', name: 'halving', ...quick, trials: 9, eta: 3, strategy: 'successive-halving' });
+
+    expect(result.trials.map(t => t.generations)).toEqual([
+      1, 1, 1, 1, 1, 1, 1, 1, 1,
+      3, 3, 3,
+      9,
+    ]);
+    expect(result.preset.score).toBe(result.trials[12].score);
+  });
+
+  it('should stop at the time budget and still return a preset', () => {
+    const result = tuneConfig({ solver: 'spring', name: 'rushed', ...quick, trials: 5, timeBudgetMs: 0 });
+
+    expect(result.trials).toHaveLength(1);
+    expect(result.stopReason).toBe('timeBudget');
+    expect(result.preset.config).toEqual({});
+  });
+
+  it('should output complete evolutionary configs', () => {
+    const result = tuneConfig({
+      solver: 'evolutionary',
+      name: 'evo',
+      templates: ['small-apartment'],
+      seeds: [1],
+      generations: 2,
+      trials: 2,
+      objective: 'overlapRatio',
+    });
+
+    expect(Object.keys(result.preset.config).sort()).toEqual(Object.keys(DEFAULT_EVOLUTIONARY_CONFIG).sort());
+    expect(result.preset.config.maxGenerations).toBe(2);
+    expect(result.preset.objective).toBe('overlapRatio');
+  });
+
+  it('should reject metrics without a direction', () => {
+    expect(() => tuneConfig({ solver: 'spring', name: 'x', ...quick, objective: 'circulationRatio' }))
+      .toThrow('has no better direction');
+  });
+
+  it('should sample inside the ranges', () => {
+    const space: TuningSpace = {
+      rate: { type: 'float', min: 0.1, max: 0.2 },
+      strength: { type: 'float', min: 5, max: 60, log: true },
+      count: { type: 'int', min: 1, max: 3 },
+      flag: { type: 'choice', values: [true, false] },
+    };
+    const rng = new Random(3);
+
+    for (let i = 0; i < 50; i++) {
+      const params = sampleParams(space, rng);
+      expect(params.rate).toBeGreaterThanOrEqual(0.1);
+      expect(params.rate).toBeLessThanOrEqual(0.2);
+      expect(params.strength).toBeGreaterThanOrEqual(5);
+      expect(params.strength).toBeLessThanOrEqual(60);
+      expect([1, 2, 3]).toContain(params.count);
+      expect([true, false]).toContain(params.flag);
+    }
+    expect(Object.keys(sampleParams(SPRING_TUNING_SPACE, rng))).toEqual(Object.keys(SPRING_TUNING_SPACE));
+  });
+});
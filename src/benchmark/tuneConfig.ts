@@ -0,0 +1,256 @@
+import { SpringConfig } from '../types.js';
+import { EvolutionaryConfig } from '../core/solvers/EvolutionaryGene.js';
+import { Random } from '../utils/Random.js';
+import { runBenchmark, listBenchmarkTemplates, BenchmarkRecord, DEFAULT_EVOLUTIONARY_CONFIG } from './runBenchmark.js';
+import { BENCHMARK_METRICS, MetricKey } from './benchmarkReport.js';
+
+const DEFAULT_TRIALS = 20;
+const DEFAULT_SEEDS = [1, 2];
+const DEFAULT_GENERATIONS = 100;
+const DEFAULT_ETA = 3;
+
+/**
+ * Config a preset carries, in the shape each solver constructor takes
+ * (EvolutionaryFloorplanSolver has no defaults, so its presets are complete)
+ */
+export interface TunableConfigs {
+  spring: Partial<SpringConfig>;
+  evolutionary: EvolutionaryConfig;
+}
+
+export type TunableSolver = keyof TunableConfigs;
+
+export type ParameterRange =
+  | { type: 'float'; min: number; max: number; log?: boolean } // log: sample uniformly in log space
+  | { type: 'int'; min: number; max: number }
+  | { type: 'choice'; values: (number | boolean | string)[] };
+
+export type TuningSpace = Record<string, ParameterRange>;
+
+export const SPRING_TUNING_SPACE: TuningSpace = {
+  populationSize: { type: 'int', min: 10, max: 40 },
+  mutationRate: { type: 'float', min: 0.1, max: 0.9 },
+  mutationStrength: { type: 'float', min: 5, max: 60, log: true },
+  crossoverRate: { type: 'float', min: 0.2, max: 0.9 },
+  selectionPressure: { type: 'float', min: 0.1, max: 0.7 },
+  fitnessBalance: { type: 'float', min: 0.2, max: 0.9 },
+  aspectRatioMutationRate: { type: 'float', min: 0.1, max: 0.8 },
+  useSwapMutation: { type: 'choice', values: [true, false] },
+  swapMutationRate: { type: 'float', min: 0.1, max: 0.8 },
+  usePartnerBias: { type: 'choice', values: [true, false] },
+  partnerBiasRate: { type: 'float', min: 0.1, max: 0.8 },
+  useAggressiveInflation: { type: 'choice', values: [true, false] },
+  inflationRate: { type: 'float', min: 1.005, max: 1.05 },
+  inflationThreshold: { type: 'float', min: 1.01, max: 1.15 },
+  warmUpIterations: { type: 'int', min: 0, max: 10 },
+  useFreshBlood: { type: 'choice', values: [true, false] },
+  freshBloodInterval: { type: 'int', min: 10, max: 100 },
+  useNonLinearOverlapPenalty: { type: 'choice', values: [true, false] },
+  overlapPenaltyExponent: { type: 'float', min: 1, max: 2.5 },
+};
+
+export const EVOLUTIONARY_TUNING_SPACE: TuningSpace = {
+  physicsIterations: { type: 'int', min: 5, max: 20 },
+  sharedWallTarget: { type: 'float', min: 0.5, max: 3 },
+  sharedWallWeight: { type: 'float', min: 100, max: 3000, log: true },
+  geometricWeight: { type: 'float', min: 5, max: 50, log: true },
+  teleportProbability: { type: 'float', min: 0, max: 1 },
+  swapProbability: { type: 'float', min: 0, max: 1 },
+  rotationProbability: { type: 'float', min: 0, max: 1 },
+  reshapeProbability: { type: 'float', min: 0, max: 1 },
+  maxAspectRatio: { type: 'float', min: 1.5, max: 3 },
+  useNonLinearOverlapPenalty: { type: 'choice', values: [true, false] },
+  overlapPenaltyExponent: { type: 'float', min: 1, max: 2.5 },
+};
+
+/**
+ * What to optimise: a recorded metric (in its "better" direction) or a custom
+ * score per run, higher is better. Scores are averaged over templates and seeds.
+ */
+export type TuningObjective = MetricKey | ((record: BenchmarkRecord) => number);
+
+/**
+ * Default objective: adjacency satisfaction, minus geometric defects and area error
+ */
+export function balancedObjective(record: BenchmarkRecord): number {
+  return record.adjacencySatisfaction - 2 * (record.overlapRatio + record.outOfBoundsRatio) - record.meanAreaDeviation;
+}
+
+export interface TuneOptions<K extends TunableSolver> {
+  solver: K;
+  name: string;                          // Preset name
+  templates?: string[];                  // Programs to tune for (default: every template of the solver)
+  seeds?: number[];                      // Solver seeds per evaluation (default [1, 2])
+  generations?: number;                  // Generations of a full evaluation (default 100)
+  objective?: TuningObjective;           // Default: balancedObjective
+  space?: TuningSpace;                   // Default: SPRING_TUNING_SPACE / EVOLUTIONARY_TUNING_SPACE
+  baseConfig?: Partial<TunableConfigs[K]>; // Fixed values under every candidate (and the first candidate itself)
+  strategy?: 'random' | 'successive-halving';
+  trials?: number;                       // Candidate configs (default 20)
+  eta?: number;                          // Successive halving: keep 1/eta per rung (default 3)
+  timeBudgetMs?: number;                 // Stop sampling once exceeded; the best so far is returned
+  seed?: number;                         // Seed for sampling candidates
+  onTrial?: (trial: TuningTrial) => void;
+}
+
+export interface TuningTrial {
+  candidate: number;   // Index of the sampled config (0 = baseConfig alone)
+  params: Record<string, number | boolean | string>;
+  generations: number; // Budget of this evaluation (successive halving grows it per rung)
+  score: number;       // Mean objective, higher is better
+  runtimeMs: number;
+}
+
+/**
+ * Named, tuned config. `config` goes straight into the solver constructor.
+ */
+export interface ConfigPreset<K extends TunableSolver = TunableSolver> {
+  name: string;
+  solver: K;
+  config: TunableConfigs[K];
+  score: number;
+  objective: string;
+  templates: string[];
+  generations: number;
+  createdAt: string; // ISO timestamp
+}
+
+export interface TuneResult<K extends TunableSolver> {
+  preset: ConfigPreset<K>;
+  trials: TuningTrial[];
+  stopReason: 'completed' | 'timeBudget';
+  elapsedMs: number;
+}
+
+/**
+ * Search solver hyperparameters for a set of programs against one objective.
+ * Random search evaluates every candidate with the full budget; successive halving
+ * evaluates all candidates briefly and gives the survivors of each rung eta times more
+ * generations. Candidate 0 is always the base config, so with random search a preset
+ * never scores below the untuned solver on the tuning set.
+ */
+export function tuneConfig<K extends TunableSolver>(options: TuneOptions<K>): TuneResult<K> {
+  const start = performance.now();
+  const rng = new Random(options.seed ?? 1);
+
+  const templates = options.templates ?? listBenchmarkTemplates(options.solver);
+  const seeds = options.seeds ?? DEFAULT_SEEDS;
+  const generations = options.generations ?? DEFAULT_GENERATIONS;
+  const space = options.space ?? (options.solver === 'spring' ? SPRING_TUNING_SPACE : EVOLUTIONARY_TUNING_SPACE);
+  const trialCount = Math.max(1, options.trials ?? DEFAULT_TRIALS);
+  const eta = Math.max(2, options.eta ?? DEFAULT_ETA);
+  const score = scoreFunction(options.objective ?? balancedObjective);
+
+  const candidates: Record<string, number | boolean | string>[] = [{}];
+  while (candidates.length < trialCount) {
+    candidates.push(sampleParams(space, rng));
+  }
+
+  const trials: TuningTrial[] = [];
+  let timedOut = false;
+
+  const evaluate = (candidate: number, budget: number): TuningTrial => {
+    const trialStart = performance.now();
+    const config = { ...options.baseConfig, ...candidates[candidate] };
+    const { records } = runBenchmark({
+      solvers: [options.solver],
+      templates,
+      seeds,
+      generations: budget,
+      configs: { [options.solver]: config },
+    });
+
+    const trial: TuningTrial = {
+      candidate,
+      params: candidates[candidate],
+      generations: budget,
+      score: records.reduce((sum, record) => sum + score(record), 0) / Math.max(1, records.length),
+      runtimeMs: performance.now() - trialStart,
+    };
+    trials.push(trial);
+    options.onTrial?.(trial);
+    return trial;
+  };
+
+  let survivors = candidates.map((_, i) => i);
+  const rungs = options.strategy === 'successive-halving'
+    ? Math.max(0, Math.floor(Math.log(candidates.length) / Math.log(eta)))
+    : 0;
+
+  for (let rung = 0; rung <= rungs && !timedOut; rung++) {
+    const budget = Math.max(1, Math.round(generations / Math.pow(eta, rungs - rung)));
+    const results: TuningTrial[] = [];
+
+    for (const candidate of survivors) {
+      // At least one evaluation runs, so there is always a preset
+      if (options.timeBudgetMs !== undefined && trials.length > 0 && performance.now() - start >= options.timeBudgetMs) {
+        timedOut = true;
+        break;
+      }
+      results.push(evaluate(candidate, budget));
+    }
+
+    results.sort((a, b) => b.score - a.score);
+    survivors = results.slice(0, Math.max(1, Math.ceil(survivors.length / eta))).map(t => t.candidate);
+  }
+
+  // Compare only results of the largest budget any candidate reached
+  const topBudget = Math.max(...trials.map(t => t.generations));
+  const best = trials.filter(t => t.generations === topBudget).reduce((a, b) => (b.score > a.score ? b : a));
+
+  const tuned = { ...options.baseConfig, ...candidates[best.candidate] };
+  const config = (options.solver === 'evolutionary'
+    ? { ...DEFAULT_EVOLUTIONARY_CONFIG, ...tuned, maxGenerations: generations }
+    : tuned) as TunableConfigs[K];
+
+  return {
+    preset: {
+      name: options.name,
+      solver: options.solver,
+      config,
+      score: best.score,
+      objective: typeof options.objective === 'string' ? options.objective : options.objective?.name || 'balancedObjective',
+      templates,
+      generations,
+      createdAt: new Date().toISOString(),
+    },
+    trials,
+    stopReason: timedOut ? 'timeBudget' : 'completed',
+    elapsedMs: performance.now() - start,
+  };
+}
+
+/**
+ * Draw one value per parameter of the space
+ */
+export function sampleParams(space: TuningSpace, rng: Random): Record<string, number | boolean | string> {
+  const params: Record<string, number | boolean | string> = {};
+
+  for (const [key, range] of Object.entries(space)) {
+    if (range.type === 'choice') {
+      params[key] = range.values[rng.nextInt(0, range.values.length - 1)];
+    } else if (range.type === 'int') {
+      params[key] = rng.nextInt(range.min, range.max);
+    } else if (range.log) {
+      params[key] = round(Math.exp(rng.nextFloat(Math.log(range.min), Math.log(range.max))));
+    } else {
+      params[key] = round(rng.nextFloat(range.min, range.max));
+    }
+  }
+
+  return params;
+}
+
+function scoreFunction(objective: TuningObjective): (record: BenchmarkRecord) => number {
+  if (typeof objective === 'function') return objective;
+
+  const metric = BENCHMARK_METRICS.find(m => m.key === objective);
+  if (!metric || metric.better === null) {
+    throw new Error(`Metric "${objective}" has no better direction and cannot be tuned for`);
+  }
+  return metric.better === 'higher' ? record => record[objective] : record => -record[objective];
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
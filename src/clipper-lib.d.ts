@@ -25,6 +25,7 @@ declare module 'clipper-lib' {
 
   export class Clipper {
     AddPath(path: IntPoint[], polyType: PolyType, closed: boolean): boolean;
+    AddPaths(paths: IntPoint[][], polyType: PolyType, closed: boolean): boolean;
     Execute(
       clipType: ClipType,
       solution: IntPoint[][],
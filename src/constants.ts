@@ -7,3 +7,6 @@ export const CELL_OUT_OF_BOUNDS = -2; // Used instead of -Infinity for Int32 com
 export const DEFAULT_GRID_RESOLUTION = 1.0; // Meters per cell
 export const DEFAULT_MAX_ITERATIONS = 500;
 export const DEFAULT_MUTATION_RATE = 0.3;
+
+// Serialization
+export const SNAPSHOT_VERSION = 3; // Bump when solver snapshot layout changes
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { Polygon, AABB } from './Polygon.js';
+import { Polygon, AABB, PolygonWithHoles } from './Polygon.js';
 import { Vec2 } from './Vector2.js';
 
 describe('Polygon', () => {
@@ -156,6 +156,29 @@ describe('Polygon', () => {
     });
   });
 
+  describe('coveredArea', () => {
+    const copy = (points: { x: number; y: number }[]) => points.map(p => ({ ...p }));
+
+    it('should count overlapping polygons once, whatever their winding', () => {
+      const container = copy(Polygon.createRectangle(0, 0, 20, 20));
+      const a = copy(Polygon.createRectangle(0, 0, 10, 10));
+      const b = copy(Polygon.createRectangle(5, 5, 10, 10)).reverse();
+
+      expect(Polygon.coveredArea(container, [a, b])).toBeCloseTo(175, 3);
+    });
+
+    it('should clip to the container and exclude its holes', () => {
+      const courtyard = {
+        outer: copy(Polygon.createRectangle(0, 0, 20, 20)),
+        holes: [copy(Polygon.createRectangle(5, 5, 10, 10))],
+      };
+      const cover = copy(Polygon.createRectangle(-5, -5, 30, 30));
+
+      expect(Polygon.coveredArea(courtyard, [cover])).toBeCloseTo(300, 3);
+      expect(Polygon.coveredArea(courtyard, [])).toBe(0);
+    });
+  });
+
   describe('contains', () => {
     it('should detect when outer polygon contains inner', () => {
       const outer = Polygon.createRectangle(0, 0, 100, 100);
@@ -270,4 +293,112 @@ describe('Polygon', () => {
       expect(Polygon.pointInPolygon(point, triangle)).toBe(false);
     });
   });
+
+  describe('polygons with holes', () => {
+    // 10x10 square with a 4x4 courtyard in the middle
+    const courtyard: PolygonWithHoles = {
+      outer: [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+        { x: 0, y: 10 },
+      ],
+      holes: [[
+        { x: 3, y: 3 },
+        { x: 7, y: 3 },
+        { x: 7, y: 7 },
+        { x: 3, y: 7 },
+      ]],
+    };
+
+    it('should subtract hole area', () => {
+      expect(Polygon.area(courtyard)).toBeCloseTo(84);
+    });
+
+    it('should treat points inside a hole as outside', () => {
+      expect(Polygon.pointInPolygon({ x: 5, y: 5 }, courtyard)).toBe(false);
+      expect(Polygon.pointInPolygon({ x: 1, y: 1 }, courtyard)).toBe(true);
+    });
+
+    it('should exclude hole area from intersections', () => {
+      const rect = Polygon.createRectangle(2, 2, 4, 4); // 16 area, 9 of it in the hole
+      expect(Polygon.intersectionArea(courtyard, rect)).toBeCloseTo(7, 1);
+    });
+
+    it('should subtract a hole the other shape fully covers', () => {
+      const rect = Polygon.createRectangle(2, 2, 6, 6); // 36 area around the 16-area courtyard
+      expect(Polygon.intersectionArea(courtyard, rect)).toBeCloseTo(20, 1);
+      expect(Polygon.intersectionArea(rect, courtyard)).toBeCloseTo(20, 1);
+    });
+
+    it('should not contain shapes that reach into a hole', () => {
+      expect(Polygon.contains(courtyard, Polygon.createRectangle(0.5, 0.5, 2, 2))).toBe(true);
+      expect(Polygon.contains(courtyard, Polygon.createRectangle(2, 2, 2, 2))).toBe(false);
+      expect(Polygon.contains(courtyard, Polygon.createRectangle(2, 2, 6, 6))).toBe(false);
+    });
+
+    it('should find the closest point on hole edges', () => {
+      const closest = Polygon.closestPointOnPolygon({ x: 5, y: 3.5 }, courtyard);
+
+      expect(closest.x).toBeCloseTo(5);
+      expect(closest.y).toBeCloseTo(3);
+    });
+
+    it('should copy without sharing points', () => {
+      const copy = Polygon.copy(courtyard) as PolygonWithHoles;
+      copy.holes[0][0].x = 99;
+
+      expect(courtyard.holes[0][0].x).toBe(3);
+      expect(Polygon.outerRing(copy)).toEqual(courtyard.outer);
+    });
+  });
+
+  describe('sharedWall', () => {
+    it('should find a vertical wall between side-by-side rectangles', () => {
+      const wall = Polygon.sharedWall({ x: 0, y: 0, width: 4, height: 4 }, { x: 4, y: 1, width: 4, height: 6 }, 0.1);
+
+      expect(wall).toEqual({
+        start: { x: 4, y: 1 },
+        end: { x: 4, y: 4 },
+        orientation: 'vertical',
+        length: 3,
+      });
+    });
+
+    it('should find a horizontal wall and snap it midway within tolerance', () => {
+      const wall = Polygon.sharedWall({ x: 0, y: 0, width: 4, height: 4 }, { x: 2, y: 4.2, width: 4, height: 4 }, 0.5);
+
+      expect(wall?.orientation).toBe('horizontal');
+      expect(wall?.start.y).toBeCloseTo(4.1);
+      expect(wall?.length).toBeCloseTo(2);
+    });
+
+    it('should return null for rectangles that only meet at a corner or are apart', () => {
+      expect(Polygon.sharedWall({ x: 0, y: 0, width: 4, height: 4 }, { x: 4, y: 4, width: 4, height: 4 }, 0.1)).toBeNull();
+      expect(Polygon.sharedWall({ x: 0, y: 0, width: 4, height: 4 }, { x: 6, y: 0, width: 4, height: 4 }, 0.1)).toBeNull();
+    });
+  });
+
+  describe('selfIntersects', () => {
+    it('should accept simple polygons', () => {
+      const lShape: Vec2[] = [
+        { x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 4 },
+        { x: 4, y: 4 }, { x: 4, y: 10 }, { x: 0, y: 10 },
+      ];
+
+      expect(Polygon.selfIntersects(lShape)).toBe(false);
+      expect(Polygon.selfIntersects(Polygon.createRectangle(0, 0, 5, 5))).toBe(false);
+    });
+
+    it('should detect bow-ties and edges touching other edges', () => {
+      const bowTie: Vec2[] = [{ x: 0, y: 0 }, { x: 10, y: 10 }, { x: 10, y: 0 }, { x: 0, y: 10 }];
+      const pinched: Vec2[] = [
+        { x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 },
+        { x: 5, y: 0 }, { x: 0, y: 10 },
+      ];
+
+      expect(Polygon.selfIntersects(bowTie)).toBe(true);
+      expect(Polygon.selfIntersects(pinched)).toBe(true);
+    });
+  });
 });
@@ -8,6 +8,40 @@ export interface AABB {
   maxY: number;
 }
 
+/**
+ * Polygon with interior holes (courtyards, elevator cores).
+ * Holes lie inside `outer` and do not overlap each other.
+ */
+export interface PolygonWithHoles {
+  outer: Vec2[];
+  holes: Vec2[][];
+}
+
+/**
+ * A simple ring or a ring with holes. Accepted wherever a boundary is expected.
+ */
+export type PolygonLike = Vec2[] | PolygonWithHoles;
+
+/**
+ * Axis-aligned rectangle given by its top-left corner and size (rooms, placed rooms)
+ */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Straight wall piece shared by two rectangles
+ */
+export interface WallSegment {
+  start: Vec2;
+  end: Vec2;
+  orientation: 'horizontal' | 'vertical';
+  length: number;
+}
+
 // OPTIMIZATION: Module-level scratch buffers to avoid GC pressure in hot paths
 // These are reused for temporary calculations instead of allocating new arrays
 // We need two buffers because collision checks compare pairs of rectangles
@@ -31,6 +65,37 @@ let useScratchA = true; // Alternates between buffers
  * Polygon utilities using Clipper library for precise geometric operations.
  */
 export class Polygon {
+  /**
+   * Outer ring of a polygon (the polygon itself for a simple ring)
+   */
+  static outerRing(polygon: PolygonLike): Vec2[] {
+    return Array.isArray(polygon) ? polygon : polygon.outer;
+  }
+
+  /**
+   * Hole rings of a polygon (empty for a simple ring)
+   */
+  static holes(polygon: PolygonLike): Vec2[][] {
+    return Array.isArray(polygon) ? [] : polygon.holes;
+  }
+
+  /**
+   * Outer ring followed by all hole rings
+   */
+  static rings(polygon: PolygonLike): Vec2[][] {
+    return [Polygon.outerRing(polygon), ...Polygon.holes(polygon)];
+  }
+
+  /**
+   * Deep copy of a polygon, preserving whether it has holes
+   */
+  static copy(polygon: PolygonLike): PolygonLike {
+    const copyRing = (ring: Vec2[]) => ring.map(p => ({ x: p.x, y: p.y }));
+    return Array.isArray(polygon)
+      ? copyRing(polygon)
+      : { outer: copyRing(polygon.outer), holes: polygon.holes.map(copyRing) };
+  }
+
   /**
    * Calculate axis-aligned bounding box for a polygon
    */
@@ -88,6 +153,57 @@ export class Polygon {
     };
   }
 
+  /**
+   * Find the wall segment shared by two axis-aligned rectangles.
+   * Edges closer than `tolerance` count as touching (the wall is placed midway between them).
+   * Vertical walls are checked first. Returns null if the rectangles don't share a wall.
+   */
+  static sharedWall(a: Rect, b: Rect, tolerance: number): WallSegment | null {
+    const aLeft = a.x;
+    const aRight = a.x + a.width;
+    const aTop = a.y;
+    const aBottom = a.y + a.height;
+
+    const bLeft = b.x;
+    const bRight = b.x + b.width;
+    const bTop = b.y;
+    const bBottom = b.y + b.height;
+
+    // Check vertical shared wall
+    const rightTouches = Math.abs(aRight - bLeft) < tolerance;
+    if (rightTouches || Math.abs(aLeft - bRight) < tolerance) {
+      const overlapTop = Math.max(aTop, bTop);
+      const overlapBottom = Math.min(aBottom, bBottom);
+      if (overlapBottom > overlapTop) {
+        const x = rightTouches ? (aRight + bLeft) / 2 : (aLeft + bRight) / 2;
+        return {
+          start: { x, y: overlapTop },
+          end: { x, y: overlapBottom },
+          orientation: 'vertical',
+          length: overlapBottom - overlapTop,
+        };
+      }
+    }
+
+    // Check horizontal shared wall
+    const bottomTouches = Math.abs(aBottom - bTop) < tolerance;
+    if (bottomTouches || Math.abs(aTop - bBottom) < tolerance) {
+      const overlapLeft = Math.max(aLeft, bLeft);
+      const overlapRight = Math.min(aRight, bRight);
+      if (overlapRight > overlapLeft) {
+        const y = bottomTouches ? (aBottom + bTop) / 2 : (aTop + bBottom) / 2;
+        return {
+          start: { x: overlapLeft, y },
+          end: { x: overlapRight, y },
+          orientation: 'horizontal',
+          length: overlapRight - overlapLeft,
+        };
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Create a rectangle polygon from position and size
    * OPTIMIZED: Uses scratch buffer to avoid allocating new arrays in hot paths
@@ -123,14 +239,15 @@ export class Polygon {
 
 
   /**
-   * Calculate intersection area of two polygons using Clipper
+   * Calculate intersection area of two polygons using Clipper.
+   * Holes are excluded through the even-odd fill rule.
    */
-  static intersectionArea(poly1: Vec2[], poly2: Vec2[]): number {
+  static intersectionArea(poly1: PolygonLike, poly2: PolygonLike): number {
     const scale = 1000;
 
     // Early exit with AABB check
-    const aabb1 = Polygon.calculateAABB(poly1);
-    const aabb2 = Polygon.calculateAABB(poly2);
+    const aabb1 = Polygon.calculateAABB(Polygon.outerRing(poly1));
+    const aabb2 = Polygon.calculateAABB(Polygon.outerRing(poly2));
 
     if (!Polygon.aabbIntersects(aabb1, aabb2)) {
       return 0;
@@ -138,11 +255,11 @@ export class Polygon {
 
     // Convert to Clipper format
     const clipper = new ClipperLib.Clipper();
-    const path1 = Polygon.toClipperPath(poly1, scale);
-    const path2 = Polygon.toClipperPath(poly2, scale);
+    const paths1 = Polygon.rings(poly1).map(ring => Polygon.toClipperPath(ring, scale));
+    const paths2 = Polygon.rings(poly2).map(ring => Polygon.toClipperPath(ring, scale));
 
-    clipper.AddPath(path1, ClipperLib.PolyType.ptSubject, true);
-    clipper.AddPath(path2, ClipperLib.PolyType.ptClip, true);
+    clipper.AddPaths(paths1, ClipperLib.PolyType.ptSubject, true);
+    clipper.AddPaths(paths2, ClipperLib.PolyType.ptClip, true);
 
     const solution: ClipperLib.IntPoint[][] = [];
     clipper.Execute(
@@ -156,28 +273,59 @@ export class Polygon {
       return 0;
     }
 
-    // Calculate total area
-    let totalArea = 0;
-    for (const path of solution) {
-      const area = Math.abs(ClipperLib.Clipper.Area(path));
-      totalArea += area / (scale * scale); // Unscale
+    // Result holes are wound opposite to outers, so the signed sum subtracts them
+    const signedArea = solution.reduce((sum, path) => sum + ClipperLib.Clipper.Area(path), 0);
+    return Math.abs(signedArea) / (scale * scale); // Unscale
+  }
+
+  /**
+   * Area of `container` covered by at least one of `polygons` (overlaps count once).
+   * Only the outer rings of `polygons` are used; holes of `container` are excluded.
+   */
+  static coveredArea(container: PolygonLike, polygons: PolygonLike[]): number {
+    const scale = 1000;
+
+    if (polygons.length === 0) {
+      return 0;
     }
 
-    return totalArea;
+    const clipper = new ClipperLib.Clipper();
+    const containerPaths = Polygon.rings(container).map(ring => Polygon.toClipperPath(ring, scale));
+
+    // Same winding for every ring, so overlapping polygons never cancel out under the non-zero rule
+    const coverPaths = polygons.map(polygon => {
+      const path = Polygon.toClipperPath(Polygon.outerRing(polygon), scale);
+      return ClipperLib.Clipper.Area(path) < 0 ? path.reverse() : path;
+    });
+
+    clipper.AddPaths(containerPaths, ClipperLib.PolyType.ptSubject, true);
+    clipper.AddPaths(coverPaths, ClipperLib.PolyType.ptClip, true);
+
+    const solution: ClipperLib.IntPoint[][] = [];
+    clipper.Execute(
+      ClipperLib.ClipType.ctIntersection,
+      solution,
+      ClipperLib.PolyFillType.pftEvenOdd,
+      ClipperLib.PolyFillType.pftNonZero
+    );
+
+    // Result holes are wound opposite to outers, so the signed sum subtracts them
+    const signedArea = solution.reduce((sum, path) => sum + ClipperLib.Clipper.Area(path), 0);
+    return Math.abs(signedArea) / (scale * scale);
   }
 
   /**
-   * Check if polygon A contains polygon B
+   * Check if polygon A contains polygon B (B must not reach into any hole of A)
    */
-  static contains(outer: Vec2[], inner: Vec2[]): boolean {
+  static contains(outer: PolygonLike, inner: PolygonLike): boolean {
     const scale = 1000;
 
     const clipper = new ClipperLib.Clipper();
-    const outerPath = Polygon.toClipperPath(outer, scale);
-    const innerPath = Polygon.toClipperPath(inner, scale);
+    const outerPaths = Polygon.rings(outer).map(ring => Polygon.toClipperPath(ring, scale));
+    const innerPaths = Polygon.rings(inner).map(ring => Polygon.toClipperPath(ring, scale));
 
-    clipper.AddPath(outerPath, ClipperLib.PolyType.ptSubject, true);
-    clipper.AddPath(innerPath, ClipperLib.PolyType.ptClip, true);
+    clipper.AddPaths(outerPaths, ClipperLib.PolyType.ptSubject, true);
+    clipper.AddPaths(innerPaths, ClipperLib.PolyType.ptClip, true);
 
     const solution: ClipperLib.IntPoint[][] = [];
     clipper.Execute(
@@ -192,12 +340,9 @@ export class Polygon {
     }
 
     // Calculate area of intersection vs inner polygon
-    const innerArea = Math.abs(ClipperLib.Clipper.Area(innerPath));
-    let intersectionArea = 0;
-
-    for (const path of solution) {
-      intersectionArea += Math.abs(ClipperLib.Clipper.Area(path));
-    }
+    // Signed sum, so holes of the intersection count against it
+    const innerArea = Polygon.area(inner) * scale * scale;
+    const intersectionArea = Math.abs(solution.reduce((sum, path) => sum + ClipperLib.Clipper.Area(path), 0));
 
     // If intersection area equals inner area, then outer contains inner
     const ratio = intersectionArea / innerArea;
@@ -205,9 +350,17 @@ export class Polygon {
   }
 
   /**
-   * Calculate area of a polygon
+   * Calculate area of a polygon (minus the area of its holes)
+   */
+  static area(polygon: PolygonLike): number {
+    const holeArea = Polygon.holes(polygon).reduce((sum, hole) => sum + Polygon.area(hole), 0);
+    return Math.max(0, Polygon.ringArea(Polygon.outerRing(polygon)) - holeArea);
+  }
+
+  /**
+   * Unsigned area of a single ring (shoelace formula)
    */
-  static area(points: Vec2[]): number {
+  private static ringArea(points: Vec2[]): number {
     if (points.length < 3) {
       return 0;
     }
@@ -223,54 +376,114 @@ export class Polygon {
   }
 
   /**
-   * Check if a point is inside a polygon (ray casting algorithm)
+   * Check if a point is inside a polygon (ray casting algorithm).
+   * Crossings are counted over every ring, so points inside a hole are outside.
    */
-  static pointInPolygon(point: Vec2, polygon: Vec2[]): boolean {
+  static pointInPolygon(point: Vec2, polygon: PolygonLike): boolean {
     let inside = false;
-    const n = polygon.length;
 
-    for (let i = 0, j = n - 1; i < n; j = i++) {
-      const xi = polygon[i].x;
-      const yi = polygon[i].y;
-      const xj = polygon[j].x;
-      const yj = polygon[j].y;
+    for (const ring of Polygon.rings(polygon)) {
+      const n = ring.length;
 
-      const intersect =
-        yi > point.y !== yj > point.y &&
-        point.x < ((xj - xi) * (point.y - yi)) / (yj - yi) + xi;
+      for (let i = 0, j = n - 1; i < n; j = i++) {
+        const xi = ring[i].x;
+        const yi = ring[i].y;
+        const xj = ring[j].x;
+        const yj = ring[j].y;
 
-      if (intersect) {
-        inside = !inside;
+        const intersect =
+          yi > point.y !== yj > point.y &&
+          point.x < ((xj - xi) * (point.y - yi)) / (yj - yi) + xi;
+
+        if (intersect) {
+          inside = !inside;
+        }
       }
     }
 
     return inside;
   }
 
+  /**
+   * Check if any two non-neighbouring edges of a ring cross or touch (bow-ties, spikes folding back).
+   * O(n²), meant for input validation rather than hot paths.
+   */
+  static selfIntersects(points: Vec2[]): boolean {
+    const n = points.length;
+    if (n < 4) {
+      return false; // A triangle can only be degenerate, not self-intersecting
+    }
+
+    for (let i = 0; i < n; i++) {
+      const a1 = points[i];
+      const a2 = points[(i + 1) % n];
+
+      for (let j = i + 1; j < n; j++) {
+        // Skip edges that share a vertex with edge i
+        if (j === i + 1 || (i === 0 && j === n - 1)) continue;
+
+        if (Polygon.segmentsIntersect(a1, a2, points[j], points[(j + 1) % n])) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Check if segments [p1, p2] and [q1, q2] intersect, including touching and collinear overlap
+   */
+  private static segmentsIntersect(p1: Vec2, p2: Vec2, q1: Vec2, q2: Vec2): boolean {
+    const cross = (o: Vec2, a: Vec2, b: Vec2) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+    const onSegment = (o: Vec2, a: Vec2, p: Vec2) =>
+      Math.min(o.x, a.x) <= p.x && p.x <= Math.max(o.x, a.x) &&
+      Math.min(o.y, a.y) <= p.y && p.y <= Math.max(o.y, a.y);
+
+    const d1 = cross(q1, q2, p1);
+    const d2 = cross(q1, q2, p2);
+    const d3 = cross(p1, p2, q1);
+    const d4 = cross(p1, p2, q2);
+
+    if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+      return true;
+    }
+
+    return (
+      (d1 === 0 && onSegment(q1, q2, p1)) ||
+      (d2 === 0 && onSegment(q1, q2, p2)) ||
+      (d3 === 0 && onSegment(p1, p2, q1)) ||
+      (d4 === 0 && onSegment(p1, p2, q2))
+    );
+  }
+
   /**
    * Find the closest point on a polygon's boundary to a given point.
-   * Iterates through all edges and finds the closest point on any edge.
+   * Iterates through all edges of every ring (outer and holes) and finds the closest point on any edge.
    */
-  static closestPointOnPolygon(point: Vec2, polygon: Vec2[]): Vec2 {
-    if (polygon.length === 0) {
+  static closestPointOnPolygon(point: Vec2, polygon: PolygonLike): Vec2 {
+    const outer = Polygon.outerRing(polygon);
+    if (outer.length === 0) {
       return { x: point.x, y: point.y };
     }
 
-    let closestPoint: Vec2 = { x: polygon[0].x, y: polygon[0].y };
+    let closestPoint: Vec2 = { x: outer[0].x, y: outer[0].y };
     let minDistSq = Infinity;
 
     // Check all edges
-    for (let i = 0; i < polygon.length; i++) {
-      const a = polygon[i];
-      const b = polygon[(i + 1) % polygon.length];
-
-      // Find closest point on edge segment [a, b]
-      const edge = Polygon.closestPointOnSegment(point, a, b);
-      const distSq = (edge.x - point.x) ** 2 + (edge.y - point.y) ** 2;
-
-      if (distSq < minDistSq) {
-        minDistSq = distSq;
-        closestPoint = edge;
+    for (const ring of Polygon.rings(polygon)) {
+      for (let i = 0; i < ring.length; i++) {
+        const a = ring[i];
+        const b = ring[(i + 1) % ring.length];
+
+        // Find closest point on edge segment [a, b]
+        const edge = Polygon.closestPointOnSegment(point, a, b);
+        const distSq = (edge.x - point.x) ** 2 + (edge.y - point.y) ** 2;
+
+        if (distSq < minDistSq) {
+          minDistSq = distSq;
+          closestPoint = edge;
+        }
       }
     }
 
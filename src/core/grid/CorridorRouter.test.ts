@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { CorridorRouter, RouteTarget } from './CorridorRouter.js';
+import { GridBuffer } from './GridBuffer.js';
+import { CELL_CORRIDOR, CELL_OUT_OF_BOUNDS } from '../../constants.js';
+
+describe('CorridorRouter', () => {
+  // 10×10 grid with the entrance on the left edge
+  const createGrid = (): GridBuffer => {
+    const grid = new GridBuffer(10, 10);
+    grid.set(0, 5, CELL_CORRIDOR);
+    return grid;
+  };
+
+  const stampRoom = (grid: GridBuffer, room: RouteTarget, index: number): RouteTarget => {
+    for (let dy = 0; dy < room.height; dy++) {
+      for (let dx = 0; dx < room.width; dx++) {
+        grid.set(room.x + dx, room.y + dy, index);
+      }
+    }
+    return room;
+  };
+
+  const countCorridors = (grid: GridBuffer): number => grid.cells.filter(v => v === CELL_CORRIDOR).length;
+
+  it('should connect a room along a shortest path', () => {
+    const grid = createGrid();
+    const room = stampRoom(grid, { id: 'r', x: 6, y: 4, width: 2, height: 2 }, 1);
+
+    const result = new CorridorRouter(grid).route([room]);
+
+    expect(result).toEqual({ connected: ['r'], unreachable: [], addedCells: 5 });
+    for (let x = 0; x <= 5; x++) {
+      expect(grid.get(x, 5)).toBe(CELL_CORRIDOR);
+    }
+  });
+
+  it('should share branches between rooms', () => {
+    const grid = createGrid();
+    const top = stampRoom(grid, { id: 'top', x: 6, y: 0, width: 2, height: 2 }, 1);
+    const bottom = stampRoom(grid, { id: 'bottom', x: 6, y: 8, width: 2, height: 2 }, 2);
+
+    const result = new CorridorRouter(grid).route([top, bottom]);
+
+    // Separate shortest paths would need 8 + 8 new cells; the bottom room is nearer and goes first
+    expect(result.connected).toEqual(['bottom', 'top']);
+    expect(result.addedCells).toBeLessThan(16);
+    expect(countCorridors(grid)).toBe(result.addedCells + 1);
+  });
+
+  it('should build corridors of the configured width', () => {
+    // 2×2 entrance hall
+    const grid = createGrid();
+    grid.set(0, 4, CELL_CORRIDOR);
+    grid.set(1, 4, CELL_CORRIDOR);
+    grid.set(1, 5, CELL_CORRIDOR);
+    const room = stampRoom(grid, { id: 'r', x: 6, y: 4, width: 2, height: 2 }, 1);
+
+    const result = new CorridorRouter(grid, 2).route([room]);
+
+    expect(result).toEqual({ connected: ['r'], unreachable: [], addedCells: 8 });
+    for (let x = 0; x < 6; x++) {
+      expect(grid.get(x, 4)).toBe(CELL_CORRIDOR);
+      expect(grid.get(x, 5)).toBe(CELL_CORRIDOR);
+    }
+  });
+
+  it('should skip rooms that already touch the network', () => {
+    const grid = createGrid();
+    const room = stampRoom(grid, { id: 'r', x: 1, y: 5, width: 2, height: 2 }, 1);
+
+    expect(new CorridorRouter(grid).route([room])).toEqual({ connected: ['r'], unreachable: [], addedCells: 0 });
+  });
+
+  it('should report rooms no corridor can reach', () => {
+    const grid = createGrid();
+    for (let i = 4; i <= 9; i++) {
+      grid.set(4, i, CELL_OUT_OF_BOUNDS);
+      grid.set(i, 4, CELL_OUT_OF_BOUNDS);
+    }
+    const room = stampRoom(grid, { id: 'r', x: 7, y: 7, width: 2, height: 2 }, 1);
+
+    const router = new CorridorRouter(grid);
+    const open = stampRoom(grid, { id: 'open', x: 0, y: 0, width: 2, height: 2 }, 2);
+
+    expect(router.nearest([room])).toBeNull();
+    expect(router.nearest([room, open])).toBe('open');
+    expect(router.connect(room)).toBe(false);
+    expect(countCorridors(grid)).toBe(1);
+  });
+
+  it('should reject widths that are not positive integers', () => {
+    expect(() => new CorridorRouter(createGrid(), 0)).toThrow('Corridor width must be a positive integer');
+    expect(() => new CorridorRouter(createGrid(), 1.5)).toThrow();
+  });
+});
@@ -0,0 +1,255 @@
+import { GridBuffer, Point } from './GridBuffer.js';
+import { CELL_EMPTY, CELL_CORRIDOR } from '../../constants.js';
+
+const DEFAULT_CORRIDOR_WIDTH = 1;
+
+// 4-connected steps
+const STEPS: Point[] = [
+  { x: 1, y: 0 },
+  { x: -1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 0, y: -1 },
+];
+
+/**
+ * Room rectangle in grid cells that needs corridor access
+ */
+export interface RouteTarget {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface RoutingResult {
+  connected: string[];   // Targets touching the network afterwards, in connection order
+  unreachable: string[]; // Targets no corridor can reach
+  addedCells: number;    // Corridor cells stamped by this call
+}
+
+/**
+ * Builds corridor networks on a grid.
+ *
+ * Corridors are `width` cells wide: the router moves a width × width block whose
+ * top-left cell is the path node, over EMPTY and CORRIDOR cells only. A room is reached
+ * once the block touches one of its edges (its door cell).
+ *
+ * route() approximates the minimal Steiner tree joining the existing network to every
+ * target: it repeatedly runs one multi-source A* from the whole network towards all
+ * remaining targets and stamps the path to whichever is nearest.
+ */
+export class CorridorRouter {
+  private grid: GridBuffer;
+  private width: number;
+
+  constructor(grid: GridBuffer, width: number = DEFAULT_CORRIDOR_WIDTH) {
+    if (!Number.isInteger(width) || width < 1) {
+      throw new Error(`Corridor width must be a positive integer, got ${width}`);
+    }
+    this.grid = grid;
+    this.width = width;
+  }
+
+  /**
+   * Connect every target to the corridor network already on the grid, nearest first.
+   * Targets that already touch a corridor cost nothing.
+   */
+  route(targets: RouteTarget[]): RoutingResult {
+    const connected: string[] = [];
+    let addedCells = 0;
+
+    let remaining = targets.filter(target => {
+      if (!this.touchesCorridor(target)) return true;
+      connected.push(target.id);
+      return false;
+    });
+
+    while (remaining.length > 0) {
+      const found = this.search(remaining);
+      if (!found) break;
+
+      addedCells += this.stampPath(found.path);
+      connected.push(found.target.id);
+
+      // The new branch may also have reached other rooms on its way
+      remaining = remaining.filter(target => {
+        if (target === found.target) return false;
+        if (!this.touchesCorridor(target)) return true;
+        connected.push(target.id);
+        return false;
+      });
+    }
+
+    return { connected, unreachable: remaining.map(t => t.id), addedCells };
+  }
+
+  /**
+   * Connect a single target to the network. Returns false if no corridor can reach it.
+   */
+  connect(target: RouteTarget): boolean {
+    return this.route([target]).unreachable.length === 0;
+  }
+
+  /**
+   * Id of the target a corridor could reach most cheaply, without stamping anything;
+   * null if no target can be reached
+   */
+  nearest(targets: RouteTarget[]): string | null {
+    const touching = targets.find(target => this.touchesCorridor(target));
+    if (touching) return touching.id;
+    return targets.length > 0 ? this.search(targets)?.target.id ?? null : null;
+  }
+
+  /**
+   * True if a corridor cell shares an edge with the target
+   */
+  touchesCorridor(target: RouteTarget): boolean {
+    for (let dx = 0; dx < target.width; dx++) {
+      if (this.grid.get(target.x + dx, target.y - 1) === CELL_CORRIDOR) return true;
+      if (this.grid.get(target.x + dx, target.y + target.height) === CELL_CORRIDOR) return true;
+    }
+    for (let dy = 0; dy < target.height; dy++) {
+      if (this.grid.get(target.x - 1, target.y + dy) === CELL_CORRIDOR) return true;
+      if (this.grid.get(target.x + target.width, target.y + dy) === CELL_CORRIDOR) return true;
+    }
+    return false;
+  }
+
+  /**
+   * A* over block positions. Sources are the free blocks lying on the network; the
+   * heuristic is the Manhattan distance to the nearest target's door zone, which never
+   * overestimates, so the first goal popped is the nearest target.
+   */
+  private search(targets: RouteTarget[]): { target: RouteTarget; path: Point[] } | null {
+    const { width: gridWidth, height: gridHeight } = this.grid;
+    const cost = new Int32Array(gridWidth * gridHeight).fill(-1);
+    const parent = new Int32Array(gridWidth * gridHeight).fill(-1);
+    const closed = new Uint8Array(gridWidth * gridHeight);
+
+    // Bucket queue: unit step costs keep f integral
+    const buckets: number[][] = [];
+    const push = (index: number, f: number) => (buckets[f] ??= []).push(index);
+
+    // Branch off full-width parts of the network; a lone entrance cell only gets partly covered blocks
+    const sources = this.findSources(cells => cells === this.width * this.width);
+    for (const index of sources.length > 0 ? sources : this.findSources(cells => cells > 0)) {
+      const x = index % gridWidth;
+      cost[index] = 0;
+      push(index, this.heuristic(x, (index - x) / gridWidth, targets));
+    }
+
+    for (let f = 0; f < buckets.length; f++) {
+      const bucket = buckets[f];
+      while (bucket && bucket.length > 0) {
+        const index = bucket.pop()!;
+        if (closed[index]) continue;
+        closed[index] = 1;
+
+        const x = index % gridWidth;
+        const y = (index - x) / gridWidth;
+
+        const target = targets.find(t => this.blockTouches(x, y, t));
+        if (target) {
+          const path: Point[] = [];
+          for (let i = index; i >= 0; i = parent[i]) {
+            path.push({ x: i % gridWidth, y: Math.floor(i / gridWidth) });
+          }
+          return { target, path: path.reverse() };
+        }
+
+        for (const step of STEPS) {
+          const nx = x + step.x;
+          const ny = y + step.y;
+          if (!this.isFree(nx, ny)) continue;
+
+          const next = this.grid.index(nx, ny);
+          const nextCost = cost[index] + 1;
+          if (closed[next] || (cost[next] >= 0 && cost[next] <= nextCost)) continue;
+
+          cost[next] = nextCost;
+          parent[next] = index;
+          push(next, nextCost + this.heuristic(nx, ny, targets));
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether the block at (x, y) fits on EMPTY and CORRIDOR cells
+   */
+  private isFree(x: number, y: number): boolean {
+    for (let dy = 0; dy < this.width; dy++) {
+      for (let dx = 0; dx < this.width; dx++) {
+        const value = this.grid.get(x + dx, y + dy);
+        if (value !== CELL_EMPTY && value !== CELL_CORRIDOR) return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Indices of free blocks whose count of corridor cells passes the filter
+   */
+  private findSources(accept: (corridorCells: number) => boolean): number[] {
+    const sources: number[] = [];
+
+    for (let y = 0; y < this.grid.height; y++) {
+      for (let x = 0; x < this.grid.width; x++) {
+        if (!this.isFree(x, y)) continue;
+
+        let corridorCells = 0;
+        for (let dy = 0; dy < this.width; dy++) {
+          for (let dx = 0; dx < this.width; dx++) {
+            if (this.grid.get(x + dx, y + dy) === CELL_CORRIDOR) corridorCells++;
+          }
+        }
+        if (accept(corridorCells)) sources.push(this.grid.index(x, y));
+      }
+    }
+
+    return sources;
+  }
+
+  /**
+   * Whether the block at (x, y) shares an edge with the target (a door position)
+   */
+  private blockTouches(x: number, y: number, target: RouteTarget): boolean {
+    const w = this.width;
+    const overlapsX = x < target.x + target.width && x + w > target.x;
+    const overlapsY = y < target.y + target.height && y + w > target.y;
+
+    return (overlapsY && (x + w === target.x || x === target.x + target.width)) ||
+      (overlapsX && (y + w === target.y || y === target.y + target.height));
+  }
+
+  /**
+   * Manhattan distance to the nearest box of block positions that can touch a target
+   */
+  private heuristic(x: number, y: number, targets: RouteTarget[]): number {
+    let best = Infinity;
+    for (const target of targets) {
+      const dx = Math.max(target.x - this.width - x, 0, x - (target.x + target.width));
+      const dy = Math.max(target.y - this.width - y, 0, y - (target.y + target.height));
+      best = Math.min(best, dx + dy);
+    }
+    return best;
+  }
+
+  private stampPath(path: Point[]): number {
+    let added = 0;
+    for (const node of path) {
+      for (let dy = 0; dy < this.width; dy++) {
+        for (let dx = 0; dx < this.width; dx++) {
+          if (this.grid.get(node.x + dx, node.y + dy) === CELL_EMPTY) {
+            this.grid.set(node.x + dx, node.y + dy, CELL_CORRIDOR);
+            added++;
+          }
+        }
+      }
+    }
+    return added;
+  }
+}
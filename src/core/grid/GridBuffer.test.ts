@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { GridBuffer, Point } from './GridBuffer.js';
+import { Polygon } from '../geometry/Polygon.js';
 import { CELL_EMPTY, CELL_OUT_OF_BOUNDS, CELL_CORRIDOR } from '../../constants.js';
 
 describe('GridBuffer', () => {
@@ -170,6 +171,58 @@ describe('GridBuffer', () => {
     });
   });
 
+  describe('rasterizePolygon with holes', () => {
+    it('should mark cells inside holes as CELL_OUT_OF_BOUNDS', () => {
+      const grid = new GridBuffer(10, 10);
+      const outer: Point[] = [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+        { x: 0, y: 10 },
+      ];
+      const hole: Point[] = [
+        { x: 4, y: 4 },
+        { x: 6, y: 4 },
+        { x: 6, y: 6 },
+        { x: 4, y: 6 },
+      ];
+
+      grid.rasterizePolygon(outer, [hole]);
+
+      expect(grid.get(4, 4)).toBe(CELL_OUT_OF_BOUNDS);
+      expect(grid.get(5, 5)).toBe(CELL_OUT_OF_BOUNDS);
+      expect(grid.get(3, 3)).toBe(CELL_EMPTY);
+      expect(grid.cells.filter(v => v === CELL_OUT_OF_BOUNDS).length).toBe(4);
+    });
+  });
+
+  describe('fillPolygon', () => {
+    it('should set only cells whose centre is inside the polygon', () => {
+      const grid = new GridBuffer(10, 10);
+      const square: Point[] = [
+        { x: 2, y: 2 },
+        { x: 5, y: 2 },
+        { x: 5, y: 5 },
+        { x: 2, y: 5 },
+      ];
+
+      grid.fillPolygon(square, CELL_OUT_OF_BOUNDS);
+
+      expect(grid.get(2, 2)).toBe(CELL_OUT_OF_BOUNDS);
+      expect(grid.get(4, 4)).toBe(CELL_OUT_OF_BOUNDS);
+      expect(grid.get(5, 5)).toBe(CELL_EMPTY);
+      expect(grid.get(1, 3)).toBe(CELL_EMPTY);
+      expect(grid.cells.filter(v => v === CELL_OUT_OF_BOUNDS).length).toBe(9);
+    });
+
+    it('should clip polygons that extend past the grid', () => {
+      const grid = new GridBuffer(4, 4);
+      grid.fillPolygon([{ x: -2, y: -2 }, { x: 2, y: -2 }, { x: 2, y: 2 }, { x: -2, y: 2 }], CELL_CORRIDOR);
+
+      expect(grid.cells.filter(v => v === CELL_CORRIDOR).length).toBe(4);
+    });
+  });
+
   describe('clone', () => {
     it('should create deep copy of grid', () => {
       const original = new GridBuffer(5, 5);
@@ -205,4 +258,81 @@ describe('GridBuffer', () => {
       }
     });
   });
+
+  describe('traceRegions', () => {
+    const fill = (grid: GridBuffer, rows: string[]) => {
+      // '.' empty, '#' corridor, 'x' out of bounds, digits are room indices
+      rows.forEach((row, y) => [...row].forEach((c, x) => {
+        grid.set(x, y, c === '.' ? CELL_EMPTY : c === '#' ? CELL_CORRIDOR : c === 'x' ? CELL_OUT_OF_BOUNDS : Number(c));
+      }));
+    };
+
+    it('should merge room cells into one orthogonal polygon', () => {
+      const grid = new GridBuffer(4, 3);
+      fill(grid, [
+        '11..',
+        '11..',
+        '1111',
+      ]);
+
+      const [region] = grid.traceRegions();
+
+      expect(region.value).toBe(1);
+      expect(region.cellCount).toBe(8);
+      expect(region.holes).toHaveLength(0);
+      expect(region.outer).toHaveLength(6); // L-shape corners only
+      expect(Polygon.area(region.outer)).toBeCloseTo(8);
+    });
+
+    it('should convert to world coordinates with gridResolution and origin', () => {
+      const grid = new GridBuffer(3, 3);
+      fill(grid, [
+        '...',
+        '.22',
+        '.22',
+      ]);
+
+      const [region] = grid.traceRegions(0.5, { x: 10, y: 20 });
+      const xs = region.outer.map(p => p.x);
+      const ys = region.outer.map(p => p.y);
+
+      expect(Math.min(...xs)).toBe(10.5);
+      expect(Math.max(...xs)).toBe(11.5);
+      expect(Math.min(...ys)).toBe(20.5);
+      expect(region.area).toBeCloseTo(1);
+    });
+
+    it('should trace enclosed cells as holes and the corridor network as a region', () => {
+      const grid = new GridBuffer(5, 5);
+      fill(grid, [
+        '#####',
+        '#...#',
+        '#.3.#',
+        '#...#',
+        '#####',
+      ]);
+
+      const regions = grid.traceRegions();
+      const corridor = regions.find(r => r.value === CELL_CORRIDOR)!;
+
+      expect(corridor.holes).toHaveLength(1);
+      expect(Polygon.area(corridor)).toBeCloseTo(16);
+      expect(Polygon.pointInPolygon({ x: 2.5, y: 2.5 }, corridor)).toBe(false);
+      expect(regions.find(r => r.value === 3)?.cellCount).toBe(1);
+    });
+
+    it('should keep disconnected and diagonally touching groups apart', () => {
+      const grid = new GridBuffer(4, 3);
+      fill(grid, [
+        '1.x.',
+        '.1..',
+        '...1',
+      ]);
+
+      const regions = grid.traceRegions();
+
+      expect(regions).toHaveLength(3);
+      expect(regions.every(r => r.value === 1 && r.outer.length === 4)).toBe(true);
+    });
+  });
 });
@@ -1,10 +1,30 @@
-import { CELL_EMPTY, CELL_OUT_OF_BOUNDS } from '../../constants.js';
+import { CELL_EMPTY, CELL_CORRIDOR, CELL_OUT_OF_BOUNDS } from '../../constants.js';
 
 export interface Point {
   x: number;
   y: number;
 }
 
+/**
+ * One 4-connected group of cells with the same value, traced into an orthogonal polygon.
+ * `outer` and `holes` are in world coordinates, so a region can be used as a PolygonWithHoles.
+ */
+export interface GridRegion {
+  value: number;     // Room index (1-based) or CELL_CORRIDOR
+  outer: Point[];
+  holes: Point[][];
+  cellCount: number;
+  area: number;      // World units squared
+}
+
+// Unit steps for walking cell edges: east, south, west, north (clockwise in screen coordinates)
+const DIRECTIONS: Point[] = [
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+  { x: 0, y: -1 },
+];
+
 /**
  * Low-level grid buffer using Int32Array for efficient storage.
  * Cells store room IDs (positive integers), corridors (-1), or out-of-bounds (-2).
@@ -49,10 +69,11 @@ export class GridBuffer {
   }
 
   /**
-   * Rasterize a polygon boundary. Cells outside the polygon are marked as CELL_OUT_OF_BOUNDS.
+   * Rasterize a polygon boundary. Cells outside the polygon, or inside one of its
+   * holes (courtyards, cores), are marked as CELL_OUT_OF_BOUNDS.
    * Uses ray casting algorithm for point-in-polygon test.
    */
-  rasterizePolygon(polygon: Point[]): void {
+  rasterizePolygon(polygon: Point[], holes: Point[][] = []): void {
     if (polygon.length < 3) {
       return; // Invalid polygon
     }
@@ -94,6 +115,45 @@ export class GridBuffer {
         }
       }
     }
+
+    for (const hole of holes) {
+      this.fillPolygon(hole, CELL_OUT_OF_BOUNDS);
+    }
+  }
+
+  /**
+   * Set every cell whose centre lies inside the polygon to `value`.
+   * Used to stamp static obstacles into an already rasterized boundary.
+   */
+  fillPolygon(polygon: Point[], value: number): void {
+    if (polygon.length < 3) {
+      return; // Invalid polygon
+    }
+
+    let minX = Infinity;
+    let maxX = -Infinity;
+    let minY = Infinity;
+    let maxY = -Infinity;
+
+    for (const p of polygon) {
+      minX = Math.min(minX, p.x);
+      maxX = Math.max(maxX, p.x);
+      minY = Math.min(minY, p.y);
+      maxY = Math.max(maxY, p.y);
+    }
+
+    const startX = Math.max(0, Math.floor(minX));
+    const endX = Math.min(this.width - 1, Math.ceil(maxX));
+    const startY = Math.max(0, Math.floor(minY));
+    const endY = Math.min(this.height - 1, Math.ceil(maxY));
+
+    for (let y = startY; y <= endY; y++) {
+      for (let x = startX; x <= endX; x++) {
+        if (this.isPointInPolygon(x + 0.5, y + 0.5, polygon)) {
+          this.cells[this.index(x, y)] = value;
+        }
+      }
+    }
   }
 
   /**
@@ -121,6 +181,144 @@ export class GridBuffer {
     return inside;
   }
 
+  /**
+   * Trace every room and the corridor network into merged orthogonal polygons.
+   * A value split into several disconnected groups yields one region per group.
+   * Enclosed cells of other values become holes; rings only touching at a corner stay separate.
+   * @param gridResolution - World units per cell
+   * @param origin - World position of cell (0, 0)
+   */
+  traceRegions(gridResolution: number = 1, origin: Point = { x: 0, y: 0 }): GridRegion[] {
+    const regions: GridRegion[] = [];
+    const component = new Int32Array(this.cells.length).fill(-1);
+    let componentCount = 0;
+
+    for (let start = 0; start < this.cells.length; start++) {
+      const value = this.cells[start];
+      if (component[start] !== -1 || (value <= 0 && value !== CELL_CORRIDOR)) continue;
+
+      // Flood fill the 4-connected group
+      const id = componentCount++;
+      const cells: number[] = [start];
+      component[start] = id;
+
+      for (let i = 0; i < cells.length; i++) {
+        const x = cells[i] % this.width;
+        const y = Math.floor(cells[i] / this.width);
+
+        for (const d of DIRECTIONS) {
+          const nx = x + d.x;
+          const ny = y + d.y;
+          if (this.get(nx, ny) !== value) continue;
+
+          const n = this.index(nx, ny);
+          if (component[n] === -1) {
+            component[n] = id;
+            cells.push(n);
+          }
+        }
+      }
+
+      const toWorld = (p: Point): Point => ({
+        x: origin.x + p.x * gridResolution,
+        y: origin.y + p.y * gridResolution,
+      });
+
+      let outer: Point[] = [];
+      const holes: Point[][] = [];
+      for (const ring of this.traceComponent(cells, n => component[n] === id)) {
+        // Outer rings run clockwise on screen (positive shoelace area), holes the other way
+        if (GridBuffer.signedArea(ring) > 0) {
+          outer = ring.map(toWorld);
+        } else {
+          holes.push(ring.map(toWorld));
+        }
+      }
+
+      regions.push({
+        value,
+        outer,
+        holes,
+        cellCount: cells.length,
+        area: cells.length * gridResolution * gridResolution,
+      });
+    }
+
+    return regions;
+  }
+
+  /**
+   * Collect the boundary edges of a cell group (interior on the right when walking them)
+   * and chain them into closed rings of corner points in grid coordinates.
+   */
+  private traceComponent(cells: number[], inComponent: (index: number) => boolean): Point[][] {
+    const inside = (x: number, y: number) =>
+      x >= 0 && x < this.width && y >= 0 && y < this.height && inComponent(this.index(x, y));
+
+    // Outgoing edges per corner point; the edge direction is an index into DIRECTIONS
+    const outgoing = new Map<string, { from: Point; dir: number; used: boolean }[]>();
+    const addEdge = (x: number, y: number, dir: number) => {
+      const key = `${x},${y}`;
+      const list = outgoing.get(key) ?? [];
+      list.push({ from: { x, y }, dir, used: false });
+      outgoing.set(key, list);
+    };
+
+    for (const n of cells) {
+      const x = n % this.width;
+      const y = Math.floor(n / this.width);
+      if (!inside(x, y - 1)) addEdge(x, y, 0);         // Top edge, walking east
+      if (!inside(x + 1, y)) addEdge(x + 1, y, 1);     // Right edge, walking south
+      if (!inside(x, y + 1)) addEdge(x + 1, y + 1, 2); // Bottom edge, walking west
+      if (!inside(x - 1, y)) addEdge(x, y + 1, 3);     // Left edge, walking north
+    }
+
+    const rings: Point[][] = [];
+
+    for (const edges of outgoing.values()) {
+      for (const first of edges) {
+        if (first.used) continue;
+
+        const ring: Point[] = [];
+        let edge = first;
+
+        while (!edge.used) {
+          edge.used = true;
+
+          const next = { x: edge.from.x + DIRECTIONS[edge.dir].x, y: edge.from.y + DIRECTIONS[edge.dir].y };
+          const candidates = (outgoing.get(`${next.x},${next.y}`) ?? []).filter(e => !e.used || e === first);
+
+          // Where two rings pinch at a corner, turn right first so diagonal cells stay apart
+          const preference = [(edge.dir + 1) % 4, edge.dir, (edge.dir + 3) % 4];
+          const following = preference
+            .map(dir => candidates.find(e => e.dir === dir))
+            .find(e => e !== undefined);
+
+          if (!following) break;
+          if (following.dir !== edge.dir) ring.push(next); // Keep corners only
+          edge = following;
+        }
+
+        rings.push(ring);
+      }
+    }
+
+    return rings;
+  }
+
+  /**
+   * Shoelace area, positive for rings running clockwise on screen (y down)
+   */
+  private static signedArea(ring: Point[]): number {
+    let sum = 0;
+    for (let i = 0; i < ring.length; i++) {
+      const a = ring[i];
+      const b = ring[(i + 1) % ring.length];
+      sum += a.x * b.y - b.x * a.y;
+    }
+    return sum / 2;
+  }
+
   /**
    * Create a deep copy of the grid
    */
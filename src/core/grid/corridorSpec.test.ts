@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { resolveCorridorStamps, toCorridorSpec } from './corridorSpec.js';
+import { CorridorRule } from '../../types.js';
+
+describe('corridorSpec', () => {
+  it('should map fixed rules to unrotated side sets', () => {
+    expect(toCorridorSpec(undefined)).toEqual({ sides: [] });
+    expect(toCorridorSpec(CorridorRule.TWO_SIDES)).toEqual({ sides: ['bottom', 'right'], rotate: false });
+    expect(resolveCorridorStamps({ id: 'a', corridorRule: CorridorRule.ONE_SIDE }, 1)).toEqual([{ sides: ['bottom'], width: 1 }]);
+  });
+
+  it('should list each distinct quarter turn once, requested orientation first', () => {
+    const turns = (sides: ('top' | 'right' | 'bottom' | 'left')[]) =>
+      resolveCorridorStamps({ id: 'a', corridorRule: { sides } }, 1).map(stamp => stamp.sides);
+
+    expect(turns(['top', 'left'])).toEqual([['top', 'left'], ['top', 'right'], ['right', 'bottom'], ['bottom', 'left']]);
+    expect(turns(['top', 'bottom'])).toEqual([['top', 'bottom'], ['right', 'left']]);
+    expect(turns(['top', 'right', 'bottom', 'left'])).toHaveLength(1);
+  });
+
+  it('should round metre widths up to whole cells', () => {
+    const width = (metres: number, gridResolution: number) =>
+      resolveCorridorStamps({ id: 'a', corridorRule: { sides: ['top'], width: metres, unit: 'm' } }, gridResolution)[0].width;
+
+    expect(width(1.5, 0.5)).toBe(3);
+    expect(width(0.3, 0.1)).toBe(3);
+    expect(width(1.2, 1)).toBe(2);
+  });
+});
@@ -0,0 +1,70 @@
+import { CorridorRule, CorridorSide, CorridorSpec } from '../../types.js';
+
+// Clockwise, so a quarter turn moves every side one step along
+export const CORRIDOR_SIDES: CorridorSide[] = ['top', 'right', 'bottom', 'left'];
+
+// Side sets of the fixed rules, indexed by CorridorRule
+const RULE_SIDES: CorridorSide[][] = [[], ['bottom'], ['bottom', 'right'], ['top', 'right', 'bottom', 'left']];
+
+/**
+ * Corridor strips of one placement, resolved to grid cells
+ */
+export interface CorridorStamp {
+  sides: CorridorSide[]; // In CORRIDOR_SIDES order
+  width: number;         // In cells
+}
+
+/**
+ * Spec equivalent of a corridorRule. Fixed rules keep their orientation; rules of
+ * ALL_SIDES and above are the halo, as before.
+ */
+export function toCorridorSpec(rule: CorridorRule | CorridorSpec | undefined): CorridorSpec {
+  if (rule === undefined) return { sides: [] };
+  if (typeof rule === 'number') {
+    return { sides: RULE_SIDES[Math.min(Math.max(rule, 0), CorridorRule.ALL_SIDES)], rotate: false };
+  }
+  return rule;
+}
+
+/**
+ * Orientations the solver may stamp a room's corridors in, the requested one first.
+ * Widths in metres round up to whole cells of `gridResolution` metres.
+ */
+export function resolveCorridorStamps(
+  room: { id: string; corridorRule?: CorridorRule | CorridorSpec },
+  gridResolution: number
+): CorridorStamp[] {
+  const spec = toCorridorSpec(room.corridorRule);
+
+  for (const side of spec.sides) {
+    if (!CORRIDOR_SIDES.includes(side)) {
+      throw new Error(`Room "${room.id}" has unknown corridor side "${side}"`);
+    }
+  }
+
+  const width = spec.width ?? 1;
+  if (!Number.isFinite(width) || width <= 0) {
+    throw new Error(`Room "${room.id}" corridor width must be positive, got ${width}`);
+  }
+  if (spec.unit !== 'm' && !Number.isInteger(width)) {
+    throw new Error(`Room "${room.id}" corridor width must be a whole number of cells, got ${width}`);
+  }
+  // Small tolerance so 1.5 m at 0.5 m stays 3 cells despite float error
+  const cells = spec.unit === 'm' ? Math.ceil(width / gridResolution - 1e-9) : width;
+
+  const turns = spec.rotate === false || spec.sides.length === 0 ? 1 : CORRIDOR_SIDES.length;
+  const stamps: CorridorStamp[] = [];
+  const seen = new Set<string>();
+
+  for (let turn = 0; turn < turns; turn++) {
+    const sides = CORRIDOR_SIDES.filter((_, i) =>
+      spec.sides.includes(CORRIDOR_SIDES[(i - turn + CORRIDOR_SIDES.length) % CORRIDOR_SIDES.length])
+    );
+    const key = sides.join(',');
+    if (seen.has(key)) continue; // Symmetric sets repeat themselves
+    seen.add(key);
+    stamps.push({ sides, width: cells });
+  }
+
+  return stamps;
+}
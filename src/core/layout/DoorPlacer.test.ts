@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { DoorPlacer, CORRIDOR_DOOR_TARGET } from './DoorPlacer.js';
+import { GridBuffer } from '../grid/GridBuffer.js';
+import { CELL_CORRIDOR } from '../../constants.js';
+
+describe('DoorPlacer', () => {
+  const kitchen = { id: 'kitchen', x: 0, y: 0, width: 4, height: 3 };
+  const living = { id: 'living', x: 4, y: 0, width: 5, height: 5 };
+  const bath = { id: 'bath', x: 0, y: 3, width: 4, height: 2 };
+
+  it('should place a door centred on the shared wall of an adjacency', () => {
+    const plan = new DoorPlacer().place([kitchen, living], [{ a: 'kitchen', b: 'living' }]);
+
+    expect(plan.undoorable).toHaveLength(0);
+    expect(plan.doors).toHaveLength(1);
+
+    const door = plan.doors[0];
+    expect(door.kind).toBe('adjacency');
+    expect(door.orientation).toBe('vertical');
+    expect(door.center).toEqual({ x: 4, y: 1.5 });
+    expect(door.end.y - door.start.y).toBeCloseTo(0.9);
+  });
+
+  it('should use the configured door width', () => {
+    const plan = new DoorPlacer({ doorWidth: 2 }).place([kitchen, living], [{ a: 'kitchen', b: 'living' }]);
+
+    expect(plan.doors[0].width).toBe(2);
+    expect(plan.doors[0].start.y).toBeCloseTo(0.5);
+    expect(plan.doors[0].end.y).toBeCloseTo(2.5);
+  });
+
+  it('should report adjacencies that cannot get a door', () => {
+    const closet = { id: 'closet', x: 9, y: 4.5, width: 2, height: 2 }; // Touches living along 0.5
+    const plan = new DoorPlacer().place([kitchen, living, bath, closet], [
+      { a: 'kitchen', b: 'ghost' },
+      { a: 'bath', b: 'closet' },
+      { a: 'living', b: 'closet' },
+    ]);
+
+    expect(plan.doors).toHaveLength(0);
+    expect(plan.undoorable).toEqual([
+      { a: 'kitchen', b: 'ghost', reason: 'missing-room', sharedWallLength: 0 },
+      { a: 'bath', b: 'closet', reason: 'not-touching', sharedWallLength: 0 },
+      { a: 'living', b: 'closet', reason: 'wall-too-short', sharedWallLength: 0.5 },
+    ]);
+  });
+
+  it('should connect every room to its longest corridor wall', () => {
+    const corridor = { id: 'corridor-0', x: 0, y: 5, width: 9, height: 1, kind: 'corridor' as const };
+    const plan = new DoorPlacer().place([kitchen, living, bath, corridor], []);
+
+    const corridorDoors = plan.doors.filter(d => d.kind === 'corridor');
+    expect(corridorDoors.map(d => d.from).sort()).toEqual(['bath', 'living']);
+    expect(corridorDoors.every(d => d.to === 'corridor-0' && d.orientation === 'horizontal')).toBe(true);
+  });
+
+  it('should not add a corridor door on top of an adjacency door', () => {
+    const corridor = { id: 'corridor-0', x: 0, y: 5, width: 9, height: 1, kind: 'corridor' as const };
+    const plan = new DoorPlacer().place([bath, corridor], [{ a: 'bath', b: 'corridor-0' }]);
+
+    expect(plan.doors).toHaveLength(1);
+    expect(plan.doors[0].kind).toBe('adjacency');
+  });
+
+  it('should place doors onto grid corridor cells for DiscreteSolver output', () => {
+    const grid = new GridBuffer(10, 10);
+    for (let x = 0; x < 10; x++) grid.set(x, 5, CELL_CORRIDOR);
+    grid.set(3, 2, CELL_CORRIDOR);
+
+    const rooms = new Map([
+      ['a', { id: 'a', x: 0, y: 6, width: 4, height: 3 }],  // Below the corridor row
+      ['b', { id: 'b', x: 0, y: 0, width: 3, height: 4 }],  // Right side touches the (3, 2) spur only
+      ['c', { id: 'c', x: 6, y: 0, width: 3, height: 3 }],  // No corridor contact
+    ]);
+    const plan = new DoorPlacer({ doorWidth: 1, wallClearance: 0 }).place(rooms, [], grid);
+
+    expect(plan.doors.map(d => d.from)).toEqual(['a', 'b']);
+    expect(plan.doors.every(d => d.to === CORRIDOR_DOOR_TARGET)).toBe(true);
+
+    expect(plan.doors[0].orientation).toBe('horizontal');
+    expect(plan.doors[0].center).toEqual({ x: 2, y: 6 });
+  });
+});
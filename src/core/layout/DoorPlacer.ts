@@ -0,0 +1,229 @@
+import { Adjacency, RoomKind } from '../../types.js';
+import { Vec2 } from '../geometry/Vector2.js';
+import { Polygon, Rect, WallSegment } from '../geometry/Polygon.js';
+import { GridBuffer } from '../grid/GridBuffer.js';
+import { CELL_CORRIDOR } from '../../constants.js';
+import { isCirculation } from '../rooms/roomKinds.js';
+
+// Defaults are in layout units (metres for metric layouts, cells for DiscreteSolver output)
+const DEFAULT_DOOR_WIDTH = 0.9;
+const DEFAULT_WALL_CLEARANCE = 0.1;
+const DEFAULT_WALL_TOLERANCE = 0.1;
+
+/**
+ * Any room rectangle with an id: RoomState from SpringSolver.getState(),
+ * PlacedRoom from DiscreteSolver.getPlacedRooms(), ...
+ */
+export interface RoomRect extends Rect {
+  id: string;
+  kind?: RoomKind; // Default 'room'
+}
+
+export interface DoorConfig {
+  doorWidth: number;     // Clear opening width
+  wallClearance: number; // Minimum wall left on each side of the door (keeps doors off corners)
+  tolerance: number;     // Edges closer than this count as one shared wall
+}
+
+export interface Door {
+  from: string;             // Room id
+  to: string;               // Room id, or CORRIDOR_DOOR_TARGET for a door onto a grid corridor
+  kind: 'adjacency' | 'corridor';
+  center: Vec2;
+  start: Vec2;              // Opening start on the wall line
+  end: Vec2;                // Opening end on the wall line
+  orientation: WallSegment['orientation'];
+  width: number;
+}
+
+export type UndoorableReason = 'missing-room' | 'not-touching' | 'wall-too-short';
+
+export interface UndoorableAdjacency {
+  a: string;
+  b: string;
+  reason: UndoorableReason;
+  sharedWallLength: number; // 0 unless the reason is 'wall-too-short'
+}
+
+export interface DoorPlan {
+  doors: Door[];
+  undoorable: UndoorableAdjacency[];
+}
+
+/** `Door.to` value for doors opening onto DiscreteSolver corridor cells */
+export const CORRIDOR_DOOR_TARGET = 'corridor';
+
+/**
+ * Post-processor that turns a solved room set into doors.
+ *
+ * - Every required adjacency gets one door centred on the rooms' shared wall.
+ * - Every room that touches a corridor gets one door onto it: corridor rooms
+ *   (circulation kinds, see ROOM_KINDS) for continuous solvers, or CELL_CORRIDOR
+ *   cells when the DiscreteSolver grid is passed in.
+ * - Adjacencies that cannot get a door are reported with the reason.
+ */
+export class DoorPlacer {
+  private config: DoorConfig;
+
+  constructor(config: Partial<DoorConfig> = {}) {
+    this.config = {
+      doorWidth: config.doorWidth ?? DEFAULT_DOOR_WIDTH,
+      wallClearance: config.wallClearance ?? DEFAULT_WALL_CLEARANCE,
+      tolerance: config.tolerance ?? DEFAULT_WALL_TOLERANCE,
+    };
+  }
+
+  /**
+   * Place doors for a final room set.
+   * @param grid - DiscreteSolver grid; when given, rooms are in grid cells and doors onto corridor cells are added
+   */
+  place(rooms: RoomRect[] | Map<string, RoomRect>, adjacencies: Adjacency[], grid?: GridBuffer): DoorPlan {
+    const roomList = Array.isArray(rooms) ? rooms : Array.from(rooms.values());
+    const byId = new Map(roomList.map(r => [r.id, r]));
+
+    const doors: Door[] = [];
+    const undoorable: UndoorableAdjacency[] = [];
+    const connected = new Set<string>(); // "a|b" pairs that already have a door
+
+    // 1. Required adjacencies
+    for (const adj of adjacencies) {
+      const roomA = byId.get(adj.a);
+      const roomB = byId.get(adj.b);
+
+      if (!roomA || !roomB) {
+        undoorable.push({ a: adj.a, b: adj.b, reason: 'missing-room', sharedWallLength: 0 });
+        continue;
+      }
+
+      const key = DoorPlacer.pairKey(adj.a, adj.b);
+      if (connected.has(key)) continue;
+
+      const wall = Polygon.sharedWall(roomA, roomB, this.config.tolerance);
+      if (!wall) {
+        undoorable.push({ a: adj.a, b: adj.b, reason: 'not-touching', sharedWallLength: 0 });
+        continue;
+      }
+
+      const door = this.createDoor(adj.a, adj.b, 'adjacency', wall);
+      if (!door) {
+        undoorable.push({ a: adj.a, b: adj.b, reason: 'wall-too-short', sharedWallLength: wall.length });
+        continue;
+      }
+
+      doors.push(door);
+      connected.add(key);
+    }
+
+    // 2. Corridor rooms (continuous solvers): one door per room onto its longest corridor wall
+    const corridors = roomList.filter(r => DoorPlacer.isCorridor(r));
+    for (const room of roomList) {
+      if (DoorPlacer.isCorridor(room)) continue;
+
+      let best: { corridor: RoomRect; wall: WallSegment } | null = null;
+      for (const corridor of corridors) {
+        const wall = Polygon.sharedWall(room, corridor, this.config.tolerance);
+        if (wall && (!best || wall.length > best.wall.length)) {
+          best = { corridor, wall };
+        }
+      }
+
+      if (best && !connected.has(DoorPlacer.pairKey(room.id, best.corridor.id))) {
+        const door = this.createDoor(room.id, best.corridor.id, 'corridor', best.wall);
+        if (door) {
+          doors.push(door);
+          connected.add(DoorPlacer.pairKey(room.id, best.corridor.id));
+        }
+      }
+    }
+
+    // 3. Grid corridors (DiscreteSolver): one door per room onto its longest run of corridor cells
+    if (grid) {
+      for (const room of roomList) {
+        const wall = DoorPlacer.longestCorridorRun(room, grid);
+        const door = wall ? this.createDoor(room.id, CORRIDOR_DOOR_TARGET, 'corridor', wall) : null;
+        if (door) doors.push(door);
+      }
+    }
+
+    return { doors, undoorable };
+  }
+
+  /**
+   * Centre a door on a wall segment, or null if the wall is too short for door + clearances
+   */
+  private createDoor(from: string, to: string, kind: Door['kind'], wall: WallSegment): Door | null {
+    const { doorWidth, wallClearance } = this.config;
+    if (wall.length < doorWidth + 2 * wallClearance) {
+      return null;
+    }
+
+    const center: Vec2 = {
+      x: (wall.start.x + wall.end.x) / 2,
+      y: (wall.start.y + wall.end.y) / 2,
+    };
+    const half = doorWidth / 2;
+    const [start, end]: Vec2[] = wall.orientation === 'horizontal'
+      ? [{ x: center.x - half, y: center.y }, { x: center.x + half, y: center.y }]
+      : [{ x: center.x, y: center.y - half }, { x: center.x, y: center.y + half }];
+
+    return { from, to, kind, center, start, end, orientation: wall.orientation, width: doorWidth };
+  }
+
+  /**
+   * Longest straight run of corridor cells along one side of a room, as a wall segment on
+   * the room's edge (grid cell units). Null if the room touches no corridor.
+   */
+  private static longestCorridorRun(room: RoomRect, grid: GridBuffer): WallSegment | null {
+    let best: WallSegment | null = null;
+
+    const consider = (segment: WallSegment) => {
+      if (!best || segment.length > best.length) best = segment;
+    };
+
+    // Horizontal sides: row above (y - 1) and row below (y + height)
+    for (const [cellY, wallY] of [[room.y - 1, room.y], [room.y + room.height, room.y + room.height]]) {
+      let runStart = -1;
+      for (let dx = 0; dx <= room.width; dx++) {
+        const isCorridor = dx < room.width && grid.get(room.x + dx, cellY) === CELL_CORRIDOR;
+        if (isCorridor && runStart < 0) runStart = dx;
+        if (!isCorridor && runStart >= 0) {
+          consider({
+            start: { x: room.x + runStart, y: wallY },
+            end: { x: room.x + dx, y: wallY },
+            orientation: 'horizontal',
+            length: dx - runStart,
+          });
+          runStart = -1;
+        }
+      }
+    }
+
+    // Vertical sides: column left (x - 1) and column right (x + width)
+    for (const [cellX, wallX] of [[room.x - 1, room.x], [room.x + room.width, room.x + room.width]]) {
+      let runStart = -1;
+      for (let dy = 0; dy <= room.height; dy++) {
+        const isCorridor = dy < room.height && grid.get(cellX, room.y + dy) === CELL_CORRIDOR;
+        if (isCorridor && runStart < 0) runStart = dy;
+        if (!isCorridor && runStart >= 0) {
+          consider({
+            start: { x: wallX, y: room.y + runStart },
+            end: { x: wallX, y: room.y + dy },
+            orientation: 'vertical',
+            length: dy - runStart,
+          });
+          runStart = -1;
+        }
+      }
+    }
+
+    return best;
+  }
+
+  private static isCorridor(room: RoomRect): boolean {
+    return isCirculation(room);
+  }
+
+  private static pairKey(a: string, b: string): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { WallGraph, GRID_CORRIDOR_ID } from './WallGraph.js';
+import { GridBuffer } from '../grid/GridBuffer.js';
+import { Polygon } from '../geometry/Polygon.js';
+import { CELL_CORRIDOR, CELL_OUT_OF_BOUNDS } from '../../constants.js';
+
+describe('WallGraph', () => {
+  describe('fromRooms', () => {
+    // 10 x 6 plan: a on top, b and c side by side below
+    const rooms = [
+      { id: 'a', x: 0, y: 0, width: 10, height: 3 },
+      { id: 'b', x: 0, y: 3, width: 4, height: 3 },
+      { id: 'c', x: 4, y: 3, width: 6, height: 3 },
+    ];
+
+    it('should emit each shared wall once with both room ids', () => {
+      const graph = WallGraph.fromRooms(rooms, { tolerance: 0.1 });
+
+      const interior = graph.walls.filter(w => w.left !== null && w.right !== null);
+      expect(interior.map(w => [w.left, w.right, w.length])).toEqual([
+        ['b', 'c', 3],
+        ['a', 'b', 4],
+        ['a', 'c', 6],
+      ]);
+    });
+
+    it('should split and total the perimeter', () => {
+      const graph = WallGraph.fromRooms(rooms, { tolerance: 0.1 });
+
+      expect(graph.getTotalLength('exterior')).toBeCloseTo(32);
+      expect(graph.getTotalLength('interior')).toBeCloseTo(13);
+      expect(graph.getTotalLength()).toBeCloseTo(45);
+    });
+
+    it('should find T junctions', () => {
+      const graph = WallGraph.fromRooms(rooms, { tolerance: 0.1 });
+
+      const junctions = graph.getJunctions().map(n => n.position);
+      expect(junctions).toContainEqual({ x: 4, y: 3 });
+      expect(junctions).toContainEqual({ x: 0, y: 3 });
+      expect(junctions).toContainEqual({ x: 10, y: 3 });
+    });
+
+    it('should snap gaps and slivers into one wall', () => {
+      const graph = WallGraph.fromRooms([
+        { id: 'a', x: 0, y: 0, width: 4.05, height: 4 },  // Overlaps b by a sliver
+        { id: 'b', x: 4, y: 0.02, width: 4, height: 3.95 },
+      ], { tolerance: 0.1 });
+
+      const shared = graph.walls.filter(w => w.left === 'a' && w.right === 'b');
+      expect(shared).toHaveLength(1);
+      expect(shared[0].length).toBeCloseTo(3.975);
+      expect(shared[0].start.x).toBeCloseTo(4.025);
+    });
+
+    it('should classify walls facing unused floor inside the boundary as interior', () => {
+      const boundary = Polygon.createRectangle(0, 0, 10, 6);
+      const graph = WallGraph.fromRooms(rooms.slice(0, 2), { boundary, tolerance: 0.1 });
+
+      const facingEmpty = graph.walls.find(w => w.left === 'b' && w.right === null && w.orientation === 'vertical');
+      expect(facingEmpty?.kind).toBe('interior');
+      expect(graph.getWallsOf('a').filter(w => w.kind === 'exterior')).toHaveLength(3);
+    });
+  });
+
+  describe('fromGrid', () => {
+    it('should trace walls between rooms, corridors and the boundary in world units', () => {
+      const grid = new GridBuffer(4, 3);
+      // Row 0: 1 1 2 2, row 1: corridor, row 2: out of bounds except one empty cell
+      for (let x = 0; x < 4; x++) {
+        grid.set(x, 0, x < 2 ? 1 : 2);
+        grid.set(x, 1, CELL_CORRIDOR);
+        grid.set(x, 2, x === 0 ? 0 : CELL_OUT_OF_BOUNDS);
+      }
+
+      const graph = WallGraph.fromGrid(grid, {
+        gridResolution: 0.5,
+        origin: { x: 10, y: 20 },
+        rooms: [{ id: 'kitchen', roomIndex: 1 }, { id: 'living', roomIndex: 2 }],
+      });
+
+      const between = graph.walls.find(w => w.left === 'kitchen' && w.right === 'living');
+      expect(between).toMatchObject({ start: { x: 11, y: 20 }, end: { x: 11, y: 20.5 }, kind: 'interior' });
+
+      expect(graph.getWallsOf(GRID_CORRIDOR_ID).filter(w => w.left === 'kitchen' || w.left === 'living')).toHaveLength(2);
+
+      // Corridor bottom: one interior piece onto the empty cell, one exterior piece onto out-of-bounds
+      const corridorBottom = graph.walls.filter(w => w.left === GRID_CORRIDOR_ID && w.orientation === 'horizontal');
+      expect(corridorBottom.map(w => [w.kind, w.length])).toEqual([['interior', 0.5], ['exterior', 1.5]]);
+    });
+  });
+});
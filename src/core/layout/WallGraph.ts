@@ -0,0 +1,319 @@
+import { Vec2 } from '../geometry/Vector2.js';
+import { Polygon, PolygonLike, WallSegment } from '../geometry/Polygon.js';
+import { GridBuffer } from '../grid/GridBuffer.js';
+import { CELL_CORRIDOR, CELL_EMPTY, CELL_OUT_OF_BOUNDS } from '../../constants.js';
+import { RoomRect } from './DoorPlacer.js';
+
+// Snapping distance for continuous layouts (~33cm at 30 units/m, same as EvolutionaryGene.measureSharedWall)
+const DEFAULT_SNAP_TOLERANCE = 10;
+
+/** Side id used for corridor cells when building from a DiscreteSolver grid */
+export const GRID_CORRIDOR_ID = 'corridor';
+
+/**
+ * One straight wall between two sides.
+ * Walls run from start to end in increasing coordinate. `left` is the side with the
+ * lower coordinate (west of a vertical wall, north of a horizontal wall), `right` the other.
+ * A side is null when no room is there (outside the building or unused floor area).
+ */
+export interface Wall extends WallSegment {
+  id: number;
+  left: string | null;
+  right: string | null;
+  kind: 'exterior' | 'interior';
+  startNode: number;
+  endNode: number;
+}
+
+/**
+ * Wall end point. Nodes with 3+ walls are junctions (T and cross), 2 are corners or splits.
+ */
+export interface WallNode {
+  id: number;
+  position: Vec2;
+  walls: number[];
+}
+
+export interface WallGraphRoomOptions {
+  boundary?: PolygonLike; // Walls facing outside this polygon are exterior; without it every wall with an empty side is
+  tolerance?: number;     // Edges closer than this are snapped onto one wall line
+}
+
+export interface WallGraphGridOptions {
+  gridResolution?: number;                          // World units per cell
+  origin?: Vec2;                                    // World position of cell (0, 0)
+  rooms?: Iterable<{ id: string; roomIndex: number }>; // Cell value -> room id (e.g. DiscreteSolver.getPlacedRooms().values())
+}
+
+/**
+ * Elementary piece of wall on one line, before merging
+ */
+interface RawSegment {
+  orientation: WallSegment['orientation'];
+  line: number; // x of vertical walls, y of horizontal walls
+  from: number;
+  to: number;
+  left: string | null;
+  right: string | null;
+  exterior: boolean;
+}
+
+/**
+ * Deduplicated wall network of a layout: every wall appears once, with the rooms on
+ * both sides, exterior/interior classification and the nodes where walls meet.
+ * Build with WallGraph.fromRooms (continuous solvers) or WallGraph.fromGrid (DiscreteSolver).
+ */
+export class WallGraph {
+  public readonly walls: Wall[];
+  public readonly nodes: WallNode[];
+
+  private constructor(walls: Wall[], nodes: WallNode[]) {
+    this.walls = walls;
+    this.nodes = nodes;
+  }
+
+  /**
+   * Build from room rectangles, e.g. SpringSolver.getState().
+   * Room edges within `tolerance` of each other are snapped together first, so the
+   * gaps and slivers left by squish collisions become one shared wall.
+   */
+  static fromRooms(rooms: RoomRect[], options: WallGraphRoomOptions = {}): WallGraph {
+    const tolerance = options.tolerance ?? DEFAULT_SNAP_TOLERANCE;
+    const boundary = options.boundary;
+
+    const snapX = WallGraph.snapValues(rooms.flatMap(r => [r.x, r.x + r.width]), tolerance);
+    const snapY = WallGraph.snapValues(rooms.flatMap(r => [r.y, r.y + r.height]), tolerance);
+
+    const snapped = rooms.map(r => {
+      const x0 = snapX.get(r.x)!;
+      const y0 = snapY.get(r.y)!;
+      return { id: r.id, x0, y0, x1: snapX.get(r.x + r.width)!, y1: snapY.get(r.y + r.height)! };
+    }).filter(r => r.x1 > r.x0 && r.y1 > r.y0); // Rooms thinner than the tolerance collapse
+
+    const isExterior = (orientation: WallSegment['orientation'], line: number, from: number, to: number, emptySide: -1 | 1): boolean => {
+      if (!boundary) return true;
+      const mid = (from + to) / 2;
+      const probe = orientation === 'vertical'
+        ? { x: line + emptySide * tolerance, y: mid }
+        : { x: mid, y: line + emptySide * tolerance };
+      return !Polygon.pointInPolygon(probe, boundary);
+    };
+
+    const raw: RawSegment[] = [];
+
+    for (const orientation of ['vertical', 'horizontal'] as const) {
+      // Edges per line: rooms ending at the line sit on its left, rooms starting at it on its right
+      const lines = new Map<number, { lows: typeof snapped; highs: typeof snapped }>();
+      const lineOf = (value: number) => {
+        let entry = lines.get(value);
+        if (!entry) {
+          entry = { lows: [], highs: [] };
+          lines.set(value, entry);
+        }
+        return entry;
+      };
+
+      for (const room of snapped) {
+        const [start, end] = orientation === 'vertical' ? [room.x0, room.x1] : [room.y0, room.y1];
+        lineOf(end).lows.push(room);
+        lineOf(start).highs.push(room);
+      }
+
+      const span = (r: typeof snapped[number]): [number, number] => (orientation === 'vertical' ? [r.y0, r.y1] : [r.x0, r.x1]);
+
+      for (const [line, { lows, highs }] of lines) {
+        const breaks = Array.from(new Set([...lows, ...highs].flatMap(span))).sort((a, b) => a - b);
+
+        for (let i = 0; i < breaks.length - 1; i++) {
+          const from = breaks[i];
+          const to = breaks[i + 1];
+          const covers = (r: typeof snapped[number]) => span(r)[0] <= from && span(r)[1] >= to;
+
+          const left = lows.find(covers)?.id ?? null;
+          const right = highs.find(covers)?.id ?? null;
+          if (left === null && right === null) continue;
+
+          const exterior = left === null || right === null
+            ? isExterior(orientation, line, from, to, left === null ? -1 : 1)
+            : false;
+
+          raw.push({ orientation, line, from, to, left, right, exterior });
+        }
+      }
+    }
+
+    return WallGraph.build(raw);
+  }
+
+  /**
+   * Build from a DiscreteSolver grid. Every cell edge between two different regions
+   * becomes wall; edges onto CELL_OUT_OF_BOUNDS are exterior. Corridor cells are one
+   * region with id GRID_CORRIDOR_ID; empty cells have no id.
+   */
+  static fromGrid(grid: GridBuffer, options: WallGraphGridOptions = {}): WallGraph {
+    const resolution = options.gridResolution ?? 1;
+    const origin = options.origin ?? { x: 0, y: 0 };
+
+    const roomIds = new Map<number, string>();
+    for (const room of options.rooms ?? []) {
+      roomIds.set(room.roomIndex, room.id);
+    }
+
+    const sideId = (value: number): string | null => {
+      if (value === CELL_CORRIDOR) return GRID_CORRIDOR_ID;
+      if (value === CELL_EMPTY || value === CELL_OUT_OF_BOUNDS) return null;
+      return roomIds.get(value) ?? `room-${value}`;
+    };
+
+    const raw: RawSegment[] = [];
+    const addEdge = (orientation: WallSegment['orientation'], line: number, from: number, low: number, high: number) => {
+      if (low === high) return;
+
+      const left = sideId(low);
+      const right = sideId(high);
+      if (left === null && right === null) return;
+
+      raw.push({
+        orientation,
+        line: line * resolution + (orientation === 'vertical' ? origin.x : origin.y),
+        from: from * resolution + (orientation === 'vertical' ? origin.y : origin.x),
+        to: (from + 1) * resolution + (orientation === 'vertical' ? origin.y : origin.x),
+        left,
+        right,
+        exterior: low === CELL_OUT_OF_BOUNDS || high === CELL_OUT_OF_BOUNDS,
+      });
+    };
+
+    // Vertical edges sit between (x - 1, y) and (x, y); the grid is surrounded by CELL_OUT_OF_BOUNDS
+    for (let x = 0; x <= grid.width; x++) {
+      for (let y = 0; y < grid.height; y++) {
+        addEdge('vertical', x, y, grid.get(x - 1, y), grid.get(x, y));
+      }
+    }
+
+    // Horizontal edges sit between (x, y - 1) and (x, y)
+    for (let y = 0; y <= grid.height; y++) {
+      for (let x = 0; x < grid.width; x++) {
+        addEdge('horizontal', y, x, grid.get(x, y - 1), grid.get(x, y));
+      }
+    }
+
+    return WallGraph.build(raw);
+  }
+
+  /**
+   * Total wall length, optionally only exterior or interior walls
+   */
+  getTotalLength(kind?: Wall['kind']): number {
+    return this.walls
+      .filter(w => kind === undefined || w.kind === kind)
+      .reduce((sum, w) => sum + w.length, 0);
+  }
+
+  /**
+   * Nodes where three or more walls meet
+   */
+  getJunctions(): WallNode[] {
+    return this.nodes.filter(n => n.walls.length >= 3);
+  }
+
+  /**
+   * Walls bounding a room (or the grid corridor region)
+   */
+  getWallsOf(id: string): Wall[] {
+    return this.walls.filter(w => w.left === id || w.right === id);
+  }
+
+  /**
+   * Merge collinear touching pieces with the same sides, then create the nodes
+   */
+  private static build(raw: RawSegment[]): WallGraph {
+    raw.sort((a, b) =>
+      (a.orientation === b.orientation ? 0 : a.orientation === 'vertical' ? -1 : 1) ||
+      a.line - b.line ||
+      a.from - b.from
+    );
+
+    const merged: RawSegment[] = [];
+    for (const segment of raw) {
+      const last = merged[merged.length - 1];
+      if (
+        last &&
+        last.orientation === segment.orientation &&
+        last.line === segment.line &&
+        last.to === segment.from &&
+        last.left === segment.left &&
+        last.right === segment.right &&
+        last.exterior === segment.exterior
+      ) {
+        last.to = segment.to;
+      } else {
+        merged.push({ ...segment });
+      }
+    }
+
+    const nodes: WallNode[] = [];
+    const nodeIndex = new Map<string, number>();
+    const nodeAt = (position: Vec2, wallId: number): number => {
+      const key = `${position.x},${position.y}`;
+      let id = nodeIndex.get(key);
+      if (id === undefined) {
+        id = nodes.length;
+        nodes.push({ id, position, walls: [] });
+        nodeIndex.set(key, id);
+      }
+      nodes[id].walls.push(wallId);
+      return id;
+    };
+
+    const walls = merged.map((segment, id): Wall => {
+      const start = segment.orientation === 'vertical'
+        ? { x: segment.line, y: segment.from }
+        : { x: segment.from, y: segment.line };
+      const end = segment.orientation === 'vertical'
+        ? { x: segment.line, y: segment.to }
+        : { x: segment.to, y: segment.line };
+
+      return {
+        id,
+        start,
+        end,
+        orientation: segment.orientation,
+        length: segment.to - segment.from,
+        left: segment.left,
+        right: segment.right,
+        kind: segment.exterior ? 'exterior' : 'interior',
+        startNode: nodeAt(start, id),
+        endNode: nodeAt(end, id),
+      };
+    });
+
+    return new WallGraph(walls, nodes);
+  }
+
+  /**
+   * Cluster sorted coordinates that are chained within `tolerance` and map each
+   * original value to its cluster mean
+   */
+  private static snapValues(values: number[], tolerance: number): Map<number, number> {
+    const sorted = Array.from(new Set(values)).sort((a, b) => a - b);
+    const result = new Map<number, number>();
+
+    let cluster: number[] = [];
+    const flush = () => {
+      const mean = cluster.reduce((sum, v) => sum + v, 0) / cluster.length;
+      for (const v of cluster) result.set(v, mean);
+      cluster = [];
+    };
+
+    for (const value of sorted) {
+      if (cluster.length > 0 && value - cluster[cluster.length - 1] >= tolerance) {
+        flush();
+      }
+      cluster.push(value);
+    }
+    if (cluster.length > 0) flush();
+
+    return result;
+  }
+}
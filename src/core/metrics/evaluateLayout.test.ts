@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateLayout } from './evaluateLayout.js';
+import { Vec2 } from '../geometry/Vector2.js';
+import { springTemplates } from '../../stories/templates/springTemplates.js';
+
+const boundary: Vec2[] = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 60 }, { x: 0, y: 60 }];
+
+describe('evaluateLayout', () => {
+  it('should measure a clean layout', () => {
+    const metrics = evaluateLayout(boundary, [
+      { id: 'a', x: 0, y: 0, width: 40, height: 40, targetArea: 1600, targetRatio: 1.5 },
+      { id: 'b', x: 40, y: 0, width: 60, height: 40, targetArea: 2000, targetRatio: 1.5 },
+      { id: 'corridor-0', x: 0, y: 40, width: 100, height: 20, kind: 'corridor' },
+    ], [{ a: 'a', b: 'b' }, { a: 'a', b: 'corridor-0', weight: 2 }]);
+
+    expect(metrics.boundaryArea).toBe(6000);
+    expect(metrics.overlapArea).toBe(0);
+    expect(metrics.outOfBoundsArea).toBe(0);
+    expect(metrics.unusedArea).toBeCloseTo(0);
+    expect(metrics.adjacencySatisfaction).toBe(1);
+    expect(metrics.adjacencies.map(adj => adj.sharedWallLength)).toEqual([40, 40]);
+    expect(metrics.circulationRatio).toBeCloseTo(2000 / 6000);
+    expect(metrics.exteriorAccessRatio).toBe(1);
+    expect(metrics.rooms[0].areaDeviation).toBe(0);
+    expect(metrics.rooms[1].areaDeviation).toBeCloseTo(0.2);
+    expect(metrics.meanAreaDeviation).toBeCloseTo(0.1);
+  });
+
+  it('should count overlaps once in the unused area', () => {
+    const metrics = evaluateLayout(boundary, [
+      { id: 'a', x: 0, y: 0, width: 50, height: 50 },
+      { id: 'b', x: 25, y: 25, width: 50, height: 50 },
+    ], []);
+
+    expect(metrics.overlapArea).toBe(625);
+    expect(metrics.outOfBoundsArea).toBe(750); // b reaches 15 units below the boundary
+    expect(metrics.unusedArea).toBeCloseTo(6000 - (2500 + 1750 - 625));
+  });
+
+  it('should count a hole the room covers as out of bounds', () => {
+    const square: Vec2[] = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+    const core: Vec2[] = [{ x: 40, y: 40 }, { x: 60, y: 40 }, { x: 60, y: 60 }, { x: 40, y: 60 }];
+    const metrics = evaluateLayout({ outer: square, holes: [core] }, [
+      { id: 'a', x: 30, y: 30, width: 40, height: 40 },
+    ], []);
+
+    expect(metrics.outOfBoundsArea).toBeCloseTo(400);
+    expect(metrics.rooms[0].outOfBoundsArea).toBeCloseTo(400);
+  });
+
+  it('should flag stretched rooms and rooms without exterior walls', () => {
+    const metrics = evaluateLayout(boundary, [
+      { id: 'inner', x: 30, y: 25, width: 40, height: 20, targetRatio: 1.5 },
+      { id: 'strip', x: 0, y: 0, width: 100, height: 10, targetRatio: 2 },
+    ], [{ a: 'inner', b: 'strip', weight: 3 }]);
+
+    expect(metrics.aspectRatioViolations).toBe(2);
+    expect(metrics.rooms[0].aspectRatioExcess).toBeCloseTo(0.5);
+    expect(metrics.rooms[0].exteriorWallLength).toBe(0);
+    expect(metrics.rooms[1].exteriorWallLength).toBe(120); // Top and both ends; the bottom faces the interior
+    expect(metrics.exteriorAccessRatio).toBe(0.5);
+    expect(metrics.adjacencySatisfaction).toBe(0);
+  });
+
+  it('should require minSharedWall and take targets from the program', () => {
+    const rooms = [
+      { id: 'a', x: 0, y: 0, width: 30, height: 30 },
+      { id: 'b', x: 30, y: 20, width: 30, height: 30 },
+    ];
+    const targets = [{ id: 'a', targetArea: 450 }];
+
+    const metrics = evaluateLayout(boundary, rooms, [{ a: 'a', b: 'b' }], { targets, minSharedWall: 20 });
+
+    expect(metrics.adjacencies[0].sharedWallLength).toBe(10);
+    expect(metrics.adjacencies[0].satisfied).toBe(false);
+    expect(metrics.rooms[0].areaDeviation).toBe(1);
+    expect(metrics.rooms[1].areaDeviation).toBeNull();
+  });
+
+  it('should evaluate solver states directly', () => {
+    const template = springTemplates['howoge-2-room'];
+    const metrics = evaluateLayout(template.boundary, template.rooms, template.adjacencies);
+
+    expect(metrics.rooms).toHaveLength(template.rooms.length);
+    expect(metrics.adjacencies).toHaveLength(template.adjacencies.length);
+    expect(metrics.adjacencySatisfaction).toBeGreaterThanOrEqual(0);
+    expect(metrics.adjacencySatisfaction).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,168 @@
+import { Adjacency } from '../../types.js';
+import { Polygon, PolygonLike } from '../geometry/Polygon.js';
+import { RoomRect } from '../layout/DoorPlacer.js';
+import { WallGraph } from '../layout/WallGraph.js';
+import { isCirculation } from '../rooms/roomKinds.js';
+
+// Snapping distance for continuous layouts (~33cm at 30 units/m, same as WallGraph)
+const DEFAULT_TOLERANCE = 10;
+
+/**
+ * Room rectangle with the program targets it is measured against.
+ * RoomState already fits (targetRatio, width × height); targetArea is optional.
+ */
+export interface EvaluatedRoom extends RoomRect {
+  targetArea?: number;
+  targetRatio?: number;
+}
+
+export interface LayoutEvaluationOptions {
+  targets?: { id: string; targetArea?: number; targetRatio?: number }[]; // Program targets by id, override the room fields (e.g. RoomRequest[])
+  tolerance?: number;     // Max gap between two edges that still counts as one wall (world units)
+  minSharedWall?: number; // Shared wall length needed to satisfy an adjacency (world units, default: any contact)
+}
+
+export interface RoomMetrics {
+  id: string;
+  area: number;
+  targetArea: number | null;     // null when neither the room nor options.targets give one
+  areaDeviation: number | null;  // |area - targetArea| / targetArea
+  aspectRatio: number;           // Long side / short side (>= 1)
+  aspectRatioExcess: number;     // How far aspectRatio exceeds the allowed targetRatio (0 = within range)
+  outOfBoundsArea: number;       // Part of the room outside the boundary or inside a hole
+  exteriorWallLength: number;    // Wall length facing outside the building (windows, daylight)
+  corridor: boolean;
+}
+
+export interface AdjacencyMetrics {
+  a: string;
+  b: string;
+  weight: number;
+  sharedWallLength: number;
+  satisfied: boolean;
+}
+
+/**
+ * Solver-independent quality metrics of a layout, in world units.
+ */
+export interface LayoutMetrics {
+  boundaryArea: number;           // Usable boundary area (minus holes)
+  roomArea: number;               // Sum of room areas (corridors included)
+  overlapArea: number;            // Sum of pairwise room overlaps
+  outOfBoundsArea: number;        // Sum of room area outside the usable boundary
+  unusedArea: number;             // Usable boundary area covered by no room
+  meanAreaDeviation: number;      // Mean relative area error over rooms with a target
+  aspectRatioViolations: number;  // Rooms stretched beyond their targetRatio
+  adjacencySatisfaction: number;  // Weighted share of satisfied adjacencies (1 when there are none)
+  exteriorAccessRatio: number;    // Share of non-corridor rooms with at least one exterior wall
+  circulationRatio: number;       // Corridor area / total room area
+  rooms: RoomMetrics[];
+  adjacencies: AdjacencyMetrics[];
+}
+
+/**
+ * Measure a layout from any solver (SpringSolver.getState(), EvolutionaryFloorplanSolver,
+ * converted DiscreteSolver rooms) with the same metrics, for benchmarks and acceptance gates.
+ * Corridors are rooms of a circulation kind (see ROOM_KINDS).
+ */
+export function evaluateLayout(
+  boundary: PolygonLike,
+  rooms: EvaluatedRoom[],
+  adjacencies: Adjacency[],
+  options: LayoutEvaluationOptions = {}
+): LayoutMetrics {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const minSharedWall = options.minSharedWall ?? 0;
+  const targets = new Map((options.targets ?? []).map(t => [t.id, t]));
+
+  const outlines = rooms.map(room => rectangle(room));
+  const walls = WallGraph.fromRooms(rooms, { boundary, tolerance });
+
+  const roomMetrics: RoomMetrics[] = rooms.map((room, i) => {
+    const area = room.width * room.height;
+    const targetArea = targets.get(room.id)?.targetArea ?? room.targetArea ?? null;
+    const targetRatio = targets.get(room.id)?.targetRatio ?? room.targetRatio;
+
+    const shortSide = Math.min(room.width, room.height);
+    const aspectRatio = shortSide > 0 ? Math.max(room.width, room.height) / shortSide : Infinity;
+    const allowedRatio = targetRatio !== undefined && targetRatio > 0 ? Math.max(targetRatio, 1 / targetRatio) : Infinity;
+
+    const exteriorWallLength = walls.getWallsOf(room.id)
+      .filter(wall => wall.kind === 'exterior')
+      .reduce((sum, wall) => sum + wall.length, 0);
+
+    return {
+      id: room.id,
+      area,
+      targetArea,
+      areaDeviation: targetArea !== null && targetArea > 0 ? Math.abs(area - targetArea) / targetArea : null,
+      aspectRatio,
+      aspectRatioExcess: Math.max(0, aspectRatio - allowedRatio),
+      outOfBoundsArea: Math.max(0, area - Polygon.intersectionArea(boundary, outlines[i])),
+      exteriorWallLength,
+      corridor: isCirculation(room),
+    };
+  });
+
+  let overlapArea = 0;
+  for (let i = 0; i < rooms.length; i++) {
+    for (let j = i + 1; j < rooms.length; j++) {
+      overlapArea += rectOverlap(rooms[i], rooms[j]);
+    }
+  }
+
+  const byId = new Map(rooms.map(room => [room.id, room]));
+  const adjacencyMetrics: AdjacencyMetrics[] = adjacencies.map(adj => {
+    const a = byId.get(adj.a);
+    const b = byId.get(adj.b);
+    const sharedWallLength = a && b ? Polygon.sharedWall(a, b, tolerance)?.length ?? 0 : 0;
+
+    return {
+      a: adj.a,
+      b: adj.b,
+      weight: adj.weight ?? 1,
+      sharedWallLength,
+      satisfied: sharedWallLength > 0 && sharedWallLength >= minSharedWall,
+    };
+  });
+
+  const totalWeight = adjacencyMetrics.reduce((sum, adj) => sum + adj.weight, 0);
+  const satisfiedWeight = adjacencyMetrics.filter(adj => adj.satisfied).reduce((sum, adj) => sum + adj.weight, 0);
+
+  const boundaryArea = Polygon.area(boundary);
+  const roomArea = roomMetrics.reduce((sum, room) => sum + room.area, 0);
+  const corridorArea = roomMetrics.filter(room => room.corridor).reduce((sum, room) => sum + room.area, 0);
+
+  const deviations = roomMetrics.flatMap(room => (room.areaDeviation === null ? [] : [room.areaDeviation]));
+  const habitable = roomMetrics.filter(room => !room.corridor);
+
+  return {
+    boundaryArea,
+    roomArea,
+    overlapArea,
+    outOfBoundsArea: roomMetrics.reduce((sum, room) => sum + room.outOfBoundsArea, 0),
+    unusedArea: Math.max(0, boundaryArea - Polygon.coveredArea(boundary, outlines)),
+    meanAreaDeviation: deviations.length > 0 ? deviations.reduce((sum, d) => sum + d, 0) / deviations.length : 0,
+    aspectRatioViolations: roomMetrics.filter(room => room.aspectRatioExcess > 0).length,
+    adjacencySatisfaction: totalWeight > 0 ? satisfiedWeight / totalWeight : 1,
+    exteriorAccessRatio: habitable.length > 0
+      ? habitable.filter(room => room.exteriorWallLength > 0).length / habitable.length
+      : 1,
+    circulationRatio: roomArea > 0 ? corridorArea / roomArea : 0,
+    rooms: roomMetrics,
+    adjacencies: adjacencyMetrics,
+  };
+}
+
+/**
+ * Outline of a room rectangle (own copy: Polygon.createRectangle reuses its buffer)
+ */
+function rectangle(room: RoomRect) {
+  return Polygon.createRectangle(room.x, room.y, room.width, room.height).map(p => ({ ...p }));
+}
+
+function rectOverlap(a: RoomRect, b: RoomRect): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { ROOM_KINDS, roomKind, kindBehavior, isCirculation } from './roomKinds.js';
+
+describe('roomKinds', () => {
+  it('should treat rooms without a kind as plain rooms, whatever their id', () => {
+    expect(roomKind({})).toBe('room');
+    expect(isCirculation({ id: 'corridor-1' } as { id: string })).toBe(false);
+    expect(kindBehavior({})).toBe(ROOM_KINDS.room);
+  });
+
+  it('should mark only corridors as circulation', () => {
+    const circulation = (Object.keys(ROOM_KINDS) as (keyof typeof ROOM_KINDS)[]).filter(kind => isCirculation({ kind }));
+
+    expect(circulation).toEqual(['corridor']);
+  });
+
+  it('should keep vertical elements rigid and on their own ratio', () => {
+    for (const kind of ['stair', 'shaft'] as const) {
+      expect(ROOM_KINDS[kind]).toMatchObject({ reshapes: false, ownRatio: true });
+      expect(ROOM_KINDS[kind].overlapWeight).toBeGreaterThan(1);
+    }
+  });
+});
@@ -0,0 +1,45 @@
+import { RoomKind } from '../../types.js';
+
+/**
+ * How solvers, metrics and renderers treat one kind of room
+ */
+export interface RoomKindBehavior {
+  ownRatio: boolean;         // Keeps its own targetRatio when SpringConfig.globalTargetRatio is set
+  reshapes: boolean;         // Squish, inflation and aspect-ratio mutation may change its proportions
+  overlapWeight: number;     // Multiplier on overlap penalties involving this room
+  outOfBoundsWeight: number; // Multiplier on its area outside the boundary (0: may sit outside)
+  circulation: boolean;      // Counts as circulation: rooms open onto it, metrics count it as corridor
+  color: string | null;      // Render colour, or null to use the room's own palette colour
+}
+
+export const ROOM_KINDS: Record<RoomKind, RoomKindBehavior> = {
+  room: { ownRatio: false, reshapes: true, overlapWeight: 1, outOfBoundsWeight: 1, circulation: false, color: null },
+  // Long and thin by design, so the global ratio would fold it into a box
+  corridor: { ownRatio: true, reshapes: true, overlapWeight: 1, outOfBoundsWeight: 1, circulation: true, color: '#808080' },
+  // Vertical elements line up across floors: they translate instead of deforming, and nothing may cover them
+  shaft: { ownRatio: true, reshapes: false, overlapWeight: 4, outOfBoundsWeight: 1, circulation: false, color: '#5a5a6e' },
+  stair: { ownRatio: true, reshapes: false, overlapWeight: 4, outOfBoundsWeight: 1, circulation: false, color: '#a0826d' },
+  // Terraces, balconies and yards may extend past the building outline
+  outdoor: { ownRatio: false, reshapes: true, overlapWeight: 1, outOfBoundsWeight: 0, circulation: false, color: '#8fbc8f' },
+};
+
+/**
+ * Kind of a room; rooms without one are plain rooms
+ */
+export function roomKind(room: { kind?: RoomKind }): RoomKind {
+  return room.kind ?? 'room';
+}
+
+/**
+ * Behaviour of a room's kind
+ */
+export function kindBehavior(room: { kind?: RoomKind }): RoomKindBehavior {
+  return ROOM_KINDS[roomKind(room)];
+}
+
+/**
+ * True for corridors and halls
+ */
+export function isCirculation(room: { kind?: RoomKind }): boolean {
+  return kindBehavior(room).circulation;
+}
@@ -423,4 +423,355 @@ describe('DiscreteSolver - Corridors & Pruning', () => {
       }
     });
   });
+
+  describe('Corridor Objective', () => {
+    const fixedRoom: RoomRequest = {
+      id: 'a',
+      targetArea: 16,
+      targetRatio: 1,
+      corridorRule: CorridorRule.ONE_SIDE,
+      fixed: true,
+      placement: { x: 0, y: 0, width: 4, height: 4 },
+    };
+
+    it('should score corridor access, corridor cells and dead ends', () => {
+      // Corridor strip under the room (4 cells) plus the isolated start cell (an entrance, so
+      // no dead end); no entrance reaches the strip, which costs the fixed stranded penalty
+      const solver = new DiscreteSolver(createSimpleBoundary(), [fixedRoom], [], { maxIterations: 1 }, 1);
+      expect(solver.getResult().score.corridor).toBeCloseTo(0.5 * (10 - 5 * 0.2) - 100);
+
+      const unweighted = new DiscreteSolver(
+        createSimpleBoundary(),
+        [fixedRoom],
+        [],
+        { maxIterations: 1, weights: { compactness: 2, adjacency: 3, corridor: 0 } },
+        1
+      );
+      expect(unweighted.getResult().score.corridor).toBe(-100);
+    });
+
+    it('should keep the halo network connected to the entrance through solve()', () => {
+      const rooms: RoomRequest[] = Array.from({ length: 8 }, (_, i) => ({
+        id: `r${i}`,
+        targetArea: 9 + (i % 3) * 3,
+        targetRatio: 1.3,
+        corridorRule: CorridorRule.ALL_SIDES,
+      }));
+
+      for (const seed of [1, 2, 3, 4, 5]) {
+        const solver = new DiscreteSolver(createSimpleBoundary(), rooms, [], { maxIterations: 60, startPoint: { x: 0, y: 10 } }, seed);
+        solver.solve();
+
+        expect(solver.validateCorridorNetwork()).toBe(true);
+      }
+    });
+
+    it('should report the corridor share of the usable floor area', () => {
+      const solver = new DiscreteSolver(createSimpleBoundary(), [fixedRoom], [], { maxIterations: 1, gridResolution: 1 }, 1);
+      solver.solve(); // Keeps the isolated start cell, it is an entrance
+
+      const result = solver.getResult();
+      expect(result.corridorArea).toBe(5);
+      expect(result.corridorShare).toBeCloseTo(5 / 400);
+    });
+
+    it('should place rooms against the corridor network when weighted', () => {
+      const room: RoomRequest = { id: 'r', targetArea: 4, targetRatio: 1, corridorRule: CorridorRule.NONE };
+      const weights = { compactness: 0, adjacency: 0, corridor: 1 };
+      const solver = new DiscreteSolver(createSimpleBoundary(), [room], [], { maxIterations: 1, weights }, 3);
+      solver.solve();
+
+      // The only corridor is the start cell at the grid centre (10, 10)
+      const placed = solver.getPlacedRooms().get('r')!;
+      const besideX = (placed.x - 1 === 10 || placed.x + placed.width === 10) && placed.y <= 10 && 10 < placed.y + placed.height;
+      const besideY = (placed.y - 1 === 10 || placed.y + placed.height === 10) && placed.x <= 10 && 10 < placed.x + placed.width;
+      expect(besideX || besideY).toBe(true);
+    });
+  });
+
+  describe('Routed Corridors', () => {
+    it('should route fixed rooms to the entrance instead of stamping strips', () => {
+      const room: RoomRequest = {
+        id: 'a',
+        targetArea: 16,
+        targetRatio: 1,
+        corridorRule: CorridorRule.ALL_SIDES,
+        fixed: true,
+        placement: { x: 0, y: 0, width: 4, height: 4 },
+      };
+      const solver = new DiscreteSolver(createSimpleBoundary(), [room], [], { maxIterations: 1, corridorMode: 'route' }, 1);
+
+      // Shortest path from the start cell (10, 10) to a door cell beside the room: 13 cells
+      const result = solver.getResult();
+      expect(result.corridorArea).toBe(14);
+      expect(result.corridorConnected).toBe(true);
+    });
+
+    it('should leave rooms without a corridor rule off the network', () => {
+      const room: RoomRequest = {
+        id: 'a',
+        targetArea: 16,
+        targetRatio: 1,
+        corridorRule: CorridorRule.NONE,
+        fixed: true,
+        placement: { x: 0, y: 0, width: 4, height: 4 },
+      };
+      const solver = new DiscreteSolver(createSimpleBoundary(), [room], [], { maxIterations: 1, corridorMode: 'route' }, 1);
+
+      expect(solver.getResult().corridorArea).toBe(1);
+    });
+
+    it('should give every room access through one connected network', () => {
+      const rooms: RoomRequest[] = [
+        { id: 'living', targetArea: 36, targetRatio: 1.5, corridorRule: CorridorRule.TWO_SIDES },
+        { id: 'kitchen', targetArea: 16, targetRatio: 1.2, corridorRule: CorridorRule.ONE_SIDE },
+        { id: 'bedroom', targetArea: 25, targetRatio: 1.3, corridorRule: CorridorRule.ONE_SIDE },
+        { id: 'bath', targetArea: 9, targetRatio: 1, corridorRule: CorridorRule.ONE_SIDE },
+      ];
+      const adjacencies: Adjacency[] = [{ a: 'living', b: 'kitchen' }, { a: 'bedroom', b: 'bath' }];
+
+      for (const corridorWidth of [1, 2]) {
+        const solver = new DiscreteSolver(
+          createSimpleBoundary(),
+          rooms,
+          adjacencies,
+          { maxIterations: 20, corridorMode: 'route', corridorWidth },
+          7
+        );
+        solver.solve();
+
+        const result = solver.getResult();
+        const grid = solver.getGrid();
+        expect(result.unplacedRooms).toEqual([]);
+        expect(result.corridorConnected).toBe(true);
+
+        for (const room of result.placedRooms) {
+          let touches = false;
+          for (let dx = 0; dx < room.width; dx++) {
+            touches ||= grid.get(room.x + dx, room.y - 1) === CELL_CORRIDOR || grid.get(room.x + dx, room.y + room.height) === CELL_CORRIDOR;
+          }
+          for (let dy = 0; dy < room.height; dy++) {
+            touches ||= grid.get(room.x - 1, room.y + dy) === CELL_CORRIDOR || grid.get(room.x + room.width, room.y + dy) === CELL_CORRIDOR;
+          }
+          expect(touches).toBe(true);
+        }
+      }
+    });
+
+    it('should not count rooms behind a wall as placed when no corridor can reach them', () => {
+      // A wall from top to bottom at x = 8..9; only the right side is wide enough for the 9 × 9 room
+      const wall: Point[] = [{ x: 8, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 20 }, { x: 8, y: 20 }];
+      const room: RoomRequest = { id: 'hall', targetArea: 81, targetRatio: 1, corridorRule: CorridorRule.ONE_SIDE };
+      const solver = new DiscreteSolver(
+        createSimpleBoundary(),
+        [room],
+        [],
+        { maxIterations: 5, corridorMode: 'route', obstacles: [wall], startPoint: { x: 2, y: 10 } },
+        1
+      );
+      solver.solve();
+
+      const result = solver.getResult();
+      expect(result.placedRooms).toEqual([]);
+      expect(result.unplacedRooms).toEqual([{ id: 'hall', reason: 'no-corridor-connectivity' }]);
+      expect(result.unreachableRooms).toEqual([]);
+    });
+
+    it('should report fixed rooms the router cannot reach', () => {
+      const wall: Point[] = [{ x: 8, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 20 }, { x: 8, y: 20 }];
+      const rooms: RoomRequest[] = [
+        { id: 'cut-off', targetArea: 16, targetRatio: 1, corridorRule: CorridorRule.ONE_SIDE, fixed: true, placement: { x: 12, y: 2, width: 4, height: 4 } },
+        { id: 'near', targetArea: 16, targetRatio: 1, corridorRule: CorridorRule.ONE_SIDE, fixed: true, placement: { x: 2, y: 2, width: 4, height: 4 } },
+      ];
+      const solver = new DiscreteSolver(
+        createSimpleBoundary(),
+        rooms,
+        [],
+        { maxIterations: 1, corridorMode: 'route', obstacles: [wall], startPoint: { x: 2, y: 10 } },
+        1
+      );
+
+      const result = solver.getResult();
+      expect(result.placedRooms.map(r => r.id)).toEqual(['cut-off', 'near']);
+      expect(result.unreachableRooms).toEqual(['cut-off']);
+    });
+  });
+
+  describe('Corridor Specs', () => {
+    it('should stamp any side set at the requested width, with shared corners', () => {
+      const room: RoomRequest = {
+        id: 'a',
+        targetArea: 16,
+        targetRatio: 1,
+        corridorRule: { sides: ['top', 'left'], width: 2, rotate: false },
+        fixed: true,
+        placement: { x: 5, y: 5, width: 4, height: 4 },
+      };
+      const solver = new DiscreteSolver(createSimpleBoundary(), [room], [], { maxIterations: 1 }, 1);
+      const grid = solver.getGrid();
+
+      // Two 2 × 4 strips and the 2 × 2 corner between them, plus the entrance
+      expect(solver.getResult().corridorArea).toBe(21);
+      expect(grid.get(3, 3)).toBe(CELL_CORRIDOR);
+      expect(grid.get(8, 3)).toBe(CELL_CORRIDOR);
+      expect(grid.get(3, 8)).toBe(CELL_CORRIDOR);
+      expect(grid.get(3, 9)).toBe(CELL_EMPTY);
+      expect(grid.get(9, 5)).toBe(CELL_EMPTY);
+      expect(solver.getPlacedRooms().get('a')!.corridor).toEqual({ sides: ['top', 'left'], width: 2 });
+    });
+
+    it('should convert metre widths to whole cells', () => {
+      const room: RoomRequest = {
+        id: 'a',
+        targetArea: 4,
+        targetRatio: 1,
+        corridorRule: { sides: ['top'], width: 1.5, unit: 'm' },
+        fixed: true,
+        placement: { x: 2, y: 5, width: 4, height: 4 },
+      };
+      const solver = new DiscreteSolver(createSimpleBoundary(), [room], [], { maxIterations: 1, gridResolution: 0.5 }, 1);
+
+      expect(solver.getPlacedRooms().get('a')!.corridor!.width).toBe(3);
+      for (let y = 2; y < 5; y++) {
+        expect(solver.getGrid().get(2, y)).toBe(CELL_CORRIDOR);
+      }
+      expect(solver.getGrid().get(2, 1)).toBe(CELL_EMPTY);
+    });
+
+    it('should turn the side set when the requested orientation does not fit', () => {
+      // In a 5-cell-high grid a top strip lands on row 0, away from the entrance in the bottom row
+      const boundary: Point[] = [{ x: 0, y: 0 }, { x: 6, y: 0 }, { x: 6, y: 5 }, { x: 0, y: 5 }];
+      const config = { maxIterations: 1, entrances: [{ cell: { x: 5, y: 4 } }] };
+      const room = (rotate: boolean): RoomRequest => ({
+        id: 'a', targetArea: 16, targetRatio: 1, corridorRule: { sides: ['top'], rotate },
+      });
+
+      const fixed = new DiscreteSolver(boundary, [room(false)], [], config, 1);
+      fixed.solve();
+      expect(fixed.getResult().unplacedRooms.map(r => r.id)).toEqual(['a']);
+
+      const turning = new DiscreteSolver(boundary, [room(true)], [], config, 1);
+      turning.solve();
+      const placed = turning.getPlacedRooms().get('a');
+      expect(placed).toBeDefined();
+      expect(placed!.corridor!.sides).not.toEqual(['top']);
+      expect(turning.validateCorridorNetwork()).toBe(true);
+    });
+
+    it('should keep the chosen orientation through snapshots', () => {
+      const rooms: RoomRequest[] = [
+        { id: 'a', targetArea: 16, targetRatio: 1, corridorRule: { sides: ['left', 'bottom'], width: 2 } },
+        { id: 'b', targetArea: 9, targetRatio: 1, corridorRule: { sides: ['right'] } },
+      ];
+      const solver = new DiscreteSolver(createSimpleBoundary(), rooms, [], { maxIterations: 5 }, 3);
+      solver.solve();
+
+      const restored = DiscreteSolver.fromSnapshot(JSON.parse(JSON.stringify(solver.toSnapshot())));
+      expect(Array.from(restored.getPlacedRooms().values())).toEqual(Array.from(solver.getPlacedRooms().values()));
+      for (const room of restored.getPlacedRooms().values()) {
+        expect(room.corridor!.width).toBe(room.id === 'a' ? 2 : 1);
+      }
+    });
+
+    it('should reject unknown sides and bad widths', () => {
+      const room = (corridorRule: RoomRequest['corridorRule']): RoomRequest => ({ id: 'a', targetArea: 4, targetRatio: 1, corridorRule });
+
+      expect(() => new DiscreteSolver(createSimpleBoundary(), [room({ sides: ['north' as 'top'] })], [], {}, 1))
+        .toThrow('Room "a" has unknown corridor side "north"');
+      expect(() => new DiscreteSolver(createSimpleBoundary(), [room({ sides: ['top'], width: 1.5 })], [], {}, 1))
+        .toThrow('Room "a" corridor width must be a whole number of cells, got 1.5');
+    });
+  });
+
+  describe('Entrances', () => {
+    const stripRoom = (id: string, x: number): RoomRequest => ({
+      id,
+      targetArea: 16,
+      targetRatio: 1,
+      corridorRule: CorridorRule.ONE_SIDE,
+      fixed: true,
+      placement: { x, y: 15, width: 4, height: 4 }, // Strip along the bottom edge, y = 19
+    });
+
+    it('should honour startPoint', () => {
+      const solver = new DiscreteSolver(createSimpleBoundary(), [], [], { startPoint: { x: 3, y: 4 } }, 1);
+
+      expect(solver.getResult().entrances).toEqual([{ id: 'entrance-0', x: 3, y: 4 }]);
+      expect(solver.getGrid().get(3, 4)).toBe(CELL_CORRIDOR);
+    });
+
+    it('should snap boundary points to the nearest inside cell', () => {
+      const solver = new DiscreteSolver(createSimpleBoundary(), [], [], {
+        entrances: [{ id: 'east', point: { x: 20, y: 7.3 } }, { cell: { x: 0, y: 0 } }],
+      }, 1);
+
+      expect(solver.getResult().entrances).toEqual([
+        { id: 'east', x: 19, y: 7 },
+        { id: 'entrance-1', x: 0, y: 0 },
+      ]);
+    });
+
+    it('should reject entrances outside the boundary or with both forms', () => {
+      expect(() => new DiscreteSolver(createSimpleBoundary(), [], [], { entrances: [{ cell: { x: 25, y: 3 } }] }, 1))
+        .toThrow('Entrance "entrance-0" cell (25, 3) is not inside the boundary');
+      expect(() => new DiscreteSolver(createSimpleBoundary(), [], [], { entrances: [{ id: 'x', cell: { x: 1, y: 1 }, point: { x: 1, y: 1 } }] }, 1))
+        .toThrow('Entrance "x" needs exactly one of cell or point');
+    });
+
+    it('should accept networks that reach different exits and report which reaches which', () => {
+      const rooms = [stripRoom('west-wing', 0), stripRoom('east-wing', 16)];
+      const entrances = [{ id: 'west', cell: { x: 0, y: 19 } }, { id: 'east', cell: { x: 19, y: 19 } }];
+
+      const both = new DiscreteSolver(createSimpleBoundary(), rooms, [], { entrances }, 1);
+      expect(both.validateCorridorNetwork()).toBe(true);
+      expect(both.getResult().corridorComponents).toEqual([
+        { cells: 4, entrances: ['west'], rooms: ['west-wing'] },
+        { cells: 4, entrances: ['east'], rooms: ['east-wing'] },
+      ]);
+
+      const westOnly = new DiscreteSolver(createSimpleBoundary(), rooms, [], { entrances: [entrances[0]] }, 1);
+      expect(westOnly.validateCorridorNetwork()).toBe(false);
+      expect(westOnly.getResult().corridorComponents[1].entrances).toEqual([]);
+    });
+
+    it('should keep every entrance cell when rooms with halos over them are moved', () => {
+      const rooms: RoomRequest[] = Array.from({ length: 8 }, (_, i) => ({
+        id: `r${i}`,
+        targetArea: 9 + (i % 3) * 3,
+        targetRatio: 1.3,
+        corridorRule: CorridorRule.ALL_SIDES,
+      }));
+      const entrances = [{ cell: { x: 0, y: 10 } }, { cell: { x: 19, y: 10 } }];
+
+      for (const seed of [1, 2, 3, 4, 5]) {
+        const solver = new DiscreteSolver(createSimpleBoundary(), rooms, [], { maxIterations: 60, entrances }, seed);
+        solver.solve();
+
+        for (const entrance of solver.getResult().entrances) {
+          expect(solver.getGrid().get(entrance.x, entrance.y)).toBe(CELL_CORRIDOR);
+        }
+      }
+    });
+
+    it('should keep an entrance that starts a corridor when pruning', () => {
+      const room: RoomRequest = { id: 'a', targetArea: 9, targetRatio: 1, fixed: true, placement: { x: 2, y: 9, width: 3, height: 3 } };
+      const solver = new DiscreteSolver(createSimpleBoundary(), [room], [], { entrances: [{ cell: { x: 0, y: 10 } }] }, 1);
+      solver.getGrid().set(1, 10, CELL_CORRIDOR);
+
+      solver.pruneDeadEnds();
+
+      expect(solver.getGrid().get(0, 10)).toBe(CELL_CORRIDOR);
+      expect(solver.getGrid().get(1, 10)).toBe(CELL_CORRIDOR);
+      expect(solver.validateCorridorNetwork()).toBe(true);
+    });
+
+    it('should keep an entrance no room uses when pruning', () => {
+      const entrances = [{ id: 'west', cell: { x: 0, y: 19 } }, { id: 'spare', cell: { x: 10, y: 0 } }];
+      const solver = new DiscreteSolver(createSimpleBoundary(), [stripRoom('west-wing', 0)], [], { maxIterations: 1, entrances }, 1);
+      solver.solve();
+
+      expect(solver.getGrid().get(10, 0)).toBe(CELL_CORRIDOR);
+      expect(solver.getResult().corridorComponents.map(c => c.entrances)).toEqual([['spare'], ['west']]);
+    });
+  });
 });
@@ -1,7 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import { DiscreteSolver } from './DiscreteSolver.js';
 import { Point } from '../grid/GridBuffer.js';
-import { RoomRequest, Adjacency } from '../../types.js';
+import { RoomRequest, Adjacency, CorridorRule } from '../../types.js';
+import { CELL_OUT_OF_BOUNDS } from '../../constants.js';
 
 describe('DiscreteSolver', () => {
   const createSimpleBoundary = (): Point[] => [
@@ -75,6 +76,16 @@ describe('DiscreteSolver', () => {
 
       expect(solver).toBeDefined();
     });
+
+    it('should throw on invalid programs in strict mode', () => {
+      const boundary = createSimpleBoundary();
+      const rooms = createSimpleRooms();
+      const adjacencies: Adjacency[] = [{ a: 'room1', b: 'missing' }];
+
+      expect(() => new DiscreteSolver(boundary, rooms, adjacencies, {}, 1)).not.toThrow();
+      expect(() => new DiscreteSolver(boundary, rooms, adjacencies, { strict: true }, 1))
+        .toThrow(/ADJACENCY_UNKNOWN_ROOM.*"missing"/);
+    });
   });
 
   describe('solve', () => {
@@ -265,4 +276,208 @@ describe('DiscreteSolver', () => {
       });
     });
   });
+
+  describe('snapshot', () => {
+    it('should resume from a JSON snapshot exactly like an uninterrupted run', () => {
+      const boundary = createSimpleBoundary();
+      const rooms = createSimpleRooms();
+      const adjacencies = createSimpleAdjacencies();
+
+      const original = new DiscreteSolver(boundary, rooms, adjacencies, { maxIterations: 10 }, 321);
+      original.solve();
+
+      const json = JSON.stringify(original.toSnapshot());
+      const restored = DiscreteSolver.fromSnapshot(JSON.parse(json));
+
+      expect(restored.getIteration()).toBe(10);
+      expect(Array.from(restored.getGrid().cells)).toEqual(Array.from(original.getGrid().cells));
+
+      const resultOriginal = original.solve();
+      const resultRestored = restored.solve();
+
+      expect(Array.from(resultRestored.cells)).toEqual(Array.from(resultOriginal.cells));
+      expect(restored.getPlacedRooms()).toEqual(original.getPlacedRooms());
+      expect(restored.getIteration()).toBe(20);
+    });
+
+    it('should reject snapshots with an unknown version', () => {
+      const solver = new DiscreteSolver(createSimpleBoundary(), createSimpleRooms(), [], {}, 1);
+      const snapshot = { ...solver.toSnapshot(), version: 999 };
+
+      expect(() => DiscreteSolver.fromSnapshot(snapshot)).toThrow();
+    });
+  });
+
+  describe('run', () => {
+    it('should report maxGenerations after all iterations', () => {
+      const solver = new DiscreteSolver(createSimpleBoundary(), createSimpleRooms(), createSimpleAdjacencies(), { maxIterations: 15 }, 3);
+      const result = solver.run();
+
+      expect(result.stopReason).toBe('maxGenerations');
+      expect(result.generation).toBe(15);
+      expect(solver.getIteration()).toBe(15);
+    });
+
+    it('should stop on stagnation and report progress', () => {
+      const solver = new DiscreteSolver(createSimpleBoundary(), createSimpleRooms(), createSimpleAdjacencies(), { maxIterations: 500 }, 3);
+      let calls = 0;
+
+      const result = solver.run({ stagnationWindow: 5, onProgress: () => calls++ });
+
+      expect(result.stopReason).toBe('stagnation');
+      expect(result.generation).toBeLessThan(500);
+      expect(calls).toBe(result.generation);
+    });
+
+    it('should stop once the target score is reached', () => {
+      const solver = new DiscreteSolver(createSimpleBoundary(), createSimpleRooms(), createSimpleAdjacencies(), { maxIterations: 50 }, 3);
+      const result = solver.run({ targetFitness: -Infinity });
+
+      expect(result.stopReason).toBe('targetFitness');
+      expect(result.generation).toBe(1);
+    });
+  });
+
+  describe('fixed rooms and obstacles', () => {
+    it('should stamp fixed rooms at their placement and never move them', () => {
+      const rooms: RoomRequest[] = [
+        ...createSimpleRooms(),
+        { id: 'stair', targetArea: 9, targetRatio: 1, fixed: true, placement: { x: 1, y: 1, width: 3, height: 3 } },
+      ];
+
+      const solver = new DiscreteSolver(createSimpleBoundary(), rooms, createSimpleAdjacencies(), { maxIterations: 30, mutationRate: 1 }, 7);
+      expect(solver.getPlacedRooms().get('stair')).toMatchObject({ x: 1, y: 1, width: 3, height: 3 });
+
+      const grid = solver.solve();
+      const stairIndex = solver.getPlacedRooms().get('stair')!.roomIndex;
+
+      for (let y = 1; y < 4; y++) {
+        for (let x = 1; x < 4; x++) {
+          expect(grid.get(x, y)).toBe(stairIndex);
+        }
+      }
+      expect(solver.getPlacedRooms().get('stair')).toMatchObject({ x: 1, y: 1, width: 3, height: 3 });
+    });
+
+    it('should reject a fixed room without a placement', () => {
+      const rooms: RoomRequest[] = [{ id: 'shaft', targetArea: 4, targetRatio: 1, fixed: true }];
+
+      expect(() => new DiscreteSolver(createSimpleBoundary(), rooms, [])).toThrow('has no placement');
+    });
+
+    it('should reject fixed placements outside the boundary, on obstacles or on each other', () => {
+      const fixed = (id: string, x: number, y: number): RoomRequest =>
+        ({ id, targetArea: 9, targetRatio: 1, fixed: true, placement: { x, y, width: 3, height: 3 } });
+      const obstacle = [{ x: 5, y: 5 }, { x: 7, y: 5 }, { x: 7, y: 7 }, { x: 5, y: 7 }];
+
+      expect(() => new DiscreteSolver(createSimpleBoundary(), [fixed('a', 18, 0)], []))
+        .toThrow('Fixed room "a" placement cell (20, 0) is outside the boundary or on an obstacle');
+      expect(() => new DiscreteSolver(createSimpleBoundary(), [fixed('a', 4, 4)], [], { obstacles: [obstacle] }))
+        .toThrow('Fixed room "a" placement cell (5, 5) is outside the boundary or on an obstacle');
+      expect(() => new DiscreteSolver(createSimpleBoundary(), [fixed('a', 0, 0), fixed('b', 2, 2)], []))
+        .toThrow('Fixed room "b" placement overlaps fixed room "a" at (2, 2)');
+    });
+
+    it('should keep rooms off obstacle cells', () => {
+      const obstacle = [
+        { x: 12, y: 12 },
+        { x: 16, y: 12 },
+        { x: 16, y: 16 },
+        { x: 12, y: 16 },
+      ];
+
+      const solver = new DiscreteSolver(createSimpleBoundary(), createSimpleRooms(), createSimpleAdjacencies(), { maxIterations: 30, obstacles: [obstacle] }, 8);
+      const grid = solver.solve();
+
+      for (let y = 12; y < 16; y++) {
+        for (let x = 12; x < 16; x++) {
+          expect(grid.get(x, y)).toBe(CELL_OUT_OF_BOUNDS);
+        }
+      }
+    });
+  });
+
+  describe('getResult', () => {
+    const rect = (x: number, y: number, width: number, height: number): Point[] => [
+      { x, y },
+      { x: x + width, y },
+      { x: x + width, y: y + height },
+      { x, y: y + height },
+    ];
+
+    it('should report areas and a score breakdown that adds up', () => {
+      const solver = new DiscreteSolver(createSimpleBoundary(), createSimpleRooms(), createSimpleAdjacencies(), { maxIterations: 20 }, 11);
+      solver.solve();
+      const result = solver.getResult();
+
+      expect(result.placedRooms).toHaveLength(3);
+      expect(result.unplacedRooms).toEqual([]);
+      expect(result.areas.map(a => a.id)).toEqual(['room1', 'room2', 'room3']);
+      for (const area of result.areas) {
+        expect(area.actualArea).toBeGreaterThanOrEqual(area.targetArea); // Sizes are rounded up to whole cells
+        expect(area.deviation).toBeCloseTo(area.actualArea / area.targetArea - 1);
+      }
+      expect(result.score.placement).toBe(300);
+      expect(result.score.total).toBeCloseTo(result.score.placement + result.score.adjacency + result.score.corridor);
+      expect(typeof result.corridorConnected).toBe('boolean');
+    });
+
+    it('should report satisfied adjacencies by shared wall', () => {
+      const rooms: RoomRequest[] = [
+        { id: 'a', targetArea: 16, targetRatio: 1, fixed: true, placement: { x: 0, y: 0, width: 4, height: 4 } },
+        { id: 'b', targetArea: 8, targetRatio: 2, fixed: true, placement: { x: 4, y: 1, width: 2, height: 4 } },
+        { id: 'c', targetArea: 4, targetRatio: 1, fixed: true, placement: { x: 15, y: 15, width: 2, height: 2 } },
+      ];
+      const solver = new DiscreteSolver(createSimpleBoundary(), rooms, [{ a: 'a', b: 'b', weight: 2 }, { a: 'a', b: 'c' }], { maxIterations: 1, gridResolution: 1 }, 1);
+      solver.solve();
+
+      expect(solver.getResult().adjacencies).toEqual([
+        { a: 'a', b: 'b', weight: 2, satisfied: true, sharedWallLength: 3 },
+        { a: 'a', b: 'c', weight: 1, satisfied: false, sharedWallLength: 0 },
+      ]);
+    });
+
+    it('should explain rooms that do not fit the boundary', () => {
+      const rooms: RoomRequest[] = [
+        ...createSimpleRooms(),
+        { id: 'ballroom', targetArea: 500, targetRatio: 1 },
+      ];
+      const solver = new DiscreteSolver(createSimpleBoundary(), rooms, [], { maxIterations: 5 }, 2);
+      solver.solve();
+
+      expect(solver.getResult().unplacedRooms).toEqual([{ id: 'ballroom', reason: 'out-of-bounds' }]);
+    });
+
+    it('should explain rooms blocked by other rooms', () => {
+      const rooms: RoomRequest[] = [
+        { id: 'big', targetArea: 64, targetRatio: 1, fixed: true, placement: { x: 1, y: 1, width: 8, height: 8 } },
+        { id: 'other', targetArea: 64, targetRatio: 1 },
+      ];
+      const solver = new DiscreteSolver(rect(0, 0, 10, 10), rooms, [], { maxIterations: 5 }, 2);
+      solver.solve();
+
+      expect(solver.getResult().unplacedRooms).toEqual([{ id: 'other', reason: 'no-space' }]);
+    });
+
+    it('should tell rooms that only missed at the sampled proportions from a full grid', () => {
+      // Only the 8 × 2 extreme fits beside the entrance; the sampled ratios of this seed all come out taller
+      const rooms: RoomRequest[] = [{ id: 'strip', targetArea: 16, targetRatio: 4 }];
+      const solver = new DiscreteSolver(rect(0, 0, 9, 2), rooms, [], { maxIterations: 5, startPoint: { x: 8, y: 1 } }, 2);
+      solver.solve();
+
+      expect(solver.getResult().unplacedRooms).toEqual([{ id: 'strip', reason: 'no-fit-at-sampled-ratio' }]);
+    });
+
+    it('should explain rooms whose corridors cannot reach the network', () => {
+      // Wall the entrance cell (15, 5) in with obstacles
+      const obstacles = [rect(13, 3, 2, 5), rect(16, 3, 2, 5), rect(15, 3, 1, 2), rect(15, 6, 1, 2)];
+      const rooms: RoomRequest[] = [
+        { id: 'office', targetArea: 4, targetRatio: 1, corridorRule: CorridorRule.ONE_SIDE },
+      ];
+      const solver = new DiscreteSolver(rect(0, 0, 30, 10), rooms, [], { maxIterations: 5, obstacles }, 2);
+      solver.solve();
+
+      expect(solver.getResult().unplacedRooms).toEqual([{ id: 'office', reason: 'no-corridor-connectivity' }]);
+    });
+  });
 });
@@ -1,16 +1,125 @@
 import { GridBuffer, Point } from '../grid/GridBuffer.js';
+import { CorridorRouter, RouteTarget } from '../grid/CorridorRouter.js';
+import { CorridorStamp, resolveCorridorStamps } from '../grid/corridorSpec.js';
+import { Polygon, PolygonLike } from '../geometry/Polygon.js';
 import { Random } from '../../utils/Random.js';
-import { DiscreteConfig, RoomRequest, Adjacency } from '../../types.js';
-import { CELL_EMPTY, CELL_CORRIDOR, CELL_OUT_OF_BOUNDS, DEFAULT_GRID_RESOLUTION, DEFAULT_MAX_ITERATIONS, DEFAULT_MUTATION_RATE } from '../../constants.js';
-
-interface PlacedRoom {
+import { RunMonitor } from '../../utils/RunMonitor.js';
+import { DiscreteConfig, Entrance, RoomRequest, Adjacency, RunOptions, RunResult, StopReason } from '../../types.js';
+import { Vec2 } from '../geometry/Vector2.js';
+import { assertValidProgram } from '../validation/validateProgram.js';
+import { CELL_EMPTY, CELL_CORRIDOR, CELL_OUT_OF_BOUNDS, DEFAULT_GRID_RESOLUTION, DEFAULT_MAX_ITERATIONS, DEFAULT_MUTATION_RATE, SNAPSHOT_VERSION } from '../../constants.js';
+
+// Circulation objective (scaled by weights.corridor): reward per room with corridor access,
+// cost per corridor cell and per dead-end cell of the network
+const CORRIDOR_ACCESS_REWARD = 10;
+const CORRIDOR_CELL_PENALTY = 0.2;
+const DEAD_END_PENALTY = 1;
+// Unscaled: a piece of network no entrance reaches costs as much as an unplaced room
+const STRANDED_CORRIDOR_PENALTY = 100;
+
+export interface PlacedRoom {
   id: string;
   x: number;
   y: number;
   width: number;
   height: number;
   roomIndex: number;
-  corridorRule?: number;
+  corridor?: CorridorStamp; // Strips placed with the room, in the orientation chosen
+}
+
+/**
+ * Plain JSON representation of a GridBuffer
+ */
+export interface GridSnapshot {
+  width: number;
+  height: number;
+  cells: number[];
+}
+
+/**
+ * Plain JSON checkpoint of a DiscreteSolver run (see toSnapshot / fromSnapshot).
+ * bestScore is null while no layout has been scored yet (-Infinity is not valid JSON).
+ */
+export interface DiscreteSolverSnapshot {
+  version: number;
+  boundary: PolygonLike;
+  rooms: RoomRequest[];
+  adjacencies: Adjacency[];
+  config: DiscreteConfig;
+  rngState: number;
+  iteration: number;
+  grid: GridSnapshot;
+  placedRooms: PlacedRoom[];
+  bestGrid: GridSnapshot | null;
+  bestScore: number | null;
+}
+
+export type UnplacedReason =
+  | 'out-of-bounds'             // No position keeps the room and its corridors inside the boundary
+  | 'no-space'                  // Fits the boundary, but every position collides with placed rooms or corridors
+  | 'no-corridor-connectivity'  // Free positions exist, but none connects its corridors to the network
+  | 'no-fit-at-sampled-ratio';  // Placeable now at a probed shape, just not at the proportions the solver sampled
+
+export interface RoomAreaReport {
+  id: string;
+  targetArea: number;
+  actualArea: number; // Placed cells × gridResolution²
+  deviation: number;  // actualArea / targetArea - 1
+}
+
+export interface AdjacencyReport {
+  a: string;
+  b: string;
+  weight: number;
+  satisfied: boolean;       // Both rooms placed and sharing a wall
+  sharedWallLength: number; // In boundary units
+}
+
+/**
+ * Entrance resolved to its grid cell
+ */
+export interface EntranceCell {
+  id: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * One 4-connected piece of the corridor network
+ */
+export interface CorridorComponent {
+  cells: number;       // Corridor cells in the piece
+  entrances: string[]; // Entrances it reaches; empty if it is cut off from every exit
+  rooms: string[];     // Placed rooms with a wall on it
+}
+
+/**
+ * Terms of the global score (higher is better); total is their sum
+ */
+export interface ScoreBreakdown {
+  placement: number; // 100 per placed room
+  adjacency: number; // Minus weighted centre distances of required adjacencies
+  corridor: number;  // Rooms touching corridors, minus corridor cells and dead ends (× weights.corridor),
+                     // minus a fixed penalty per network piece no entrance reaches
+  total: number;
+}
+
+/**
+ * Structured report of a solved layout (see getResult)
+ */
+export interface SolveResult {
+  grid: GridBuffer;
+  placedRooms: PlacedRoom[];
+  unplacedRooms: { id: string; reason: UnplacedReason }[];
+  areas: RoomAreaReport[];
+  adjacencies: AdjacencyReport[];
+  corridorConnected: boolean; // validateCorridorNetwork() on the final grid
+  corridorArea: number;       // Corridor cells × gridResolution²
+  corridorShare: number;      // Corridor cells / usable (in-bounds) cells
+  entrances: EntranceCell[];
+  corridorComponents: CorridorComponent[]; // Which pieces of the network reach which exit
+  unreachableRooms: string[];              // Placed rooms needing corridor access that no entrance's network touches
+  score: ScoreBreakdown;
 }
 
 interface RoomFootprint {
@@ -28,14 +137,18 @@ interface PlacementCandidate {
   y: number;
   width: number;
   height: number;
+  corridor: CorridorStamp;
   score: number;
 }
 
+const NO_CORRIDOR: CorridorStamp = { sides: [], width: 1 };
+
 /**
  * Discrete solver for topological optimization using evolutionary strategy.
  * Places rooms on a grid using mutation and scoring.
  */
 export class DiscreteSolver {
+  private boundary: PolygonLike;
   private grid: GridBuffer;
   private rooms: RoomRequest[];
   private adjacencies: Adjacency[];
@@ -43,16 +156,26 @@ export class DiscreteSolver {
   private rng: Random;
   private roomIndexMap: Map<string, number>;
   private placedRooms: Map<string, PlacedRoom>;
+  private fixedRoomIds: Set<string>; // Rooms stamped at construction that mutation never removes
+  private corridorStamps: Map<string, CorridorStamp[]>; // Per room: corridor orientations to try, requested one first
+  private entrances: EntranceCell[];
+  private entranceIndices: Set<number>; // Grid indices of the entrance cells
   private bestGrid: GridBuffer | null = null;
   private bestScore: number = -Infinity;
+  private iteration: number = 0; // Total evolutionary iterations run so far
 
   constructor(
-    boundary: Point[],
+    boundary: PolygonLike,
     rooms: RoomRequest[],
     adjacencies: Adjacency[],
     config: Partial<DiscreteConfig> = {},
     seed: number = Date.now()
   ) {
+    if (config.strict) {
+      assertValidProgram(boundary, rooms, adjacencies);
+    }
+
+    this.boundary = boundary;
     this.rooms = [...rooms];
     this.adjacencies = adjacencies;
     this.rng = new Random(seed);
@@ -62,6 +185,12 @@ export class DiscreteSolver {
       gridResolution: config.gridResolution ?? DEFAULT_GRID_RESOLUTION,
       maxIterations: config.maxIterations ?? DEFAULT_MAX_ITERATIONS,
       mutationRate: config.mutationRate ?? DEFAULT_MUTATION_RATE,
+      startPoint: config.startPoint,
+      entrances: config.entrances,
+      obstacles: config.obstacles,
+      strict: config.strict,
+      corridorMode: config.corridorMode ?? 'stamp',
+      corridorWidth: config.corridorWidth ?? 1,
       weights: {
         compactness: config.weights?.compactness ?? 2.0,
         adjacency: config.weights?.adjacency ?? 3.0,
@@ -69,19 +198,21 @@ export class DiscreteSolver {
       },
     };
 
-    // Calculate grid dimensions from boundary
-    const { width, height } = this.calculateGridDimensions(boundary);
+    // Calculate grid dimensions from boundary (holes become out-of-bounds cells)
+    const { width, height } = this.calculateGridDimensions(Polygon.outerRing(boundary));
     this.grid = new GridBuffer(width, height);
-    this.grid.rasterizePolygon(boundary);
+    this.grid.rasterizePolygon(Polygon.outerRing(boundary), Polygon.holes(boundary));
+
+    // Static obstacles are unusable cells, just like the outside of the boundary
+    for (const obstacle of this.config.obstacles ?? []) {
+      this.grid.fillPolygon(obstacle, CELL_OUT_OF_BOUNDS);
+    }
 
-    // Initialize start point (entrance) for corridor network
-    if (this.config.startPoint) {
-      this.grid.set(this.config.startPoint.x, this.config.startPoint.y, CELL_CORRIDOR);
-    } else {
-      // Default: place start point at center of grid if not specified
-      const startX = Math.floor(width / 2);
-      const startY = Math.floor(height / 2);
-      this.grid.set(startX, startY, CELL_CORRIDOR);
+    // Entrances seed the corridor network
+    this.entrances = this.resolveEntrances();
+    this.entranceIndices = new Set(this.entrances.map(e => this.grid.index(e.x, e.y)));
+    for (const entrance of this.entrances) {
+      this.grid.set(entrance.x, entrance.y, CELL_CORRIDOR);
     }
 
     // Create room index map (1-based indexing for grid cells)
@@ -91,6 +222,49 @@ export class DiscreteSolver {
     });
 
     this.placedRooms = new Map();
+
+    this.corridorStamps = new Map(
+      this.rooms.map(room => [room.id, resolveCorridorStamps(room, this.config.gridResolution)])
+    );
+
+    // Stamp locked rooms once; they take part in scoring but are never moved
+    this.fixedRoomIds = new Set();
+    for (const room of this.rooms) {
+      if (!room.fixed) continue;
+
+      if (!room.placement) {
+        throw new Error(`Fixed room "${room.id}" has no placement`);
+      }
+
+      const { x, y, width: w, height: h } = room.placement;
+      this.assertFixedPlacementFree(room);
+      this.placeRoom(room, x, y, w, h, this.corridorOptions(room)[0]);
+      this.fixedRoomIds.add(room.id);
+    }
+  }
+
+  /**
+   * Throw if a fixed room's placement leaves the boundary, lies on an obstacle, or covers
+   * an entrance or another fixed room
+   */
+  private assertFixedPlacementFree(room: RoomRequest): void {
+    const { x, y, width, height } = room.placement!;
+
+    for (let dy = 0; dy < height; dy++) {
+      for (let dx = 0; dx < width; dx++) {
+        const value = this.grid.get(x + dx, y + dy);
+        if (value === CELL_EMPTY) continue;
+
+        const cell = `(${x + dx}, ${y + dy})`;
+        if (value === CELL_OUT_OF_BOUNDS) {
+          throw new Error(`Fixed room "${room.id}" placement cell ${cell} is outside the boundary or on an obstacle`);
+        }
+        if (value === CELL_CORRIDOR) {
+          throw new Error(`Fixed room "${room.id}" placement covers the corridor at ${cell}`);
+        }
+        throw new Error(`Fixed room "${room.id}" placement overlaps fixed room "${this.rooms[value - 1].id}" at ${cell}`);
+      }
+    }
   }
 
   /**
@@ -115,64 +289,82 @@ export class DiscreteSolver {
     return { width, height };
   }
 
+  /**
+   * Grid cells the corridor network grows from: config.entrances, else startPoint, else the
+   * inside cell nearest the grid centre. Boundary points snap to the nearest inside cell
+   * that no fixed room covers; cells must lie inside the boundary.
+   */
+  private resolveEntrances(): EntranceCell[] {
+    const centre = { x: Math.floor(this.grid.width / 2) + 0.5, y: Math.floor(this.grid.height / 2) + 0.5 };
+    const entrances: Entrance[] = this.config.entrances?.length
+      ? this.config.entrances
+      : [this.config.startPoint ? { cell: this.config.startPoint } : { point: centre }];
+
+    return entrances.map((entrance, i) => {
+      const id = entrance.id ?? `entrance-${i}`;
+      if ((entrance.cell === undefined) === (entrance.point === undefined)) {
+        throw new Error(`Entrance "${id}" needs exactly one of cell or point`);
+      }
+
+      const cell = entrance.cell ?? this.snapToInsideCell(entrance.point!);
+      if (!cell || this.grid.get(cell.x, cell.y) === CELL_OUT_OF_BOUNDS) {
+        const where = entrance.cell ? `cell (${entrance.cell.x}, ${entrance.cell.y})` : 'point';
+        throw new Error(`Entrance "${id}" ${where} is not inside the boundary`);
+      }
+
+      return { id, x: cell.x, y: cell.y };
+    });
+  }
+
+  /**
+   * Usable cell whose centre is closest to a point in boundary units (the grid's frame),
+   * skipping cells that fixed rooms will cover
+   */
+  private snapToInsideCell(point: Vec2): Point | null {
+    const placements = this.rooms.filter(r => r.fixed && r.placement).map(r => r.placement!);
+    let best: Point | null = null;
+    let bestDistance = Infinity;
+
+    for (let y = 0; y < this.grid.height; y++) {
+      for (let x = 0; x < this.grid.width; x++) {
+        if (this.grid.get(x, y) === CELL_OUT_OF_BOUNDS) continue;
+        if (placements.some(p => x >= p.x && x < p.x + p.width && y >= p.y && y < p.y + p.height)) continue;
+
+        const distance = (x + 0.5 - point.x) ** 2 + (y + 0.5 - point.y) ** 2;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = { x, y };
+        }
+      }
+    }
+
+    return best;
+  }
+
   /**
    * Calculate the effective footprint of a room including its corridor stamp.
    * Returns the core dimensions, effective dimensions, offsets, and corridor cell positions.
+   * Each side carries a strip `corridor.width` cells deep; two adjacent sides also fill the
+   * corner block between them. In 'route' mode rooms carry no stamp; the router adds their corridors.
    */
-  private getRoomFootprint(x: number, y: number, width: number, height: number, rule: number = 0): RoomFootprint {
-    let effectiveWidth = width;
-    let effectiveHeight = height;
-    let offsetX = 0;
-    let offsetY = 0;
+  private getRoomFootprint(x: number, y: number, width: number, height: number, corridor: CorridorStamp = NO_CORRIDOR): RoomFootprint {
+    const sides = new Set(this.config.corridorMode === 'route' ? [] : corridor.sides);
+    const depth = corridor.width;
+    const offsetX = sides.has('left') ? -depth : 0;
+    const offsetY = sides.has('top') ? -depth : 0;
+    const effectiveWidth = width - offsetX + (sides.has('right') ? depth : 0);
+    const effectiveHeight = height - offsetY + (sides.has('bottom') ? depth : 0);
     const corridorCells: Point[] = [];
 
-    if (rule === 1) {
-      // CorridorRule.ONE_SIDE: Bottom strip
-      effectiveHeight = height + 1;
-      const bottomY = y + height;
-      for (let dx = 0; dx < width; dx++) {
-        corridorCells.push({ x: x + dx, y: bottomY });
-      }
-    } else if (rule === 2) {
-      // CorridorRule.TWO_SIDES: Bottom + Right (L-shape)
-      effectiveWidth = width + 1;
-      effectiveHeight = height + 1;
-      // Bottom strip
-      const bottomY = y + height;
-      for (let dx = 0; dx <= width; dx++) {
-        corridorCells.push({ x: x + dx, y: bottomY });
-      }
-      // Right strip (excluding corner already added)
-      const rightX = x + width;
-      for (let dy = 0; dy < height; dy++) {
-        corridorCells.push({ x: rightX, y: y + dy });
-      }
-    } else if (rule >= 3) {
-      // CorridorRule.ALL_SIDES: Halo around room
-      effectiveWidth = width + 2;
-      effectiveHeight = height + 2;
-      offsetX = -1;
-      offsetY = -1;
-
-      // Top strip
-      const topY = y - 1;
-      for (let dx = -1; dx <= width; dx++) {
-        corridorCells.push({ x: x + dx, y: topY });
-      }
-      // Bottom strip
-      const bottomY = y + height;
-      for (let dx = -1; dx <= width; dx++) {
-        corridorCells.push({ x: x + dx, y: bottomY });
-      }
-      // Left strip (excluding corners)
-      const leftX = x - 1;
-      for (let dy = 0; dy < height; dy++) {
-        corridorCells.push({ x: leftX, y: y + dy });
-      }
-      // Right strip (excluding corners)
-      const rightX = x + width;
-      for (let dy = 0; dy < height; dy++) {
-        corridorCells.push({ x: rightX, y: y + dy });
+    for (let cy = y + offsetY; cy < y + offsetY + effectiveHeight; cy++) {
+      const bandY = cy < y ? 'top' : cy >= y + height ? 'bottom' : null;
+      for (let cx = x + offsetX; cx < x + offsetX + effectiveWidth; cx++) {
+        const bandX = cx < x ? 'left' : cx >= x + width ? 'right' : null;
+        if (!bandX && !bandY) continue; // Room core
+
+        // Corner blocks need both sides; strips only their own
+        const inStrip = bandX && bandY ? sides.has(bandX) && sides.has(bandY) : sides.has((bandX ?? bandY)!);
+        if (inStrip) corridorCells.push({ x: cx, y: cy });
       }
     }
 
@@ -188,7 +380,18 @@ export class DiscreteSolver {
   }
 
   /**
-   * Check if any corridor cell from the footprint touches an existing corridor network.
+   * Corridor orientations to try for a room. Routed corridors ignore the stamp,
+   * so turning it would only repeat the same placements.
+   */
+  private corridorOptions(room: RoomRequest): CorridorStamp[] {
+    const stamps = this.corridorStamps.get(room.id) ?? [NO_CORRIDOR];
+    return this.config.corridorMode === 'route' ? stamps.slice(0, 1) : stamps;
+  }
+
+  /**
+   * Check if any corridor cell from the footprint touches, or lies on, the existing corridor
+   * network. The network grows from every entrance, so a strip laid over an entrance cell
+   * (e.g. one on the boundary with no inside neighbours yet) connects to that exit.
    * This is the "magnetizing" constraint that ensures a connected corridor system.
    */
   private checkConnectivity(corridorCells: Point[]): boolean {
@@ -197,9 +400,10 @@ export class DiscreteSolver {
       return true;
     }
 
-    // Check if any corridor cell neighbors an existing CELL_CORRIDOR
+    // Check if any corridor cell is on or neighbors an existing CELL_CORRIDOR
     for (const cell of corridorCells) {
       const neighbors = [
+        cell,
         { x: cell.x + 1, y: cell.y },
         { x: cell.x - 1, y: cell.y },
         { x: cell.x, y: cell.y + 1 },
@@ -217,6 +421,48 @@ export class DiscreteSolver {
     return false;
   }
 
+  /**
+   * Label the 4-connected corridor components: labels[i] is the component of cell i, or -1
+   */
+  private labelCorridors(): { labels: Int32Array; count: number } {
+    const labels = new Int32Array(this.grid.cells.length).fill(-1);
+    let count = 0;
+
+    for (let start = 0; start < labels.length; start++) {
+      if (this.grid.cells[start] !== CELL_CORRIDOR || labels[start] >= 0) continue;
+
+      labels[start] = count;
+      const stack = [start];
+      while (stack.length > 0) {
+        const index = stack.pop()!;
+        const x = index % this.grid.width;
+        const y = (index - x) / this.grid.width;
+
+        for (const [nx, ny] of [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]]) {
+          if (this.grid.get(nx, ny) !== CELL_CORRIDOR) continue;
+          const next = this.grid.index(nx, ny);
+          if (labels[next] >= 0) continue;
+          labels[next] = count;
+          stack.push(next);
+        }
+      }
+      count++;
+    }
+
+    return { labels, count };
+  }
+
+  /**
+   * Component labels of the corridor pieces that contain an entrance
+   */
+  private entranceComponents(labels: Int32Array): Set<number> {
+    const components = new Set<number>();
+    for (const index of this.entranceIndices) {
+      if (labels[index] >= 0) components.add(labels[index]);
+    }
+    return components;
+  }
+
   /**
    * Sort rooms by connectivity degree (most connected first)
    */
@@ -240,9 +486,9 @@ export class DiscreteSolver {
    * Check if a room with corridor footprint can be placed at position (x, y).
    * Checks both space availability AND corridor connectivity (the "magnetizing" constraint).
    */
-  private canPlaceRoom(x: number, y: number, width: number, height: number, corridorRule: number = 0): boolean {
+  private canPlaceRoom(x: number, y: number, width: number, height: number, corridor: CorridorStamp = NO_CORRIDOR): boolean {
     // Get the complete footprint including corridors
-    const footprint = this.getRoomFootprint(x, y, width, height, corridorRule);
+    const footprint = this.getRoomFootprint(x, y, width, height, corridor);
 
     // Check if the core room area is empty
     for (let dy = 0; dy < height; dy++) {
@@ -302,6 +548,33 @@ export class DiscreteSolver {
     return touchCount;
   }
 
+  /**
+   * Count room edges that touch an existing corridor cell
+   */
+  private calculateCorridorContact(x: number, y: number, width: number, height: number): number {
+    let contact = 0;
+
+    for (let dx = 0; dx < width; dx++) {
+      if (this.grid.get(x + dx, y - 1) === CELL_CORRIDOR) contact++;
+      if (this.grid.get(x + dx, y + height) === CELL_CORRIDOR) contact++;
+    }
+
+    for (let dy = 0; dy < height; dy++) {
+      if (this.grid.get(x - 1, y + dy) === CELL_CORRIDOR) contact++;
+      if (this.grid.get(x + width, y + dy) === CELL_CORRIDOR) contact++;
+    }
+
+    return contact;
+  }
+
+  /**
+   * Count corridor cells a placement would add (footprint cells not yet corridor)
+   */
+  private countNewCorridorCells(x: number, y: number, width: number, height: number, corridor: CorridorStamp): number {
+    const footprint = this.getRoomFootprint(x, y, width, height, corridor);
+    return footprint.corridorCells.filter(cell => this.grid.get(cell.x, cell.y) !== CELL_CORRIDOR).length;
+  }
+
   /**
    * Calculate adjacency score (distance to required neighbors)
    */
@@ -335,11 +608,12 @@ export class DiscreteSolver {
 
   /**
    * Place a room on the grid using the "stamp" strategy.
-   * This stamps the room core AND its corridor footprint as a single atomic operation.
+   * This stamps the room core AND its corridor footprint (in the given orientation) as a single atomic operation.
+   * In 'route' mode a room the router cannot reach is taken off again and false is returned;
+   * fixed rooms stay where they are and show up in SolveResult.unreachableRooms.
    */
-  private placeRoom(room: RoomRequest, x: number, y: number, width: number, height: number): void {
+  private placeRoom(room: RoomRequest, x: number, y: number, width: number, height: number, corridor: CorridorStamp): boolean {
     const roomIndex = this.roomIndexMap.get(room.id) || 0;
-    const corridorRule = room.corridorRule || 0;
 
     // Place room core
     for (let dy = 0; dy < height; dy++) {
@@ -349,9 +623,12 @@ export class DiscreteSolver {
     }
 
     // Stamp corridors (atomic with room placement)
-    const footprint = this.getRoomFootprint(x, y, width, height, corridorRule);
+    // Free cells only: a fixed room's strips are not checked and must not cover the outside or other rooms
+    const footprint = this.getRoomFootprint(x, y, width, height, corridor);
     for (const cell of footprint.corridorCells) {
-      this.grid.set(cell.x, cell.y, CELL_CORRIDOR);
+      if (this.grid.get(cell.x, cell.y) === CELL_EMPTY) {
+        this.grid.set(cell.x, cell.y, CELL_CORRIDOR);
+      }
     }
 
     this.placedRooms.set(room.id, {
@@ -361,8 +638,42 @@ export class DiscreteSolver {
       width,
       height,
       roomIndex,
-      corridorRule,
+      corridor,
     });
+
+    // Routed corridors: link the new room to the network right away, so later rooms keep clear of it
+    if (this.config.corridorMode === 'route' && corridor.sides.length > 0) {
+      const connected = new CorridorRouter(this.grid, this.config.corridorWidth).connect({ id: room.id, x, y, width, height });
+      // Fixed rooms cannot go anywhere else, so they stay even when cut off
+      if (!connected && !room.fixed) {
+        this.removeRoom(room.id);
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Rebuild the routed corridor network from scratch: clear every corridor cell, then
+   * connect the entrance to all placed rooms that need access, nearest first.
+   * Drops the stale branches of removed rooms; rooms that can no longer be reached are
+   * taken off so the re-placement step tries them elsewhere.
+   */
+  private rerouteCorridors(): void {
+    for (let i = 0; i < this.grid.cells.length; i++) {
+      if (this.grid.cells[i] === CELL_CORRIDOR) this.grid.cells[i] = CELL_EMPTY;
+    }
+
+    for (const entrance of this.entrances) {
+      this.grid.set(entrance.x, entrance.y, CELL_CORRIDOR);
+    }
+
+    const targets = Array.from(this.placedRooms.values()).filter(room => (room.corridor?.sides.length ?? 0) > 0);
+    const { unreachable } = new CorridorRouter(this.grid, this.config.corridorWidth).route(targets);
+    for (const roomId of unreachable) {
+      this.removeRoom(roomId);
+    }
   }
 
   /**
@@ -370,7 +681,7 @@ export class DiscreteSolver {
    */
   private removeRoom(roomId: string): void {
     const room = this.placedRooms.get(roomId);
-    if (!room) return;
+    if (!room || this.fixedRoomIds.has(roomId)) return;
 
     // Clear room core
     for (let dy = 0; dy < room.height; dy++) {
@@ -379,22 +690,29 @@ export class DiscreteSolver {
       }
     }
 
-    // Clear corridor footprint
-    if (room.corridorRule) {
-      const footprint = this.getRoomFootprint(room.x, room.y, room.width, room.height, room.corridorRule);
+    this.placedRooms.delete(roomId);
+
+    // Clear corridor footprint, keeping entrances and cells the remaining rooms' strips still cover
+    if (room.corridor) {
+      const shared = new Set<number>(this.entranceIndices);
+      for (const other of this.placedRooms.values()) {
+        if (!other.corridor) continue;
+        for (const cell of this.getRoomFootprint(other.x, other.y, other.width, other.height, other.corridor).corridorCells) {
+          shared.add(this.grid.index(cell.x, cell.y));
+        }
+      }
+
+      const footprint = this.getRoomFootprint(room.x, room.y, room.width, room.height, room.corridor);
       for (const cell of footprint.corridorCells) {
-        // Only clear if it's actually a corridor (could be shared by another room)
-        if (this.grid.get(cell.x, cell.y) === CELL_CORRIDOR) {
+        if (this.grid.get(cell.x, cell.y) === CELL_CORRIDOR && !shared.has(this.grid.index(cell.x, cell.y))) {
           this.grid.set(cell.x, cell.y, CELL_EMPTY);
         }
       }
     }
-
-    this.placedRooms.delete(roomId);
   }
 
   /**
-   * Find best placement for a room
+   * Find best placement for a room, trying each allowed corridor orientation at every position
    */
   private findBestPlacement(room: RoomRequest): PlacementCandidate | null {
     // Calculate target dimensions using targetRatio
@@ -404,32 +722,38 @@ export class DiscreteSolver {
     const ratio = this.rng.nextFloat(minRatio, maxRatio);
     const width = Math.ceil(Math.sqrt(room.targetArea / ratio) / this.config.gridResolution);
     const height = Math.ceil((room.targetArea / (width * this.config.gridResolution)) / this.config.gridResolution);
-    const corridorRule = room.corridorRule || 0;
+    const corridors = this.corridorOptions(room);
 
     let bestCandidate: PlacementCandidate | null = null;
     let bestScore = -Infinity;
 
     // Scan all grid positions
-    for (let y = 0; y < this.grid.height - height; y++) {
-      for (let x = 0; x < this.grid.width - width; x++) {
-        // Check if room can be placed (includes connectivity check)
-        if (!this.canPlaceRoom(x, y, width, height, corridorRule)) {
-          continue;
-        }
+    for (let y = 0; y <= this.grid.height - height; y++) {
+      for (let x = 0; x <= this.grid.width - width; x++) {
+        for (const corridor of corridors) {
+          // Check if room can be placed (includes connectivity check)
+          if (!this.canPlaceRoom(x, y, width, height, corridor)) {
+            continue;
+          }
 
-        const cx = x + width / 2;
-        const cy = y + height / 2;
+          const cx = x + width / 2;
+          const cy = y + height / 2;
 
-        const compactness = this.calculateCompactness(x, y, width, height);
-        const adjacencyDist = this.calculateAdjacencyScore(room.id, cx, cy);
+          const compactness = this.calculateCompactness(x, y, width, height);
+          const adjacencyDist = this.calculateAdjacencyScore(room.id, cx, cy);
+          const corridorContact = this.calculateCorridorContact(x, y, width, height);
+          const newCorridorCells = this.countNewCorridorCells(x, y, width, height, corridor);
 
-        const score =
-          compactness * this.config.weights.compactness -
-          adjacencyDist * this.config.weights.adjacency;
+          // Corridor term: prefer joining the existing network over stamping fresh corridor
+          const score =
+            compactness * this.config.weights.compactness -
+            adjacencyDist * this.config.weights.adjacency +
+            (corridorContact - newCorridorCells) * this.config.weights.corridor;
 
-        if (score > bestScore) {
-          bestScore = score;
-          bestCandidate = { x, y, width, height, score };
+          if (score > bestScore) {
+            bestScore = score;
+            bestCandidate = { x, y, width, height, corridor, score };
+          }
         }
       }
     }
@@ -441,12 +765,18 @@ export class DiscreteSolver {
    * Calculate global score of current layout
    */
   private calculateGlobalScore(): number {
-    let score = 0;
+    return this.calculateScoreBreakdown().total;
+  }
 
+  /**
+   * Calculate the individual terms of the global score
+   */
+  private calculateScoreBreakdown(): ScoreBreakdown {
     // Score based on number of rooms placed
-    score += this.placedRooms.size * 100;
+    const placement = this.placedRooms.size * 100;
 
     // Score based on satisfied adjacencies
+    let adjacency = 0;
     for (const adj of this.adjacencies) {
       const roomA = this.placedRooms.get(adj.a);
       const roomB = this.placedRooms.get(adj.b);
@@ -457,11 +787,102 @@ export class DiscreteSolver {
         const dist = Math.sqrt(dx * dx + dy * dy);
 
         // Closer is better
-        score -= dist * (adj.weight ?? 1.0);
+        adjacency -= dist * (adj.weight ?? 1.0);
+      }
+    }
+
+    // Score based on circulation: rooms reachable from corridors, compact network, no dead ends
+    let roomsWithAccess = 0;
+    for (const room of this.placedRooms.values()) {
+      if (this.calculateCorridorContact(room.x, room.y, room.width, room.height) > 0) {
+        roomsWithAccess++;
+      }
+    }
+
+    let corridorCells = 0;
+    let deadEnds = 0;
+    for (let y = 0; y < this.grid.height; y++) {
+      for (let x = 0; x < this.grid.width; x++) {
+        if (this.grid.get(x, y) !== CELL_CORRIDOR) continue;
+        corridorCells++;
+        if (this.isDeadEnd(x, y)) deadEnds++;
       }
     }
 
-    return score;
+    // A torn network must never win over a connected one, whatever the weights
+    const { labels, count } = this.labelCorridors();
+    const stranded = count - this.entranceComponents(labels).size;
+
+    const corridor = this.config.weights.corridor * (
+      roomsWithAccess * CORRIDOR_ACCESS_REWARD -
+      corridorCells * CORRIDOR_CELL_PENALTY -
+      deadEnds * DEAD_END_PENALTY
+    ) - stranded * STRANDED_CORRIDOR_PENALTY;
+
+    return { placement, adjacency, corridor, total: placement + adjacency + corridor };
+  }
+
+  /**
+   * Work out why a room could not be placed on the current grid.
+   * Tries the square and both extreme proportions allowed by targetRatio, in every
+   * allowed corridor orientation (no RNG use). In 'route' mode free positions only count
+   * if the router can reach one of them.
+   */
+  private diagnoseUnplaced(room: RoomRequest): UnplacedReason {
+    const corridors = this.corridorOptions(room);
+    const needsRoute = this.config.corridorMode === 'route' && corridors[0].sides.length > 0;
+    const routeTargets: RouteTarget[] = [];
+    const shapes = [1, room.targetRatio, 1 / room.targetRatio].map(ratio => {
+      const width = Math.ceil(Math.sqrt(room.targetArea / ratio) / this.config.gridResolution);
+      const height = Math.ceil((room.targetArea / (width * this.config.gridResolution)) / this.config.gridResolution);
+      return { width, height };
+    });
+
+    let fitsBoundary = false;
+    let hasSpace = false;
+
+    for (const { width, height, corridor } of shapes.flatMap(shape => corridors.map(corridor => ({ ...shape, corridor })))) {
+      for (let y = 0; y <= this.grid.height - height; y++) {
+        for (let x = 0; x <= this.grid.width - width; x++) {
+          const footprint = this.getRoomFootprint(x, y, width, height, corridor);
+          const cells: Point[] = [...footprint.corridorCells];
+          for (let dy = 0; dy < height; dy++) {
+            for (let dx = 0; dx < width; dx++) {
+              cells.push({ x: x + dx, y: y + dy });
+            }
+          }
+
+          if (cells.some(c => this.grid.get(c.x, c.y) === CELL_OUT_OF_BOUNDS)) continue;
+          fitsBoundary = true;
+
+          if (!this.canPlaceRoom(x, y, width, height, corridor)) {
+            // Separate "blocked" from "free but disconnected"
+            const coreFree = cells.slice(footprint.corridorCells.length).every(c => this.grid.get(c.x, c.y) === CELL_EMPTY);
+            const corridorsFree = footprint.corridorCells.every(c => {
+              const value = this.grid.get(c.x, c.y);
+              return value === CELL_EMPTY || value === CELL_CORRIDOR;
+            });
+            if (coreFree && corridorsFree) hasSpace = true;
+            continue;
+          }
+
+          if (needsRoute) {
+            routeTargets.push({ id: `${routeTargets.length}`, x, y, width, height });
+            continue;
+          }
+
+          return 'no-fit-at-sampled-ratio';
+        }
+      }
+    }
+
+    if (routeTargets.length > 0) {
+      const reachable = new CorridorRouter(this.grid, this.config.corridorWidth).nearest(routeTargets) !== null;
+      return reachable ? 'no-fit-at-sampled-ratio' : 'no-corridor-connectivity';
+    }
+
+    if (!fitsBoundary) return 'out-of-bounds';
+    return hasSpace ? 'no-corridor-connectivity' : 'no-space';
   }
 
   /**
@@ -487,8 +908,16 @@ export class DiscreteSolver {
   }
 
   /**
-   * Iteratively remove dead-end corridor cells.
-   * A dead end is a corridor cell with <= 1 non-empty neighbor.
+   * A corridor cell with <= 1 non-empty neighbor. Entrances never are: the network starts
+   * there, even before any room uses them.
+   */
+  private isDeadEnd(x: number, y: number): boolean {
+    if (this.entranceIndices.has(this.grid.index(x, y))) return false;
+    return this.countNonEmptyNeighbors(x, y) <= 1;
+  }
+
+  /**
+   * Iteratively remove dead-end corridor cells (see isDeadEnd).
    */
   pruneDeadEnds(): void {
     let changed = true;
@@ -498,12 +927,9 @@ export class DiscreteSolver {
 
       for (let y = 0; y < this.grid.height; y++) {
         for (let x = 0; x < this.grid.width; x++) {
-          if (this.grid.get(x, y) === CELL_CORRIDOR) {
-            const neighbors = this.countNonEmptyNeighbors(x, y);
-            if (neighbors <= 1) {
-              this.grid.set(x, y, CELL_EMPTY);
-              changed = true;
-            }
+          if (this.grid.get(x, y) === CELL_CORRIDOR && this.isDeadEnd(x, y)) {
+            this.grid.set(x, y, CELL_EMPTY);
+            changed = true;
           }
         }
       }
@@ -511,98 +937,94 @@ export class DiscreteSolver {
   }
 
   /**
-   * Validate that all corridors form a single connected network using flood fill.
-   * Returns true if the network is fully connected, false if there are isolated islands.
+   * Validate that every corridor cell can be reached from an entrance (any of them).
+   * Returns false if there are islands cut off from all exits, or no entrance is a corridor.
+   * Pieces that reach different exits are fine; getResult().corridorComponents tells them apart.
    */
   validateCorridorNetwork(): boolean {
-    // Find the start point (should be a CELL_CORRIDOR)
-    let startX = -1;
-    let startY = -1;
+    const { labels, count } = this.labelCorridors();
+    const connected = this.entranceComponents(labels);
+    return connected.size > 0 && connected.size === count;
+  }
 
-    if (this.config.startPoint) {
-      startX = this.config.startPoint.x;
-      startY = this.config.startPoint.y;
-    } else {
-      // Default start point at center
-      startX = Math.floor(this.grid.width / 2);
-      startY = Math.floor(this.grid.height / 2);
+  /**
+   * Size, entrances and bordering rooms of every corridor component
+   */
+  private describeCorridorComponents(): CorridorComponent[] {
+    const { labels, count } = this.labelCorridors();
+    const components: CorridorComponent[] = Array.from({ length: count }, () => ({ cells: 0, entrances: [], rooms: [] }));
+
+    for (const label of labels) {
+      if (label >= 0) components[label].cells++;
     }
 
-    // Verify start point is a corridor
-    if (this.grid.get(startX, startY) !== CELL_CORRIDOR) {
-      return false;
+    for (const entrance of this.entrances) {
+      const label = labels[this.grid.index(entrance.x, entrance.y)];
+      if (label >= 0) components[label].entrances.push(entrance.id);
     }
 
-    // Count total corridor cells
-    let totalCorridors = 0;
-    for (let y = 0; y < this.grid.height; y++) {
-      for (let x = 0; x < this.grid.width; x++) {
-        if (this.grid.get(x, y) === CELL_CORRIDOR) {
-          totalCorridors++;
-        }
+    for (const room of this.placedRooms.values()) {
+      const touched = new Set<number>();
+      const visit = (x: number, y: number) => {
+        if (this.grid.get(x, y) === CELL_CORRIDOR) touched.add(labels[this.grid.index(x, y)]);
+      };
+      for (let dx = 0; dx < room.width; dx++) {
+        visit(room.x + dx, room.y - 1);
+        visit(room.x + dx, room.y + room.height);
+      }
+      for (let dy = 0; dy < room.height; dy++) {
+        visit(room.x - 1, room.y + dy);
+        visit(room.x + room.width, room.y + dy);
+      }
+      for (const label of touched) {
+        components[label].rooms.push(room.id);
       }
     }
 
-    // Flood fill from start point
-    const visited = new Set<number>();
-    const queue: Point[] = [{ x: startX, y: startY }];
-    let connectedCount = 0;
-
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      const key = current.y * this.grid.width + current.x;
+    return components;
+  }
 
-      if (visited.has(key)) continue;
-      visited.add(key);
+  /**
+   * Run the evolutionary algorithm and return the best grid
+   */
+  solve(options: RunOptions = {}): GridBuffer {
+    this.run(options);
+    return this.bestGrid || this.grid;
+  }
 
-      if (this.grid.get(current.x, current.y) === CELL_CORRIDOR) {
-        connectedCount++;
+  /**
+   * Run the evolutionary algorithm for up to config.maxIterations iterations.
+   * Stops early when one of the stopping rules in `options` is met; fitness is the
+   * global score (higher is better). Returns why the run stopped.
+   */
+  run(options: RunOptions = {}): RunResult {
+    const monitor = new RunMonitor(options, false);
+    let stopReason: StopReason = 'maxGenerations';
 
-        // Add neighbors to queue
-        const neighbors = [
-          { x: current.x + 1, y: current.y },
-          { x: current.x - 1, y: current.y },
-          { x: current.x, y: current.y + 1 },
-          { x: current.x, y: current.y - 1 },
-        ];
+    // Initial placement (greedy). Skipped when continuing a previous or restored run.
+    if (!this.bestGrid) {
+      const sortedRooms = this.sortRoomsByConnectivity();
+      for (const room of sortedRooms) {
+        if (this.placedRooms.has(room.id)) continue; // Fixed rooms are already stamped
 
-        for (const neighbor of neighbors) {
-          const neighborKey = neighbor.y * this.grid.width + neighbor.x;
-          if (!visited.has(neighborKey)) {
-            queue.push(neighbor);
-          }
+        const candidate = this.findBestPlacement(room);
+        if (candidate) {
+          this.placeRoom(room, candidate.x, candidate.y, candidate.width, candidate.height, candidate.corridor);
         }
       }
-    }
-
-    // Check if all corridors are reachable
-    return connectedCount === totalCorridors;
-  }
 
-  /**
-   * Run the evolutionary algorithm
-   */
-  solve(): GridBuffer {
-    // Initial placement (greedy)
-    const sortedRooms = this.sortRoomsByConnectivity();
-    for (const room of sortedRooms) {
-      const candidate = this.findBestPlacement(room);
-      if (candidate) {
-        this.placeRoom(room, candidate.x, candidate.y, candidate.width, candidate.height);
-      }
+      this.bestGrid = this.grid.clone();
+      this.bestScore = this.calculateGlobalScore();
     }
 
-    this.bestGrid = this.grid.clone();
-    this.bestScore = this.calculateGlobalScore();
-
     // Evolutionary loop
     for (let iter = 0; iter < this.config.maxIterations; iter++) {
       // Create snapshot
       const snapshot = this.grid.clone();
       const snapshotRooms = new Map(this.placedRooms);
 
-      // Mutation: remove K random rooms
-      const placedRoomIds = Array.from(this.placedRooms.keys());
+      // Mutation: remove K random rooms (fixed rooms are never candidates)
+      const placedRoomIds = Array.from(this.placedRooms.keys()).filter(id => !this.fixedRoomIds.has(id));
       const numToRemove = Math.ceil(placedRoomIds.length * this.config.mutationRate);
       const toRemove = this.rng.shuffle([...placedRoomIds]).slice(0, numToRemove);
 
@@ -610,12 +1032,16 @@ export class DiscreteSolver {
         this.removeRoom(roomId);
       }
 
+      if (this.config.corridorMode === 'route') {
+        this.rerouteCorridors();
+      }
+
       // Re-place removed rooms
       const unplacedRooms = this.rooms.filter(room => !this.placedRooms.has(room.id));
       for (const room of unplacedRooms) {
         const candidate = this.findBestPlacement(room);
         if (candidate) {
-          this.placeRoom(room, candidate.x, candidate.y, candidate.width, candidate.height);
+          this.placeRoom(room, candidate.x, candidate.y, candidate.width, candidate.height, candidate.corridor);
         }
       }
 
@@ -631,6 +1057,13 @@ export class DiscreteSolver {
         this.grid = snapshot;
         this.placedRooms = snapshotRooms;
       }
+
+      this.iteration++;
+      const reason = monitor.record(this.iteration, this.bestScore);
+      if (reason) {
+        stopReason = reason;
+        break;
+      }
     }
 
     // Final cleanup: remove dead-end corridors
@@ -644,7 +1077,75 @@ export class DiscreteSolver {
       this.grid = tempGrid;
     }
 
-    return this.bestGrid || this.grid;
+    return monitor.finish(stopReason, this.iteration, this.bestScore);
+  }
+
+  /**
+   * Structured report of the current layout: placed and unplaced rooms (with the reason),
+   * area accuracy, adjacency satisfaction, corridor connectivity and share, and the score breakdown.
+   * Call after solve() or run(); the current layout is the best one found.
+   */
+  getResult(): SolveResult {
+    const cellArea = this.config.gridResolution * this.config.gridResolution;
+    const placedRooms = Array.from(this.placedRooms.values()).map(r => ({ ...r }));
+
+    const unplacedRooms = this.rooms
+      .filter(room => !this.placedRooms.has(room.id))
+      .map(room => ({ id: room.id, reason: this.diagnoseUnplaced(room) }));
+
+    const areas: RoomAreaReport[] = this.rooms
+      .filter(room => this.placedRooms.has(room.id))
+      .map(room => {
+        const placed = this.placedRooms.get(room.id)!;
+        const actualArea = placed.width * placed.height * cellArea;
+        return { id: room.id, targetArea: room.targetArea, actualArea, deviation: actualArea / room.targetArea - 1 };
+      });
+
+    const adjacencies: AdjacencyReport[] = this.adjacencies.map(adj => {
+      const roomA = this.placedRooms.get(adj.a);
+      const roomB = this.placedRooms.get(adj.b);
+      // Placed rooms have integer cell edges, so touching edges are exactly equal
+      const wall = roomA && roomB ? Polygon.sharedWall(roomA, roomB, 0.5) : null;
+
+      return {
+        a: adj.a,
+        b: adj.b,
+        weight: adj.weight ?? 1.0,
+        satisfied: wall !== null,
+        sharedWallLength: wall ? wall.length * this.config.gridResolution : 0,
+      };
+    });
+
+    let corridorCells = 0;
+    let usableCells = 0;
+    for (let y = 0; y < this.grid.height; y++) {
+      for (let x = 0; x < this.grid.width; x++) {
+        const value = this.grid.get(x, y);
+        if (value === CELL_OUT_OF_BOUNDS) continue;
+        usableCells++;
+        if (value === CELL_CORRIDOR) corridorCells++;
+      }
+    }
+
+    const corridorComponents = this.describeCorridorComponents();
+    const reached = new Set(corridorComponents.filter(c => c.entrances.length > 0).flatMap(c => c.rooms));
+
+    return {
+      grid: this.grid.clone(),
+      placedRooms,
+      unplacedRooms,
+      areas,
+      adjacencies,
+      corridorConnected: this.validateCorridorNetwork(),
+      corridorArea: corridorCells * cellArea,
+      corridorShare: usableCells > 0 ? corridorCells / usableCells : 0,
+      entrances: this.entrances.map(e => ({ ...e })),
+      corridorComponents,
+      unreachableRooms: placedRooms
+        .filter(room => (room.corridor?.sides.length ?? 0) > 0 && !reached.has(room.id))
+        .map(room => room.id),
+      score: this.calculateScoreBreakdown(),
+    };
   }
 
   /**
@@ -660,4 +1161,67 @@ export class DiscreteSolver {
   getPlacedRooms(): Map<string, PlacedRoom> {
     return new Map(this.placedRooms);
   }
+
+  /**
+   * Get the total number of evolutionary iterations run so far
+   */
+  getIteration(): number {
+    return this.iteration;
+  }
+
+  /**
+   * Serialize the full solver state (grid, placed rooms, best layout, PRNG state) to plain JSON.
+   * Calling solve() on the restored solver continues the run exactly as the original would.
+   */
+  toSnapshot(): DiscreteSolverSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      boundary: Polygon.copy(this.boundary),
+      rooms: this.rooms.map(r => ({ ...r })),
+      adjacencies: this.adjacencies.map(a => ({ ...a })),
+      config: { ...this.config, weights: { ...this.config.weights } },
+      rngState: this.rng.getState(),
+      iteration: this.iteration,
+      grid: DiscreteSolver.gridToSnapshot(this.grid),
+      placedRooms: Array.from(this.placedRooms.values()).map(r => ({ ...r })),
+      bestGrid: this.bestGrid ? DiscreteSolver.gridToSnapshot(this.bestGrid) : null,
+      bestScore: Number.isFinite(this.bestScore) ? this.bestScore : null,
+    };
+  }
+
+  /**
+   * Recreate a solver from a snapshot produced by toSnapshot()
+   */
+  static fromSnapshot(snapshot: DiscreteSolverSnapshot): DiscreteSolver {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported DiscreteSolver snapshot version: ${snapshot.version}`);
+    }
+
+    const solver = new DiscreteSolver(
+      snapshot.boundary,
+      snapshot.rooms,
+      snapshot.adjacencies,
+      snapshot.config,
+      snapshot.rngState
+    );
+
+    solver.grid = DiscreteSolver.gridFromSnapshot(snapshot.grid);
+    solver.placedRooms = new Map(snapshot.placedRooms.map(r => [r.id, { ...r }]));
+    solver.bestGrid = snapshot.bestGrid ? DiscreteSolver.gridFromSnapshot(snapshot.bestGrid) : null;
+    solver.bestScore = snapshot.bestScore ?? -Infinity;
+    solver.iteration = snapshot.iteration;
+    solver.rng.setState(snapshot.rngState);
+
+    return solver;
+  }
+
+  private static gridToSnapshot(grid: GridBuffer): GridSnapshot {
+    return { width: grid.width, height: grid.height, cells: Array.from(grid.cells) };
+  }
+
+  private static gridFromSnapshot(snapshot: GridSnapshot): GridBuffer {
+    const grid = new GridBuffer(snapshot.width, snapshot.height);
+    grid.cells.set(snapshot.cells);
+    return grid;
+  }
 }
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { EvolutionaryFloorplanSolver } from './EvolutionaryFloorplanSolver.js';
+import { EvolutionaryConfig } from './EvolutionaryGene.js';
+import { RoomStateES } from '../../types.js';
+import { evolutionaryTemplates } from '../../stories/templates/evolutionaryTemplates.js';
+
+describe('EvolutionaryFloorplanSolver', () => {
+  const config: EvolutionaryConfig = {
+    populationSize: 25,
+    maxGenerations: 100,
+    physicsIterations: 10,
+    sharedWallTarget: 1.5,
+    sharedWallWeight: 1500,
+    geometricWeight: 15,
+    teleportProbability: 0.4,
+    swapProbability: 0.6,
+    rotationProbability: 0.3,
+    reshapeProbability: 0.8,
+    maxAspectRatio: 2.0,
+    useNonLinearOverlapPenalty: true,
+    overlapPenaltyExponent: 1.5,
+  };
+
+  const { boundary, rooms, adjacencies } = evolutionaryTemplates.house;
+  const roomsES: RoomStateES[] = rooms.map(room => ({
+    ...room,
+    targetArea: room.width * room.height,
+    pressureX: 0,
+    pressureY: 0,
+    accumulatedPressureX: 0,
+    accumulatedPressureY: 0,
+  }));
+
+  describe('seed', () => {
+    it('should be deterministic with same seed', () => {
+      const solver1 = new EvolutionaryFloorplanSolver(roomsES, boundary, adjacencies, config, undefined, 1234);
+      const solver2 = new EvolutionaryFloorplanSolver(roomsES, boundary, adjacencies, config, undefined, 1234);
+
+      solver1.simulate(30);
+      solver2.simulate(30);
+
+      expect(solver1.getState()).toEqual(solver2.getState());
+      expect(solver1.getStats()).toEqual(solver2.getStats());
+    });
+  });
+
+  describe('snapshot', () => {
+    it('should resume from a JSON snapshot exactly like an uninterrupted run', () => {
+      const original = new EvolutionaryFloorplanSolver(roomsES, boundary, adjacencies, config, 1.5, 77);
+      original.simulate(15);
+
+      const json = JSON.stringify(original.toSnapshot());
+      const restored = EvolutionaryFloorplanSolver.fromSnapshot(JSON.parse(json));
+
+      expect(restored.getGeneration()).toBe(15);
+      expect(restored.getState()).toEqual(original.getState());
+
+      original.simulate(15);
+      restored.simulate(15);
+
+      const straight = new EvolutionaryFloorplanSolver(roomsES, boundary, adjacencies, config, 1.5, 77);
+      straight.simulate(30);
+
+      expect(restored.getState()).toEqual(original.getState());
+      expect(restored.getStats()).toEqual(straight.getStats());
+      expect(restored.getState()).toEqual(straight.getState());
+    });
+  });
+});
@@ -1,7 +1,26 @@
-import { EvolutionaryGene, EvolutionaryConfig } from './EvolutionaryGene.js';
-import { RoomStateES, Adjacency } from '../../types.js';
+import { EvolutionaryGene, EvolutionaryConfig, EvolutionaryGeneSnapshot } from './EvolutionaryGene.js';
+import { RoomStateES, RoomKind, Adjacency, RunOptions, RunResult, StopReason } from '../../types.js';
+import { assertValidProgram } from '../validation/validateProgram.js';
 import { Vec2 } from '../geometry/Vector2.js';
-import { Polygon } from '../geometry/Polygon.js';
+import { Polygon, PolygonLike } from '../geometry/Polygon.js';
+import { Random } from '../../utils/Random.js';
+import { SNAPSHOT_VERSION } from '../../constants.js';
+import { RunMonitor } from '../../utils/RunMonitor.js';
+import { kindBehavior } from '../rooms/roomKinds.js';
+
+/**
+ * Plain JSON checkpoint of an EvolutionaryFloorplanSolver run (see toSnapshot / fromSnapshot)
+ */
+export interface EvolutionarySolverSnapshot {
+  version: number;
+  boundary: PolygonLike;
+  adjacencies: Adjacency[];
+  config: EvolutionaryConfig;
+  globalTargetRatio?: number;
+  rngState: number;
+  generation: number;
+  population: EvolutionaryGeneSnapshot[];
+}
 
 /**
  * Evolutionary Floorplan Solver
@@ -12,23 +31,30 @@ import { Polygon } from '../geometry/Polygon.js';
  */
 export class EvolutionaryFloorplanSolver {
   private population: EvolutionaryGene[] = [];
-  private boundary: Vec2[];
+  private boundary: PolygonLike;
   private adjacencies: Adjacency[];
   private config: EvolutionaryConfig;
   private globalTargetRatio: number | undefined;
+  private rng: Random;
   public generation: number = 0;
 
   constructor(
     initialRooms: RoomStateES[],
-    boundary: Vec2[],
+    boundary: PolygonLike,
     adjacencies: Adjacency[],
     config: EvolutionaryConfig,
-    globalTargetRatio?: number
+    globalTargetRatio?: number,
+    seed: number = Date.now()
   ) {
+    if (config.strict) {
+      assertValidProgram(boundary, initialRooms, adjacencies);
+    }
+
     this.boundary = boundary;
     this.adjacencies = adjacencies;
     this.config = config;
     this.globalTargetRatio = globalTargetRatio;
+    this.rng = new Random(seed);
 
     // Initialize population of 25 random variants
     this.initializePopulation(initialRooms);
@@ -38,14 +64,14 @@ export class EvolutionaryFloorplanSolver {
    * Initialize population with 25 random variants
    */
   private initializePopulation(baseRooms: RoomStateES[]): void {
-    const boundaryAABB = Polygon.calculateAABB(this.boundary);
+    const boundaryAABB = Polygon.calculateAABB(Polygon.outerRing(this.boundary));
 
     for (let i = 0; i < this.config.populationSize; i++) {
-      // Create a copy of rooms with randomized positions
-      const randomizedRooms = baseRooms.map(room => ({
+      // Create a copy of rooms with randomized positions (locked rooms keep theirs)
+      const randomizedRooms = baseRooms.map(room => room.fixed ? { ...room } : ({
         ...room,
-        x: boundaryAABB.minX + Math.random() * (boundaryAABB.maxX - boundaryAABB.minX - room.width),
-        y: boundaryAABB.minY + Math.random() * (boundaryAABB.maxY - boundaryAABB.minY - room.height),
+        x: boundaryAABB.minX + this.rng.next() * (boundaryAABB.maxX - boundaryAABB.minX - room.width),
+        y: boundaryAABB.minY + this.rng.next() * (boundaryAABB.maxY - boundaryAABB.minY - room.height),
       }));
 
       const gene = new EvolutionaryGene(randomizedRooms);
@@ -105,9 +131,9 @@ export class EvolutionaryFloorplanSolver {
           const mutant = parent.clone();
 
           // Apply 1 to 3 mutations per mutant
-          const numMutations = Math.floor(Math.random() * 3) + 1;
+          const numMutations = Math.floor(this.rng.next() * 3) + 1;
           for (let i = 0; i < numMutations; i++) {
-               const rand = Math.random();
+               const rand = this.rng.next();
                const totalProb = this.config.teleportProbability + this.config.swapProbability + this.config.rotationProbability + this.config.reshapeProbability;
 
                // BUG FIX: If all probabilities are 0, do not mutate.
@@ -148,22 +174,38 @@ export class EvolutionaryFloorplanSolver {
     }
   }
 
-  simulate(generations: number): void {
+  /**
+   * Run up to N generations (capped by config.maxGenerations).
+   * Stops early when one of the stopping rules in `options` is met.
+   */
+  simulate(generations: number, options: RunOptions = {}): RunResult {
+    const monitor = new RunMonitor(options, true);
+    let stopReason: StopReason = 'maxGenerations';
+
     for (let i = 0; i < generations && this.generation < this.config.maxGenerations; i++) {
       this.step();
+
+      const reason = monitor.record(this.generation, this.getBest().fitness);
+      if (reason) {
+        stopReason = reason;
+        break;
+      }
     }
+
+    return monitor.finish(stopReason, this.generation, this.getBest().fitness);
   }
 
   private applyTeleport(gene: EvolutionaryGene): void {
-    const rooms = gene.rooms;
+    // Rigid kinds (stairs, shafts) keep their shape
+    const rooms = this.getMovableRooms(gene).filter(room => kindBehavior(room).reshapes);
     if (rooms.length === 0) return;
-    const room = rooms[Math.floor(Math.random() * rooms.length)];
+    const room = rooms[Math.floor(this.rng.next() * rooms.length)];
 
     // Randomize aspect ratio within allowed range
-    const maxRatio = this.globalTargetRatio ?? room.targetRatio;
+    const maxRatio = kindBehavior(room).ownRatio ? room.targetRatio : this.globalTargetRatio ?? room.targetRatio;
     const minRatio = 1.0 / maxRatio;
     // Random aspect ratio (width/height) in range [minRatio, maxRatio]
-    const newAspectRatio = minRatio + Math.random() * (maxRatio - minRatio);
+    const newAspectRatio = minRatio + this.rng.next() * (maxRatio - minRatio);
 
     // Recalculate width and height maintaining target area
     // area = width * height, aspectRatio = width / height
@@ -175,23 +217,23 @@ export class EvolutionaryFloorplanSolver {
     room.height = newHeight;
 
     // Teleport to random position
-    const boundaryAABB = Polygon.calculateAABB(this.boundary);
+    const boundaryAABB = Polygon.calculateAABB(Polygon.outerRing(this.boundary));
     const maxX = boundaryAABB.maxX - room.width;
     const maxY = boundaryAABB.maxY - room.height;
 
     if (maxX > boundaryAABB.minX && maxY > boundaryAABB.minY) {
-      room.x = boundaryAABB.minX + Math.random() * (maxX - boundaryAABB.minX);
-      room.y = boundaryAABB.minY + Math.random() * (maxY - boundaryAABB.minY);
+      room.x = boundaryAABB.minX + this.rng.next() * (maxX - boundaryAABB.minX);
+      room.y = boundaryAABB.minY + this.rng.next() * (maxY - boundaryAABB.minY);
     }
   }
 
   private applySwap(gene: EvolutionaryGene): void {
-    const rooms = gene.rooms;
+    const rooms = this.getMovableRooms(gene);
     if (rooms.length < 2) return;
-    const numRoomsToSwap = Math.min(4, Math.floor(Math.random() * 3) + 2);
+    const numRoomsToSwap = Math.min(4, Math.floor(this.rng.next() * 3) + 2);
     const indices: number[] = [];
     while (indices.length < numRoomsToSwap && indices.length < rooms.length) {
-      const idx = Math.floor(Math.random() * rooms.length);
+      const idx = Math.floor(this.rng.next() * rooms.length);
       if (!indices.includes(idx)) {
         indices.push(idx);
       }
@@ -209,10 +251,10 @@ export class EvolutionaryFloorplanSolver {
   }
 
   private applyRotation(gene: EvolutionaryGene): void {
-    const angleDegrees = 25 + Math.random() * (335 - 25);
+    const angleDegrees = 25 + this.rng.next() * (335 - 25);
     const angleRadians = (angleDegrees * Math.PI) / 180;
-    const center = this.calculateCentroid(this.boundary);
-    for (const room of gene.rooms) {
+    const center = this.calculateCentroid(Polygon.outerRing(this.boundary));
+    for (const room of this.getMovableRooms(gene)) {
       const roomCenterX = room.x + room.width / 2;
       const roomCenterY = room.y + room.height / 2;
       const dx = roomCenterX - center.x;
@@ -229,15 +271,16 @@ export class EvolutionaryFloorplanSolver {
   }
 
   private applyReshape(gene: EvolutionaryGene): void {
-    const rooms = gene.rooms;
+    // Rigid kinds (stairs, shafts) keep their shape
+    const rooms = this.getMovableRooms(gene).filter(room => kindBehavior(room).reshapes);
     if (rooms.length === 0) return;
-    const room = rooms[Math.floor(Math.random() * rooms.length)];
+    const room = rooms[Math.floor(this.rng.next() * rooms.length)];
 
     // Randomize aspect ratio within allowed range
-    const maxRatio = this.globalTargetRatio ?? room.targetRatio;
+    const maxRatio = kindBehavior(room).ownRatio ? room.targetRatio : this.globalTargetRatio ?? room.targetRatio;
     const minRatio = 1.0 / maxRatio;
     // Random aspect ratio (width/height) in range [minRatio, maxRatio]
-    const newAspectRatio = minRatio + Math.random() * (maxRatio - minRatio);
+    const newAspectRatio = minRatio + this.rng.next() * (maxRatio - minRatio);
 
     // Store room center position
     const centerX = room.x + room.width / 2;
@@ -257,6 +300,13 @@ export class EvolutionaryFloorplanSolver {
     room.y = centerY - newHeight / 2;
   }
 
+  /**
+   * Rooms that mutations may move or resize (everything except locked rooms)
+   */
+  private getMovableRooms(gene: EvolutionaryGene): RoomStateES[] {
+    return gene.rooms.filter(room => !room.fixed);
+  }
+
   private calculateCentroid(points: Vec2[]): Vec2 {
     const x = points.reduce((sum, p) => sum + p.x, 0) / points.length;
     const y = points.reduce((sum, p) => sum + p.y, 0) / points.length;
@@ -300,6 +350,8 @@ export class EvolutionaryFloorplanSolver {
     targetRatio: number;
     vx: number;
     vy: number;
+    kind?: RoomKind;
+    fixed?: boolean;
   }> {
     const best = this.getBest();
     return best.rooms.map(r => ({
@@ -311,6 +363,8 @@ export class EvolutionaryFloorplanSolver {
       targetRatio: r.targetRatio,
       vx: 0,
       vy: 0,
+      kind: r.kind,
+      fixed: r.fixed,
     }));
   }
 
@@ -328,4 +382,45 @@ export class EvolutionaryFloorplanSolver {
   getKineticEnergy(): number {
     return this.getBest().fitness;
   }
+
+  /**
+   * Serialize the full solver state (population, PRNG state, generation, config) to plain JSON.
+   */
+  toSnapshot(): EvolutionarySolverSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      boundary: Polygon.copy(this.boundary),
+      adjacencies: this.adjacencies.map(a => ({ ...a })),
+      config: { ...this.config },
+      globalTargetRatio: this.globalTargetRatio,
+      rngState: this.rng.getState(),
+      generation: this.generation,
+      population: this.population.map(g => g.toSnapshot()),
+    };
+  }
+
+  /**
+   * Recreate a solver from a snapshot produced by toSnapshot()
+   */
+  static fromSnapshot(snapshot: EvolutionarySolverSnapshot): EvolutionaryFloorplanSolver {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported EvolutionaryFloorplanSolver snapshot version: ${snapshot.version}`);
+    }
+
+    // Construct with an empty room set so initialization stays cheap, then replace the population
+    const solver = new EvolutionaryFloorplanSolver(
+      [],
+      snapshot.boundary,
+      snapshot.adjacencies,
+      { ...snapshot.config },
+      snapshot.globalTargetRatio,
+      snapshot.rngState
+    );
+
+    solver.population = snapshot.population.map(g => EvolutionaryGene.fromSnapshot(g));
+    solver.generation = snapshot.generation;
+    solver.rng.setState(snapshot.rngState);
+
+    return solver;
+  }
 }
\ No newline at end of file
@@ -1,7 +1,8 @@
-import { Gene } from './Gene.js';
+import { Gene, GeneSnapshot } from './Gene.js';
 import { RoomStateES, Adjacency } from '../../types.js';
 import { Vec2 } from '../geometry/Vector2.js';
-import { Polygon } from '../geometry/Polygon.js';
+import { Polygon, PolygonLike } from '../geometry/Polygon.js';
+import { kindBehavior } from '../rooms/roomKinds.js';
 
 /**
  * Configuration for Evolutionary Floorplan Solver
@@ -24,6 +25,8 @@ export interface EvolutionaryConfig {
 
   // Physics
   maxAspectRatio: number; // Maximum room aspect ratio (width/height)
+  obstacles?: Vec2[][]; // Static polygons rooms must avoid (honoured by physics and penalized as overlap)
+  strict?: boolean; // Run validateProgram in the constructor and throw on errors
 
   // Advanced features (inherited from SpringConfig for compatibility)
   useQuadraticPenalty?: boolean;
@@ -31,6 +34,13 @@ export interface EvolutionaryConfig {
   overlapPenaltyExponent?: number;
 }
 
+/**
+ * Plain JSON representation of an evolutionary gene
+ */
+export interface EvolutionaryGeneSnapshot extends GeneSnapshot {
+  fitnessSharedWall: number;
+}
+
 /**
  * Extended Gene class with shared wall measurement and specific fitness logic.
  * Inherits all physics logic from Gene (applySquishCollisions, aspect ratio constraints).
@@ -55,42 +65,34 @@ export class EvolutionaryGene extends Gene {
   }
 
   /**
-   * Measure the length of shared wall between two axis-aligned rectangular rooms.
+   * Override toSnapshot to include the shared wall fitness component
    */
-private measureSharedWall(roomA: RoomStateES, roomB: RoomStateES): number {
-    const TOLERANCE = 10; // 33cm snapping distance (Keep this small!)
-
-    const aLeft = roomA.x;
-    const aRight = roomA.x + roomA.width;
-    const aTop = roomA.y;
-    const aBottom = roomA.y + roomA.height;
-
-    const bLeft = roomB.x;
-    const bRight = roomB.x + roomB.width;
-    const bTop = roomB.y;
-    const bBottom = roomB.y + roomB.height;
-
-    // Check vertical shared wall
-    if (Math.abs(aRight - bLeft) < TOLERANCE || Math.abs(aLeft - bRight) < TOLERANCE) {
-      const overlapTop = Math.max(aTop, bTop);
-      const overlapBottom = Math.min(aBottom, bBottom);
-      if (overlapBottom > overlapTop) {
-        return overlapBottom - overlapTop;
-      }
-    }
-
-    // Check horizontal shared wall
-    if (Math.abs(aBottom - bTop) < TOLERANCE || Math.abs(aTop - bBottom) < TOLERANCE) {
-      const overlapLeft = Math.max(aLeft, bLeft);
-      const overlapRight = Math.min(aRight, bRight);
-      if (overlapRight > overlapLeft) {
-        return overlapRight - overlapLeft;
-      }
-    }
+  override toSnapshot(): EvolutionaryGeneSnapshot {
+    return {
+      ...super.toSnapshot(),
+      fitnessSharedWall: this.fitnessSharedWall,
+    };
+  }
 
-    return 0;
+  /**
+   * Recreate an evolutionary gene from a snapshot produced by toSnapshot()
+   */
+  static override fromSnapshot(snapshot: EvolutionaryGeneSnapshot): EvolutionaryGene {
+    const gene = new EvolutionaryGene(snapshot.rooms);
+    gene.fitness = snapshot.fitness ?? Infinity;
+    gene.fitnessG = snapshot.fitnessG;
+    gene.fitnessT = snapshot.fitnessT;
+    gene.fitnessSharedWall = snapshot.fitnessSharedWall;
+    return gene;
   }
 
+  /**
+   * Measure the length of shared wall between two axis-aligned rectangular rooms.
+   */
+  private measureSharedWall(roomA: RoomStateES, roomB: RoomStateES): number {
+    const TOLERANCE = 10; // 33cm snapping distance (Keep this small!)
+    return Polygon.sharedWall(roomA, roomB, TOLERANCE)?.length ?? 0;
+  }
 
   /**
    * Calculate the gap distance between two rooms (0 if touching or overlapping).
@@ -169,7 +171,7 @@ private measureSharedWall(roomA: RoomStateES, roomB: RoomStateES): number {
    * NORMALIZED: Now divides raw scores by element counts to make weights scale-independent.
    */
   calculateEvolutionaryFitness(
-    boundary: Vec2[],
+    boundary: PolygonLike,
     adjacencies: Adjacency[],
     config: EvolutionaryConfig
   ): void {
@@ -198,7 +200,7 @@ private measureSharedWall(roomA: RoomStateES, roomB: RoomStateES): number {
    * Calculate geometric fitness (overlaps + out-of-bounds).
    * Fixed: Now correctly calculates out-of-bounds area.
    */
-  protected calculateGeometricFitnessEvolutionary(boundary: Vec2[], config: any): number {
+  protected calculateGeometricFitnessEvolutionary(boundary: PolygonLike, config: any): number {
     let totalOverlap = 0;
     let totalOutOfBounds = 0;
 
@@ -217,16 +219,20 @@ private measureSharedWall(roomA: RoomStateES, roomB: RoomStateES): number {
           Math.max(roomA.y, roomB.y)
         );
         const overlapArea = overlapX * overlapY;
+        const weight = Math.max(kindBehavior(roomA).overlapWeight, kindBehavior(roomB).overlapWeight);
 
         if (config.useNonLinearOverlapPenalty && overlapArea > 0) {
           const exponent = config.overlapPenaltyExponent ?? 1.5;
-          totalOverlap += Math.pow(overlapArea, exponent);
+          totalOverlap += Math.pow(overlapArea, exponent) * weight;
         } else {
-          totalOverlap += overlapArea;
+          totalOverlap += overlapArea * weight;
         }
       }
     }
 
+    // Covering a static obstacle counts as overlap
+    totalOverlap += this.calculateObstacleOverlap(config.obstacles);
+
     // 2. Calculate Out of Bounds (FIXED: Was previously 0)
     for (const room of this.rooms) {
       const roomPoly = Polygon.createRectangle(room.x, room.y, room.width, room.height);
@@ -236,7 +242,7 @@ private measureSharedWall(roomA: RoomStateES, roomB: RoomStateES): number {
       const insideArea = Polygon.intersectionArea(boundary, roomPoly);
       const outsideArea = Math.max(0, roomArea - insideArea);
 
-      totalOutOfBounds += outsideArea;
+      totalOutOfBounds += outsideArea * kindBehavior(room).outOfBoundsWeight;
     }
 
     // Weighted penalty for out-of-bounds
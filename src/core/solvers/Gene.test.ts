@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { Gene } from './Gene.js';
+import { RoomStateES, SpringConfig } from '../../types.js';
+import { Vec2 } from '../geometry/Vector2.js';
+import { PolygonWithHoles } from '../geometry/Polygon.js';
+import { ROOM_KINDS } from '../rooms/roomKinds.js';
+
+describe('Gene', () => {
+  const config: SpringConfig = {
+    populationSize: 1,
+    maxGenerations: 1,
+    mutationRate: 0,
+    mutationStrength: 0,
+    crossoverRate: 0,
+    selectionPressure: 0,
+    fitnessBalance: 1,
+    aspectRatioMutationRate: 0,
+  };
+
+  const square: Vec2[] = [
+    { x: 0, y: 0 },
+    { x: 100, y: 0 },
+    { x: 100, y: 100 },
+    { x: 0, y: 100 },
+  ];
+
+  const courtyard: PolygonWithHoles = {
+    outer: square,
+    holes: [[
+      { x: 40, y: 40 },
+      { x: 60, y: 40 },
+      { x: 60, y: 60 },
+      { x: 40, y: 60 },
+    ]],
+  };
+
+  const createRoom = (x: number, y: number): RoomStateES => ({
+    id: 'room1',
+    x,
+    y,
+    width: 10,
+    height: 10,
+    targetRatio: 1.2,
+    targetArea: 100,
+    pressureX: 0,
+    pressureY: 0,
+    accumulatedPressureX: 0,
+    accumulatedPressureY: 0,
+  });
+
+  describe('calculateFitness', () => {
+    it('should count area inside a hole as out of bounds', () => {
+      const inside = new Gene([createRoom(45, 45)]);
+      inside.calculateFitness(square, [], 1, config);
+      expect(inside.fitnessG).toBe(0);
+
+      const inHole = new Gene([createRoom(45, 45)]);
+      inHole.calculateFitness(courtyard, [], 1, config);
+      expect(inHole.fitnessG).toBeCloseTo(100 * 100); // 100 m² outside × out-of-bounds multiplier
+    });
+
+    it('should weight overlaps by room kind', () => {
+      const plain = new Gene([createRoom(20, 20), { ...createRoom(25, 20), id: 'room2' }]);
+      plain.calculateFitness(square, [], 1, config);
+
+      const onStair = new Gene([createRoom(20, 20), { ...createRoom(25, 20), id: 'stair', kind: 'stair' }]);
+      onStair.calculateFitness(square, [], 1, config);
+
+      expect(plain.fitnessG).toBeCloseTo(50);
+      expect(onStair.fitnessG).toBeCloseTo(50 * ROOM_KINDS.stair.overlapWeight);
+    });
+  });
+
+  describe('applySquishCollisions', () => {
+    it('should move rooms out of holes but leave fixed rooms alone', () => {
+      const gene = new Gene([createRoom(45, 45), { ...createRoom(42, 42), id: 'core', fixed: true }]);
+      gene.applySquishCollisions(courtyard, config);
+
+      const [room, core] = gene.rooms;
+
+      expect(room.x + room.width <= 40 || room.x >= 60 || room.y + room.height <= 40 || room.y >= 60).toBe(true);
+      expect(core).toMatchObject({ x: 42, y: 42, width: 10, height: 10 });
+    });
+
+    it('should translate rigid kinds instead of squishing them', () => {
+      const gene = new Gene([createRoom(20, 20), { ...createRoom(28, 21), id: 'stair', kind: 'stair' }]);
+      gene.applySquishCollisions(square, config);
+
+      const [room, stair] = gene.rooms;
+
+      expect(stair).toMatchObject({ width: 10, height: 10 });
+      expect(room).toMatchObject({ width: 10, height: 10 });
+      expect(stair.x - room.x).toBeGreaterThan(8);
+    });
+
+    it('should let outdoor rooms sit outside the boundary', () => {
+      const gene = new Gene([{ ...createRoom(95, 45), id: 'terrace', kind: 'outdoor' }]);
+      gene.applySquishCollisions(square, config);
+      gene.calculateFitness(square, [], 1, config);
+
+      expect(gene.rooms[0].x).toBe(95);
+      expect(gene.fitnessG).toBe(0);
+    });
+  });
+});
@@ -1,6 +1,19 @@
 import { RoomStateES, Adjacency, SpringConfig } from '../../types.js';
 import { Vec2 } from '../geometry/Vector2.js';
-import { Polygon } from '../geometry/Polygon.js';
+import { Polygon, AABB, PolygonLike } from '../geometry/Polygon.js';
+import { Random } from '../../utils/Random.js';
+import { kindBehavior } from '../rooms/roomKinds.js';
+
+/**
+ * Plain JSON representation of a gene.
+ * Fitness is null when it has not been evaluated yet (Infinity is not valid JSON).
+ */
+export interface GeneSnapshot {
+  rooms: RoomStateES[];
+  fitness: number | null;
+  fitnessG: number;
+  fitnessT: number;
+}
 
 /**
  * Represents a single candidate solution in the evolutionary algorithm.
@@ -35,6 +48,29 @@ export class Gene {
     return clone;
   }
 
+  /**
+   * Serialize this gene to plain JSON
+   */
+  toSnapshot(): GeneSnapshot {
+    return {
+      rooms: this.rooms.map(r => ({ ...r })),
+      fitness: Number.isFinite(this.fitness) ? this.fitness : null,
+      fitnessG: this.fitnessG,
+      fitnessT: this.fitnessT,
+    };
+  }
+
+  /**
+   * Recreate a gene from a snapshot produced by toSnapshot()
+   */
+  static fromSnapshot(snapshot: GeneSnapshot): Gene {
+    const gene = new Gene(snapshot.rooms);
+    gene.fitness = snapshot.fitness ?? Infinity;
+    gene.fitnessG = snapshot.fitnessG;
+    gene.fitnessT = snapshot.fitnessT;
+    return gene;
+  }
+
   /**
    * Apply "Squish" collision resolution to all overlapping room pairs.
    * This is the core logic from the original C# implementation.
@@ -47,7 +83,7 @@ export class Gene {
    * FIXED: Now includes multiple iterations to resolve chain reactions
    * FIXED: Pressure accumulation only on first iteration to prevent over-counting
    */
-  applySquishCollisions(boundary: Vec2[], config: SpringConfig, globalTargetRatio?: number): void {
+  applySquishCollisions(boundary: PolygonLike, config: SpringConfig, globalTargetRatio?: number): void {
     // Reset pressure accumulators for all rooms
     for (const room of this.rooms) {
       room.pressureX = 0;
@@ -70,6 +106,9 @@ export class Gene {
           const roomA = this.rooms[i];
           const roomB = this.rooms[j];
 
+          // Two locked rooms can't resolve anything between themselves
+          if (roomA.fixed && roomB.fixed) continue;
+
           // Create polygon representations
           const polyA = Polygon.createRectangle(roomA.x, roomA.y, roomA.width, roomA.height);
           const polyB = Polygon.createRectangle(roomB.x, roomB.y, roomB.width, roomB.height);
@@ -94,7 +133,12 @@ export class Gene {
 
             // Try to squish along the smaller overlap dimension
             // Only accumulate pressure on first iteration to avoid over-counting
-            if (overlapX < overlapY) {
+            if (roomA.fixed || roomB.fixed) {
+              // A locked room never gives way: the other room moves out entirely
+              const movable = roomA.fixed ? roomB : roomA;
+              const locked = roomA.fixed ? roomA : roomB;
+              this.pushOutOf(movable, locked === roomA ? aabbA : aabbB, iteration === 0);
+            } else if (overlapX < overlapY) {
               // Overlap is more horizontal, try to squish widths
               this.trySquishHorizontal(roomA, roomB, overlapX, globalTargetRatio, iteration === 0);
             } else {
@@ -105,6 +149,11 @@ export class Gene {
         }
       }
 
+      // Static obstacles behave like locked rooms
+      if (config.obstacles && this.resolveObstacleCollisions(config.obstacles, iteration === 0)) {
+        hadCollision = true;
+      }
+
       // If no collisions were found this iteration, we're done
       if (!hadCollision) {
         break;
@@ -122,6 +171,54 @@ export class Gene {
     this.constrainToBoundary(boundary);
   }
 
+  /**
+   * Push every movable room out of the static obstacles it overlaps.
+   * Overlap is tested on the polygon, but the push clears its bounding box: an L-shaped
+   * obstacle moves a room as far as the rectangle around it would.
+   * Returns true if any room had to move.
+   */
+  private resolveObstacleCollisions(obstacles: Vec2[][], accumulatePressure: boolean): boolean {
+    let moved = false;
+
+    for (const obstacle of obstacles) {
+      const obstacleAABB = Polygon.calculateAABB(obstacle);
+
+      for (const room of this.rooms) {
+        if (room.fixed) continue;
+
+        const roomPoly = Polygon.createRectangle(room.x, room.y, room.width, room.height);
+        if (!Polygon.aabbIntersects(Polygon.calculateAABB(roomPoly), obstacleAABB)) continue;
+        if (Polygon.intersectionArea(roomPoly, obstacle) <= 0.01) continue;
+
+        this.pushOutOf(room, obstacleAABB, accumulatePressure);
+        moved = true;
+      }
+    }
+
+    return moved;
+  }
+
+  /**
+   * Translate a room out of an immovable box along the axis of least overlap.
+   * The room absorbs the whole displacement, so it also takes all of the pressure.
+   */
+  private pushOutOf(room: RoomStateES, box: AABB, accumulatePressure: boolean): void {
+    const overlapX = Math.min(room.x + room.width, box.maxX) - Math.max(room.x, box.minX);
+    const overlapY = Math.min(room.y + room.height, box.maxY) - Math.max(room.y, box.minY);
+
+    if (overlapX <= 0 || overlapY <= 0) return;
+
+    if (overlapX < overlapY) {
+      if (accumulatePressure) room.pressureX += overlapX;
+      const moveLeft = room.x + room.width / 2 < (box.minX + box.maxX) / 2;
+      room.x = moveLeft ? box.minX - room.width - 0.1 : box.maxX + 0.1;
+    } else {
+      if (accumulatePressure) room.pressureY += overlapY;
+      const moveUp = room.y + room.height / 2 < (box.minY + box.maxY) / 2;
+      room.y = moveUp ? box.minY - room.height - 0.1 : box.maxY + 0.1;
+    }
+  }
+
   /**
    * Attempt to squish rooms horizontally (reduce width, increase height).
    * If aspect ratio limits are violated, translate instead.
@@ -152,18 +249,19 @@ export class Gene {
     const ratioA = newWidthA / newHeightA;
     const ratioB = newWidthB / newHeightB;
 
-    // Use global target ratio if provided (but not for corridors), otherwise use room-specific ratios
-    const isCorridorA = roomA.id.startsWith('corridor-');
-    const isCorridorB = roomB.id.startsWith('corridor-');
-    const targetRatioA = (globalTargetRatio && !isCorridorA) ? globalTargetRatio : roomA.targetRatio;
-    const targetRatioB = (globalTargetRatio && !isCorridorB) ? globalTargetRatio : roomB.targetRatio;
+    // Use global target ratio if provided (except for kinds that keep their own), otherwise use room-specific ratios
+    const kindA = kindBehavior(roomA);
+    const kindB = kindBehavior(roomB);
+    const targetRatioA = (globalTargetRatio && !kindA.ownRatio) ? globalTargetRatio : roomA.targetRatio;
+    const targetRatioB = (globalTargetRatio && !kindB.ownRatio) ? globalTargetRatio : roomB.targetRatio;
 
     // Compute valid range: [1/targetRatio, targetRatio]
     const minRatioA = 1.0 / targetRatioA;
     const minRatioB = 1.0 / targetRatioB;
 
-    const validA = ratioA >= minRatioA && ratioA <= targetRatioA;
-    const validB = ratioB >= minRatioB && ratioB <= targetRatioB;
+    // Rigid kinds (stairs, shafts) never deform, so the pair translates instead
+    const validA = kindA.reshapes && ratioA >= minRatioA && ratioA <= targetRatioA;
+    const validB = kindB.reshapes && ratioB >= minRatioB && ratioB <= targetRatioB;
 
     if (validA && validB) {
       // Both can squish - apply the transformation
@@ -235,18 +333,19 @@ export class Gene {
     const ratioA = newWidthA / newHeightA;
     const ratioB = newWidthB / newHeightB;
 
-    // Use global target ratio if provided (but not for corridors), otherwise use room-specific ratios
-    const isCorridorA = roomA.id.startsWith('corridor-');
-    const isCorridorB = roomB.id.startsWith('corridor-');
-    const targetRatioA = (globalTargetRatio && !isCorridorA) ? globalTargetRatio : roomA.targetRatio;
-    const targetRatioB = (globalTargetRatio && !isCorridorB) ? globalTargetRatio : roomB.targetRatio;
+    // Use global target ratio if provided (except for kinds that keep their own), otherwise use room-specific ratios
+    const kindA = kindBehavior(roomA);
+    const kindB = kindBehavior(roomB);
+    const targetRatioA = (globalTargetRatio && !kindA.ownRatio) ? globalTargetRatio : roomA.targetRatio;
+    const targetRatioB = (globalTargetRatio && !kindB.ownRatio) ? globalTargetRatio : roomB.targetRatio;
 
     // Compute valid range: [1/targetRatio, targetRatio]
     const minRatioA = 1.0 / targetRatioA;
     const minRatioB = 1.0 / targetRatioB;
 
-    const validA = ratioA >= minRatioA && ratioA <= targetRatioA;
-    const validB = ratioB >= minRatioB && ratioB <= targetRatioB;
+    // Rigid kinds (stairs, shafts) never deform, so the pair translates instead
+    const validA = kindA.reshapes && ratioA >= minRatioA && ratioA <= targetRatioA;
+    const validB = kindB.reshapes && ratioB >= minRatioB && ratioB <= targetRatioB;
 
     if (validA && validB) {
       // Both can squish - apply the transformation
@@ -298,6 +397,8 @@ export class Gene {
     const inflationThreshold = config.inflationThreshold ?? 1.05; // Default 5% max overgrowth
 
     for (const room of this.rooms) {
+      if (room.fixed || !kindBehavior(room).reshapes) continue;
+
       const currentArea = room.width * room.height;
       const maxArea = room.targetArea * inflationThreshold;
 
@@ -313,11 +414,17 @@ export class Gene {
   /**
    * Push rooms back into the boundary if they're outside.
    * Uses strict polygon containment instead of AABB clamping.
+   * Rooms reaching into a hole (courtyard, core) are pushed out of it afterwards.
    */
-  private constrainToBoundary(boundary: Vec2[]): void {
+  private constrainToBoundary(boundary: PolygonLike): void {
     const MAX_ITERATIONS = 2; // Prevent infinite loops
+    const outer = Polygon.outerRing(boundary);
+    const holes = Polygon.holes(boundary);
 
     for (const room of this.rooms) {
+      if (room.fixed) continue; // Locked rooms stay where the user put them
+      if (kindBehavior(room).outOfBoundsWeight === 0) continue; // Outdoor rooms may sit outside
+
       let iteration = 0;
       while (iteration < MAX_ITERATIONS) {
         // Get all four corners of the room
@@ -334,10 +441,10 @@ export class Gene {
         let maxDistSq = 0;
 
         for (const corner of corners) {
-          if (!Polygon.pointInPolygon(corner, boundary)) {
+          if (!Polygon.pointInPolygon(corner, outer)) {
             allInside = false;
             // Find the farthest outside corner
-            const closestOnBoundary = Polygon.closestPointOnPolygon(corner, boundary);
+            const closestOnBoundary = Polygon.closestPointOnPolygon(corner, outer);
             const distSq =
               (corner.x - closestOnBoundary.x) ** 2 + (corner.y - closestOnBoundary.y) ** 2;
 
@@ -355,7 +462,7 @@ export class Gene {
 
         // Push the room towards the boundary
         if (farthestOutsideCorner) {
-          const closestOnBoundary = Polygon.closestPointOnPolygon(farthestOutsideCorner, boundary);
+          const closestOnBoundary = Polygon.closestPointOnPolygon(farthestOutsideCorner, outer);
 
           // Calculate push direction (from outside corner to boundary)
           const pushX = closestOnBoundary.x - farthestOutsideCorner.x;
@@ -374,6 +481,20 @@ export class Gene {
 
         iteration++;
       }
+
+      // Holes are walls seen from the inside: push the room out of any it reaches into
+      // (clear of the hole's bounding box, like obstacles)
+      for (const hole of holes) {
+        const roomPoly = Polygon.createRectangle(room.x, room.y, room.width, room.height);
+        if (Polygon.intersectionArea(roomPoly, hole) <= 0.01) continue;
+
+        const previousX = room.x;
+        const previousY = room.y;
+        this.pushOutOf(room, Polygon.calculateAABB(hole), false);
+
+        room.accumulatedPressureX += Math.abs(room.x - previousX) * 10;
+        room.accumulatedPressureY += Math.abs(room.y - previousY) * 10;
+      }
     }
   }
 
@@ -384,7 +505,7 @@ export class Gene {
    * FitnessG: Total overlapping area + area outside boundary
    * FitnessT: Sum of distances between connected rooms
    */
-  calculateFitness(boundary: Vec2[], adjacencies: Adjacency[], balance: number, config: SpringConfig): void {
+  calculateFitness(boundary: PolygonLike, adjacencies: Adjacency[], balance: number, config: SpringConfig): void {
     this.fitnessG = this.calculateGeometricFitness(boundary, config);
     this.fitnessT = this.calculateTopologicalFitness(adjacencies, config);
 
@@ -394,11 +515,26 @@ export class Gene {
     this.fitness = (this.fitnessG * balance) + (this.fitnessT * (1 - balance));
   }
 
+  /**
+   * Area deviation: sum of relative differences between actual and target room areas.
+   * Not part of the scalar fitness; used as an optional Pareto objective.
+   */
+  calculateAreaDeviation(): number {
+    let total = 0;
+
+    for (const room of this.rooms) {
+      if (room.targetArea <= 0) continue;
+      total += Math.abs(room.width * room.height - room.targetArea) / room.targetArea;
+    }
+
+    return total;
+  }
+
   /**
    * FitnessG: Calculate total overlap area + area outside boundary
    * Enhanced with non-linear penalties for large/blocky overlaps
    */
-  private calculateGeometricFitness(boundary: Vec2[], config: SpringConfig): number {
+  private calculateGeometricFitness(boundary: PolygonLike, config: SpringConfig): number {
     let totalOverlap = 0;
     let totalOutOfBounds = 0;
 
@@ -447,11 +583,15 @@ export class Gene {
             penalty = basePenalty * compactnessBonus;
           }
 
-          totalOverlap += penalty;
+          // Covering a stair or shaft costs more than overlapping a plain room
+          totalOverlap += penalty * Math.max(kindBehavior(roomA).overlapWeight, kindBehavior(roomB).overlapWeight);
         }
       }
     }
 
+    // Covering a static obstacle counts as overlap
+    totalOverlap += this.calculateObstacleOverlap(config.obstacles);
+
     // Calculate area outside boundary for each room
     for (const room of this.rooms) {
       const roomPoly = Polygon.createRectangle(room.x, room.y, room.width, room.height);
@@ -461,7 +601,7 @@ export class Gene {
       const insideArea = Polygon.intersectionArea(boundary, roomPoly);
       const outsideArea = Math.max(0, roomArea - insideArea);
 
-      totalOutOfBounds += outsideArea;
+      totalOutOfBounds += outsideArea * kindBehavior(room).outOfBoundsWeight;
     }
 
     // CRITICAL FIX: Weighted penalty for out-of-bounds
@@ -472,6 +612,25 @@ export class Gene {
     return totalOverlap + (totalOutOfBounds * OUT_OF_BOUNDS_PENALTY_MULTIPLIER);
   }
 
+  /**
+   * Total area of movable rooms lying on top of static obstacles
+   */
+  protected calculateObstacleOverlap(obstacles: Vec2[][] | undefined): number {
+    if (!obstacles) return 0;
+
+    let total = 0;
+    for (const room of this.rooms) {
+      if (room.fixed) continue;
+
+      const roomPoly = Polygon.createRectangle(room.x, room.y, room.width, room.height);
+      for (const obstacle of obstacles) {
+        total += Polygon.intersectionArea(roomPoly, obstacle);
+      }
+    }
+
+    return total;
+  }
+
   /**
    * FitnessT: Calculate sum of distances between connected rooms
    * Uses edge-to-edge distance (gap distance) instead of center-to-center.
@@ -532,23 +691,24 @@ export class Gene {
     aspectRatioMutationRate: number | undefined,
     globalTargetRatio: number | undefined,
     config: SpringConfig,
-    adjacencies: Adjacency[]
+    adjacencies: Adjacency[],
+    rng: Random
   ): void {
     const aspectMutationRate = aspectRatioMutationRate ?? mutationRate;
 
     // FEATURE: Swap Mutation - intelligent teleport to untangle topology
-    if (config.useSwapMutation && Math.random() < (config.swapMutationRate ?? 0.1)) {
+    if (config.useSwapMutation && rng.next() < (config.swapMutationRate ?? 0.1)) {
       // Find the most beneficial swap based on adjacency distances
       const swapCandidates = this.findBestSwapCandidates(adjacencies);
 
       if (swapCandidates.length > 0) {
         // Pick a random candidate from top 3 worst connections
-        const candidate = swapCandidates[Math.floor(Math.random() * Math.min(3, swapCandidates.length))];
+        const candidate = swapCandidates[Math.floor(rng.next() * Math.min(3, swapCandidates.length))];
 
         const roomA = this.rooms.find(r => r.id === candidate.roomAId);
         const roomB = this.rooms.find(r => r.id === candidate.roomBId);
 
-        if (roomA && roomB) {
+        if (roomA && roomB && !roomA.fixed && !roomB.fixed) {
           // Swap positions only (not dimensions)
           const tempX = roomA.x;
           const tempY = roomA.y;
@@ -559,13 +719,13 @@ export class Gene {
         }
       } else {
         // Fallback to random swap if no good candidates
-        const roomAIndex = Math.floor(Math.random() * this.rooms.length);
-        const roomBIndex = Math.floor(Math.random() * this.rooms.length);
+        const roomAIndex = Math.floor(rng.next() * this.rooms.length);
+        const roomBIndex = Math.floor(rng.next() * this.rooms.length);
 
-        if (roomAIndex !== roomBIndex) {
-          const roomA = this.rooms[roomAIndex];
-          const roomB = this.rooms[roomBIndex];
+        const roomA = this.rooms[roomAIndex];
+        const roomB = this.rooms[roomBIndex];
 
+        if (roomAIndex !== roomBIndex && !roomA.fixed && !roomB.fixed) {
           const tempX = roomA.x;
           const tempY = roomA.y;
           roomA.x = roomB.x;
@@ -577,11 +737,13 @@ export class Gene {
     }
 
     for (const room of this.rooms) {
+      if (room.fixed) continue;
+
       // FEATURE: Partner Bias - move toward connected neighbors
       let mutationApplied = false;
-      if (config.usePartnerBias && Math.random() < (config.partnerBiasRate ?? 0.4)) {
+      if (config.usePartnerBias && rng.next() < (config.partnerBiasRate ?? 0.4)) {
         // Find a connected neighbor
-        const connectedNeighbor = this.findConnectedNeighbor(room, adjacencies);
+        const connectedNeighbor = this.findConnectedNeighbor(room, adjacencies, rng);
         if (connectedNeighbor) {
           // Move 70% closer to the neighbor
           const dx = (connectedNeighbor.x - room.x) * 0.7;
@@ -593,17 +755,18 @@ export class Gene {
       }
 
       // Standard position mutation (if no special mutation applied)
-      if (!mutationApplied && Math.random() < mutationRate) {
-        room.x += (Math.random() - 0.5) * mutationStrength;
-        room.y += (Math.random() - 0.5) * mutationStrength;
+      if (!mutationApplied && rng.next() < mutationRate) {
+        room.x += (rng.next() - 0.5) * mutationStrength;
+        room.y += (rng.next() - 0.5) * mutationStrength;
       }
 
       // FEATURE: Pressure-Guided Aspect Ratio Mutation
       // Rooms adapt their shape based on collision pressure instead of random mutations
-      if (Math.random() < aspectMutationRate) {
-        // Use global target ratio if provided (but not for corridors), otherwise use room-specific ratio
-        const isCorridor = room.id.startsWith('corridor-');
-        const targetRatio = (globalTargetRatio && !isCorridor) ? globalTargetRatio : room.targetRatio;
+      // Rigid kinds (stairs, shafts) keep their shape
+      const kind = kindBehavior(room);
+      if (kind.reshapes && rng.next() < aspectMutationRate) {
+        // Use global target ratio if provided (except for kinds that keep their own), otherwise use room-specific ratio
+        const targetRatio = (globalTargetRatio && !kind.ownRatio) ? globalTargetRatio : room.targetRatio;
 
         // Compute min/max ratio from targetRatio
         // Valid range: [1/targetRatio, targetRatio]
@@ -637,7 +800,7 @@ export class Gene {
 
         // Apply biased mutation: move toward pressure-indicated direction
         // Start with small random change, then add pressure bias
-        const randomChange = (Math.random() - 0.5) * 0.2; // Small random component
+        const randomChange = (rng.next() - 0.5) * 0.2; // Small random component
         let newRatio = currentRatio * (1 + randomChange + bias);
 
         // Clamp to valid range
@@ -657,7 +820,7 @@ export class Gene {
   /**
    * Find a random connected neighbor for the given room
    */
-  private findConnectedNeighbor(room: RoomStateES, adjacencies: Adjacency[]): RoomStateES | null {
+  private findConnectedNeighbor(room: RoomStateES, adjacencies: Adjacency[], rng: Random): RoomStateES | null {
     const neighbors: string[] = [];
 
     // Find all connected room IDs
@@ -674,7 +837,7 @@ export class Gene {
     }
 
     // Pick a random neighbor
-    const neighborId = neighbors[Math.floor(Math.random() * neighbors.length)];
+    const neighborId = neighbors[Math.floor(rng.next() * neighbors.length)];
     return this.rooms.find(r => r.id === neighborId) ?? null;
   }
 
@@ -762,20 +925,26 @@ export class Gene {
    * Create a new gene by crossing over this gene with another.
    * Mixes room attributes from two parent genes.
    */
-  crossover(other: Gene): Gene {
+  crossover(other: Gene, rng: Random): Gene {
     const childRooms: RoomStateES[] = [];
 
     for (let i = 0; i < this.rooms.length; i++) {
       const parentA = this.rooms[i];
       const parentB = other.rooms[i];
 
+      // Locked rooms are identical in both parents; copy them untouched
+      if (parentA.fixed) {
+        childRooms.push({ ...parentA, pressureX: 0, pressureY: 0 });
+        continue;
+      }
+
       // Randomly choose attributes from either parent
       const child: RoomStateES = {
         id: parentA.id,
-        x: Math.random() < 0.5 ? parentA.x : parentB.x,
-        y: Math.random() < 0.5 ? parentA.y : parentB.y,
-        width: Math.random() < 0.5 ? parentA.width : parentB.width,
-        height: Math.random() < 0.5 ? parentA.height : parentB.height,
+        x: rng.next() < 0.5 ? parentA.x : parentB.x,
+        y: rng.next() < 0.5 ? parentA.y : parentB.y,
+        width: rng.next() < 0.5 ? parentA.width : parentB.width,
+        height: rng.next() < 0.5 ? parentA.height : parentB.height,
         targetRatio: parentA.targetRatio,
         targetArea: parentA.targetArea,
         // Temporary pressure reset to 0 (calculated fresh each collision resolution)
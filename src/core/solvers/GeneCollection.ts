@@ -1,76 +1,153 @@
-import { Gene } from './Gene.js';
+import { Gene, GeneSnapshot } from './Gene.js';
 import { RoomStateES, Adjacency, SpringConfig } from '../../types.js';
-import { Vec2 } from '../geometry/Vector2.js';
+import { PolygonLike } from '../geometry/Polygon.js';
+import { Random } from '../../utils/Random.js';
+import { Pareto } from './Pareto.js';
+
+/**
+ * Plain JSON representation of a population
+ */
+export interface GeneCollectionSnapshot {
+  islands: GeneSnapshot[][];
+  baseRooms: RoomStateES[];
+  currentGeneration: number;
+}
 
 /**
  * Manages a population of genes for the evolutionary algorithm.
  * Handles selection, crossover, mutation, and fitness evaluation.
+ *
+ * The population is split into `config.islandCount` islands (sub-populations of
+ * `config.populationSize` genes each) that evolve independently and periodically
+ * exchange their best genes. A single island is the classic single-population GA.
  */
 export class GeneCollection {
-  private genes: Gene[] = [];
-  private boundary: Vec2[];
+  private islands: Gene[][] = [];
+  private boundary: PolygonLike;
   private adjacencies: Adjacency[];
   private config: SpringConfig;
   private globalTargetRatio: number | undefined;
   private currentGeneration: number = 0; // Track generation for simulated annealing
   private baseRooms: RoomStateES[]; // Store initial room configuration for fresh blood
+  private rng: Random; // Shared PRNG so every gene operation is reproducible from the seed
 
   constructor(
     initialRooms: RoomStateES[],
-    boundary: Vec2[],
+    boundary: PolygonLike,
     adjacencies: Adjacency[],
     config: SpringConfig,
-    globalTargetRatio?: number
+    globalTargetRatio?: number,
+    rng: Random = new Random()
   ) {
     this.boundary = boundary;
     this.adjacencies = adjacencies;
     this.config = config;
     this.globalTargetRatio = globalTargetRatio;
+    this.rng = rng;
     this.baseRooms = initialRooms; // Store for fresh blood initialization
 
-    // Initialize population with random variations
-    this.initializePopulation(initialRooms);
+    // Initialize every island with random variations
+    const islandCount = Math.max(1, Math.floor(config.islandCount ?? 1));
+    if (islandCount > 1) {
+      GeneCollection.validateMigration(config, islandCount);
+    }
+    for (let i = 0; i < islandCount; i++) {
+      this.islands.push(this.initializePopulation(initialRooms));
+    }
+  }
+
+  /**
+   * Reject migration settings that would silently never migrate (the interval modulo
+   * is NaN for 0) or replace a whole island with arrivals.
+   */
+  private static validateMigration(config: SpringConfig, islandCount: number): void {
+    const interval = config.migrationInterval ?? 10;
+    if (!Number.isInteger(interval) || interval < 1) {
+      throw new Error(`migrationInterval must be a whole number of generations >= 1, got ${interval}`);
+    }
+
+    const count = Math.max(0, Math.floor(config.migrationCount ?? 2));
+    const senders = (config.migrationTopology ?? 'ring') === 'full' ? islandCount - 1 : 1;
+    if (count * senders >= config.populationSize) {
+      throw new Error(
+        `migrationCount ${count} would replace every gene of a ${config.populationSize}-gene island ` +
+        `(${count * senders} arrivals per migration)`
+      );
+    }
   }
 
   /**
    * Create initial population by mutating the base configuration
    */
-  private initializePopulation(baseRooms: RoomStateES[]): void {
+  private initializePopulation(baseRooms: RoomStateES[]): Gene[] {
     // Create the first gene from the base configuration
     const baseGene = new Gene(baseRooms);
-    this.genes.push(baseGene);
+    const genes: Gene[] = [baseGene];
 
     // Create the rest of the population with mutations
     for (let i = 1; i < this.config.populationSize; i++) {
       const gene = baseGene.clone();
-      gene.mutate(0.5, this.config.mutationStrength * 2, this.config.aspectRatioMutationRate, this.globalTargetRatio, this.config, this.adjacencies); // Higher initial mutation
-      this.genes.push(gene);
+      gene.mutate(0.5, this.config.mutationStrength * 2, this.config.aspectRatioMutationRate, this.globalTargetRatio, this.config, this.adjacencies, this.rng); // Higher initial mutation
+      genes.push(gene);
     }
+
+    return genes;
   }
 
   /**
    * Run one generation of the evolutionary algorithm:
+   * 1. Evolve every island independently (see evolveIsland)
+   * 2. Periodically inject fresh blood
+   * 3. Periodically migrate the best genes between islands
+   */
+  iterate(): void {
+    this.islands = this.islands.map(genes => this.evolveIsland(genes));
+
+    // Increment generation counter for simulated annealing
+    this.currentGeneration++;
+
+    // FEATURE: Fresh Blood - periodically replace worst performers with new random genes
+    // This maintains genetic diversity and prevents premature convergence
+    if (this.config.useFreshBlood) {
+      const interval = this.config.freshBloodInterval ?? 20;
+
+      // Skip generation 0 (population is already random at initialization)
+      if (this.currentGeneration > 0 && this.currentGeneration % interval === 0) {
+        this.islands = this.islands.map(genes => this.injectFreshBlood(genes));
+      }
+    }
+
+    // FEATURE: Island Model - periodically exchange the best genes between sub-populations
+    if (this.islands.length > 1) {
+      const interval = this.config.migrationInterval ?? 10;
+      if (this.currentGeneration % interval === 0) {
+        this.migrate();
+      }
+    }
+  }
+
+  /**
+   * Run one generation on a single island:
    * 1. Apply squish collisions to all genes
    * 2. Evaluate fitness
-   * 3. Sort by fitness
+   * 3. Sort by fitness (or by Pareto rank when useParetoSelection is on)
    * 4. Perform crossover
    * 5. Mutate offspring
    * 6. Cull worst performers
    */
-  iterate(): void {
-
+  private evolveIsland(genes: Gene[]): Gene[] {
     // Step 1: Apply collision resolution to all genes
-    for (const gene of this.genes) {
+    for (const gene of genes) {
       gene.applySquishCollisions(this.boundary, this.config, this.globalTargetRatio);
     }
 
     // Step 2: Calculate fitness for all genes
-    for (const gene of this.genes) {
+    for (const gene of genes) {
       gene.calculateFitness(this.boundary, this.adjacencies, this.config.fitnessBalance, this.config);
     }
 
     // Step 3: Sort by fitness (lower is better)
-    this.genes.sort((a, b) => a.fitness - b.fitness);
+    genes = this.sortByRank(genes);
 
     // Step 4: Crossover - create offspring from best genes
     const offspring: Gene[] = [];
@@ -79,17 +156,17 @@ export class GeneCollection {
     // FIX: Widen the parent pool. Instead of top 50% (0.5), use top 90% (0.9) or 100%
     // This allows "worse" genes (like fresh blood) a chance to pass on diversity before dying.
     const parentPoolFraction = 0.5;
-    const parentPoolSize = Math.max(2, Math.floor(this.genes.length * parentPoolFraction));
+    const parentPoolSize = Math.max(2, Math.floor(genes.length * parentPoolFraction));
 
     for (let i = 0; i < numOffspring; i++) {
       // Select random parents from the WIDER pool
-      const parentAIndex = Math.floor(Math.random() * parentPoolSize);
-      const parentBIndex = Math.floor(Math.random() * parentPoolSize);
+      const parentAIndex = Math.floor(this.rng.next() * parentPoolSize);
+      const parentBIndex = Math.floor(this.rng.next() * parentPoolSize);
 
-      const parentA = this.genes[parentAIndex];
-      const parentB = this.genes[parentBIndex];
+      const parentA = genes[parentAIndex];
+      const parentB = genes[parentBIndex];
 
-      const child = parentA.crossover(parentB);
+      const child = parentA.crossover(parentB, this.rng);
       offspring.push(child);
     }
 
@@ -101,7 +178,8 @@ export class GeneCollection {
         this.config.aspectRatioMutationRate,
         this.globalTargetRatio,
         this.config,
-        this.adjacencies
+        this.adjacencies,
+        this.rng
       );
 
       // FEATURE: Physics Warm-Up - allow mutated genes to settle before evaluation
@@ -113,15 +191,15 @@ export class GeneCollection {
     }
 
     // Step 6: Add offspring to population
-    this.genes.push(...offspring);
+    genes.push(...offspring);
 
     // Step 7: Cull worst performers
-    const numToCull = Math.floor(this.genes.length * this.config.selectionPressure);
-    this.genes = this.genes.slice(0, this.genes.length - numToCull);
+    const numToCull = Math.floor(genes.length * this.config.selectionPressure);
+    genes = genes.slice(0, genes.length - numToCull);
 
     // Ensure we maintain minimum population size
-    while (this.genes.length < this.config.populationSize) {
-      const randomGene = this.genes[Math.floor(Math.random() * this.genes.length)];
+    while (genes.length < this.config.populationSize) {
+      const randomGene = genes[Math.floor(this.rng.next() * genes.length)];
       const clone = randomGene.clone();
       clone.mutate(
         this.config.mutationRate,
@@ -129,7 +207,8 @@ export class GeneCollection {
         this.config.aspectRatioMutationRate,
         this.globalTargetRatio,
         this.config,
-        this.adjacencies
+        this.adjacencies,
+        this.rng
       );
 
       // FEATURE: Physics Warm-Up - allow mutated genes to settle before evaluation
@@ -138,114 +217,231 @@ export class GeneCollection {
         clone.applySquishCollisions(this.boundary, this.config, this.globalTargetRatio);
       }
 
-      this.genes.push(clone);
+      genes.push(clone);
     }
 
-    // Increment generation counter for simulated annealing
-    this.currentGeneration++;
+    return genes;
+  }
 
-    // FEATURE: Fresh Blood - periodically replace worst performers with new random genes
-    // This maintains genetic diversity and prevents premature convergence
-    if (this.config.useFreshBlood) {
-      const interval = this.config.freshBloodInterval ?? 20;
+  /**
+   * Replace the worst quarter of an island with freshly incubated genes
+   */
+  private injectFreshBlood(genes: Gene[]): Gene[] {
+    // Sort by fitness to identify worst performers (lower is better, so worst are at the end)
+    genes = this.sortByRank(genes);
+
+    // Replace worst quarter with fresh random genes
+    const quarterSize = Math.floor(genes.length / 4);
+    const numToReplace = Math.max(1, quarterSize); // At least 1
+
+    // Keep the best 75%
+    genes = genes.slice(0, genes.length - numToReplace);
+
+    // PREPARE INCUBATION CONFIG
+    // Create a "Hyper-Active" config for the warm-up phase to force topological untangling
+    const incubationConfig: SpringConfig = {
+      ...this.config,
+      // Force topological tools ON with aggressive parameters
+      useSwapMutation: true,
+      swapMutationRate: 0.5,           // Very high swap rate to untangle crossed rooms
+      usePartnerBias: true,
+      partnerBiasRate: 0.8,            // Very high attraction to connected neighbors
+    };
 
-      // Skip generation 0 (population is already random at initialization)
-      if (this.currentGeneration > 0 && this.currentGeneration % interval === 0) {
-        // Sort by fitness to identify worst performers (lower is better, so worst are at the end)
-        this.genes.sort((a, b) => a.fitness - b.fitness);
-
-        // Replace worst quarter with fresh random genes
-        const quarterSize = Math.floor(this.genes.length / 4);
-        const numToReplace = Math.max(1, quarterSize); // At least 1
-
-        // Keep the best 75%
-        this.genes = this.genes.slice(0, this.genes.length - numToReplace);
-
-        // PREPARE INCUBATION CONFIG
-        // Create a "Hyper-Active" config for the warm-up phase to force topological untangling
-        const incubationConfig: SpringConfig = {
-          ...this.config,
-          // Force topological tools ON with aggressive parameters
-          useSwapMutation: true,
-          swapMutationRate: 0.5,           // Very high swap rate to untangle crossed rooms
-          usePartnerBias: true,
-          partnerBiasRate: 0.8,            // Very high attraction to connected neighbors
-        };
-
-        // Generate fresh genes and run INCUBATION PHASE
-        for (let i = 0; i < numToReplace; i++) {
-          // 1. INITIAL POSITION RESET: Use original room positions from initialization
-          // This ensures fresh blood gets the same starting point as initializePopulation
-          const freshGene = new Gene(this.baseRooms);
-
-          // Reset dimensions to initial target values (removes any "squished" bias)
-          // and reset accumulated pressure history to prevent momentum carryover
-          for (const room of freshGene.rooms) {
-            room.width = Math.sqrt(room.targetArea * room.targetRatio);
-            room.height = room.targetArea / room.width;
-            room.accumulatedPressureX = 0;
-            room.accumulatedPressureY = 0;
-          }
-
-          // 2. INCUBATION PHASE: The "Mini-Evolution" / "Boot Camp"
-          // Run a private, accelerated evolution loop to untangle topology before
-          // this gene joins the main population. This prevents "survival of the luckiest"
-          // by allowing the fresh gene to organize itself first.
-          const warmUpSteps = this.config.freshBloodWarmUp || 100;
-
-          for (let j = 0; j < warmUpSteps; j++) {
-            // Step A: AGGRESSIVE MUTATION (The "Pull")
-            // Force topological untangling through swaps, partner attraction, and centering
-            freshGene.mutate(
-              0.9,                                    // 90% chance to mutate (very high activity)
-              this.config.mutationStrength * 3.0,    // Violent movement allowed for rapid organization
-              1.0,                                    // 100% aspect ratio adaptation for shape flexibility
-              this.globalTargetRatio,
-              incubationConfig,                       // Use hyper-active config
-              this.adjacencies
-            );
-
-            // Step B: PHYSICS RESOLUTION (The "Push")
-            // Resolve overlaps and boundary violations created by aggressive mutation
-            freshGene.applySquishCollisions(this.boundary, incubationConfig, this.globalTargetRatio);
-          }
-
-          // 3. GRADUATION
-          // The gene is now "incubated" and ready to join the main population
-          // Final collision pass to ensure valid state
-          freshGene.applySquishCollisions(this.boundary, this.config, this.globalTargetRatio);
-
-          // CRITICAL: Calculate fitness so the gene can compete fairly
-          // Without this, fresh genes inherit the best fitness from templateGene.clone()
-          // which breaks selection pressure (random genes masquerading as elite)
-          freshGene.calculateFitness(
-            this.boundary,
-            this.adjacencies,
-            this.config.fitnessBalance,
-            this.config
-          );
-
-          this.genes.push(freshGene);
+    // Generate fresh genes and run INCUBATION PHASE
+    for (let i = 0; i < numToReplace; i++) {
+      // 1. INITIAL POSITION RESET: Use original room positions from initialization
+      // This ensures fresh blood gets the same starting point as initializePopulation
+      const freshGene = new Gene(this.baseRooms);
+
+      // Reset dimensions to initial target values (removes any "squished" bias)
+      // and reset accumulated pressure history to prevent momentum carryover
+      for (const room of freshGene.rooms) {
+        if (room.fixed) continue; // Locked rooms keep their given size
+
+        room.width = Math.sqrt(room.targetArea * room.targetRatio);
+        room.height = room.targetArea / room.width;
+        room.accumulatedPressureX = 0;
+        room.accumulatedPressureY = 0;
+      }
+
+      // 2. INCUBATION PHASE: The "Mini-Evolution" / "Boot Camp"
+      // Run a private, accelerated evolution loop to untangle topology before
+      // this gene joins the main population. This prevents "survival of the luckiest"
+      // by allowing the fresh gene to organize itself first.
+      const warmUpSteps = this.config.freshBloodWarmUp || 100;
+
+      for (let j = 0; j < warmUpSteps; j++) {
+        // Step A: AGGRESSIVE MUTATION (The "Pull")
+        // Force topological untangling through swaps, partner attraction, and centering
+        freshGene.mutate(
+          0.9,                                    // 90% chance to mutate (very high activity)
+          this.config.mutationStrength * 3.0,    // Violent movement allowed for rapid organization
+          1.0,                                    // 100% aspect ratio adaptation for shape flexibility
+          this.globalTargetRatio,
+          incubationConfig,                       // Use hyper-active config
+          this.adjacencies,
+          this.rng
+        );
+
+        // Step B: PHYSICS RESOLUTION (The "Push")
+        // Resolve overlaps and boundary violations created by aggressive mutation
+        freshGene.applySquishCollisions(this.boundary, incubationConfig, this.globalTargetRatio);
+      }
+
+      // 3. GRADUATION
+      // The gene is now "incubated" and ready to join the main population
+      // Final collision pass to ensure valid state
+      freshGene.applySquishCollisions(this.boundary, this.config, this.globalTargetRatio);
+
+      // CRITICAL: Calculate fitness so the gene can compete fairly
+      // Without this, fresh genes inherit the best fitness from templateGene.clone()
+      // which breaks selection pressure (random genes masquerading as elite)
+      freshGene.calculateFitness(
+        this.boundary,
+        this.adjacencies,
+        this.config.fitnessBalance,
+        this.config
+      );
+
+      genes.push(freshGene);
+    }
+
+    return genes;
+  }
+
+  /**
+   * Send clones of each island's best genes to its neighbours (ring) or to every other
+   * island (full). Migrants replace the receiving island's worst genes.
+   */
+  private migrate(): void {
+    const count = Math.max(0, Math.floor(this.config.migrationCount ?? 2));
+    if (count === 0) return;
+
+    const topology = this.config.migrationTopology ?? 'ring';
+    const n = this.islands.length;
+
+    // Pick all emigrants before inserting any, so the result does not depend on island order
+    const emigrants = this.islands.map(genes =>
+      this.sortByRank(genes).slice(0, count)
+    );
+
+    const arrivals: Gene[][] = this.islands.map(() => []);
+    for (let i = 0; i < n; i++) {
+      if (topology === 'full') {
+        for (let j = 0; j < n; j++) {
+          if (j !== i) arrivals[j].push(...emigrants[i].map(g => g.clone()));
         }
-        console.log(`[Fresh Blood] Gen ${this.currentGeneration}: Injected ${numToReplace} fresh genes into main pool (replaced worst performers)`);
+      } else {
+        arrivals[(i + 1) % n].push(...emigrants[i].map(g => g.clone()));
       }
     }
+
+    this.islands = this.islands.map((genes, i) => {
+      const incoming = arrivals[i];
+      const sorted = this.sortByRank(genes);
+      const kept = sorted.slice(0, Math.max(0, sorted.length - incoming.length));
+      return [...kept, ...incoming];
+    });
+  }
+
+  /**
+   * Return a copy of `genes` ordered best first: by scalar fitness, or with
+   * useParetoSelection by NSGA-II front rank and then crowding distance.
+   */
+  private sortByRank(genes: Gene[]): Gene[] {
+    if (!this.config.useParetoSelection) {
+      return [...genes].sort((a, b) => a.fitness - b.fitness);
+    }
+
+    const objectives = genes.map(g => this.getObjectives(g));
+    return Pareto.rank(objectives).map(i => genes[i]);
+  }
+
+  /**
+   * Objective vector used for Pareto ranking (all minimized).
+   * Genes that have not been evaluated yet are treated as dominated by everything.
+   */
+  private getObjectives(gene: Gene): number[] {
+    const objectives = Number.isFinite(gene.fitness)
+      ? [gene.fitnessG, gene.fitnessT]
+      : [Infinity, Infinity];
+
+    if (this.config.paretoAreaObjective) {
+      objectives.push(Number.isFinite(gene.fitness) ? gene.calculateAreaDeviation() : Infinity);
+    }
+
+    return objectives;
+  }
+
+  /**
+   * Get the distinct non-dominated genes across all islands, sorted by geometric fitness.
+   * Works whether or not useParetoSelection drove the run.
+   */
+  getParetoFront(): Gene[] {
+    const evaluated = this.getAll().filter(g => Number.isFinite(g.fitness));
+    if (evaluated.length === 0) return [];
+
+    const objectives = evaluated.map(g => this.getObjectives(g));
+    const [front] = Pareto.nonDominatedSort(objectives);
+
+    // Islands and elitism keep copies of the same layout around; report each only once
+    const seen = new Set<string>();
+    const distinct: Gene[] = [];
+    for (const index of front) {
+      const gene = evaluated[index];
+      const key = gene.rooms
+        .map(r => `${r.id}:${r.x.toFixed(3)},${r.y.toFixed(3)},${r.width.toFixed(3)},${r.height.toFixed(3)}`)
+        .join('|');
+
+      if (seen.has(key)) continue;
+      seen.add(key);
+      distinct.push(gene);
+    }
+
+    return distinct.sort((a, b) => a.fitnessG - b.fitnessG);
   }
 
   /**
-   * Get the best gene (lowest fitness)
+   * Get the best gene (lowest fitness) across all islands.
+   * Does not reorder the population, so observing a run never changes its outcome.
    */
   getBest(): Gene {
-    // Ensure genes are sorted
-    this.genes.sort((a, b) => a.fitness - b.fitness);
-    return this.genes[0];
+    return this.getAll().reduce((best, gene) => (gene.fitness < best.fitness ? gene : best));
   }
 
   /**
-   * Get all genes in the population
+   * Get all genes in the population (all islands, in island order)
    */
   getAll(): Gene[] {
-    return [...this.genes];
+    return this.islands.flat();
+  }
+
+  /**
+   * Get the genes of each island
+   */
+  getIslands(): Gene[][] {
+    return this.islands.map(genes => [...genes]);
+  }
+
+  /**
+   * Serialize the population to plain JSON
+   */
+  toSnapshot(): GeneCollectionSnapshot {
+    return {
+      islands: this.islands.map(genes => genes.map(g => g.toSnapshot())),
+      baseRooms: this.baseRooms.map(r => ({ ...r })),
+      currentGeneration: this.currentGeneration,
+    };
+  }
+
+  /**
+   * Replace the population with the contents of a snapshot produced by toSnapshot()
+   */
+  restoreSnapshot(snapshot: GeneCollectionSnapshot): void {
+    this.islands = snapshot.islands.map(genes => genes.map(g => Gene.fromSnapshot(g)));
+    this.baseRooms = snapshot.baseRooms.map(r => ({ ...r }));
+    this.currentGeneration = snapshot.currentGeneration;
   }
 
   /**
@@ -258,7 +454,9 @@ export class GeneCollection {
     bestFitnessG: number;
     bestFitnessT: number;
   } {
-    if (this.genes.length === 0) {
+    const genes = this.getAll();
+
+    if (genes.length === 0) {
       return {
         bestFitness: Infinity,
         worstFitness: Infinity,
@@ -268,7 +466,7 @@ export class GeneCollection {
       };
     }
 
-    const fitnesses = this.genes.map(g => g.fitness);
+    const fitnesses = genes.map(g => g.fitness);
     const best = this.getBest();
 
     return {
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { MultiFloorSolver, VerticalElement } from './MultiFloorSolver.js';
+import { Vec2 } from '../geometry/Vector2.js';
+import { RoomRequest, Adjacency } from '../../types.js';
+
+describe('MultiFloorSolver', () => {
+  const createBoundary = (): Vec2[] => [
+    { x: 0, y: 0 },
+    { x: 20, y: 0 },
+    { x: 20, y: 20 },
+    { x: 0, y: 20 },
+  ];
+
+  const createRooms = (): RoomRequest[] => [
+    { id: 'living', targetArea: 60, targetRatio: 1.5, floor: 0 },
+    { id: 'kitchen', targetArea: 30, targetRatio: 1.5 },
+    { id: 'bed1', targetArea: 40, targetRatio: 1.5, floor: 1 },
+    { id: 'bed2', targetArea: 40, targetRatio: 1.5 },
+    { id: 'bath', targetArea: 20, targetRatio: 1.5 },
+  ];
+
+  const adjacencies: Adjacency[] = [
+    { a: 'living', b: 'kitchen' },
+    { a: 'bed1', b: 'bed2' },
+    { a: 'bed1', b: 'bath' },
+  ];
+
+  const stair: VerticalElement = { id: 'stair', x: 16, y: 0, width: 4, height: 6 };
+
+  describe('constructor', () => {
+    it('should keep pinned rooms on their floor and assign the rest', () => {
+      const solver = new MultiFloorSolver([createBoundary(), createBoundary()], createRooms(), adjacencies, [stair], {}, 1);
+      const assignment = solver.getAssignment();
+
+      expect(assignment.get('living')).toBe(0);
+      expect(assignment.get('bed1')).toBe(1);
+      expect(assignment.size).toBe(5);
+      // Adjacency pulls partners onto the pinned room's floor
+      expect(assignment.get('kitchen')).toBe(0);
+      expect(assignment.get('bath')).toBe(1);
+    });
+
+    it('should reject rooms pinned to missing floors', () => {
+      const rooms: RoomRequest[] = [{ id: 'attic', targetArea: 10, targetRatio: 1, floor: 3 }];
+      expect(() => new MultiFloorSolver([createBoundary()], rooms, [])).toThrow('pinned to floor 3');
+    });
+
+    it('should reject vertical elements serving missing floors', () => {
+      const shaft: VerticalElement = { id: 'shaft', x: 0, y: 0, width: 2, height: 2, floors: [0, 2] };
+      expect(() => new MultiFloorSolver([createBoundary(), createBoundary()], [], [], [shaft])).toThrow('serves floor 2');
+    });
+  });
+
+  describe('solve', () => {
+    for (const solverKind of ['spring', 'discrete'] as const) {
+      it(`should align vertical elements on every floor (${solverKind})`, () => {
+        const solver = new MultiFloorSolver(
+          [createBoundary(), createBoundary()],
+          createRooms(),
+          adjacencies,
+          [stair],
+          { solver: solverKind, generations: 10, candidatesPerFloor: 2, discrete: { maxIterations: 20 } },
+          2
+        );
+
+        const result = solver.solve();
+
+        expect(result.floors).toHaveLength(2);
+        for (const layout of result.floors) {
+          const placedStair = layout.rooms.find(r => r.id === 'stair');
+          expect(placedStair).toMatchObject({ x: 16, y: 0, width: 4, height: 6, floor: layout.floor });
+          expect(layout.rooms.every(r => r.floor === layout.floor)).toBe(true);
+        }
+
+        expect(result.assignment.bed1).toBe(1);
+        expect(Number.isFinite(result.totalFitness)).toBe(true);
+        expect(result.crossFloorCost).toBeGreaterThanOrEqual(0);
+      });
+    }
+
+    it('should be deterministic for a seed', () => {
+      const run = () => new MultiFloorSolver(
+        [createBoundary(), createBoundary()],
+        createRooms(),
+        adjacencies,
+        [stair],
+        { generations: 5, candidatesPerFloor: 2 },
+        3
+      ).solve();
+
+      expect(run()).toEqual(run());
+    });
+  });
+});
@@ -0,0 +1,400 @@
+import { Adjacency, DiscreteConfig, RoomKind, RoomRequest, RoomState, SpringConfig } from '../../types.js';
+import { Polygon, PolygonLike } from '../geometry/Polygon.js';
+import { Random } from '../../utils/Random.js';
+import { SpringSolver } from './SpringSolver.js';
+import { DiscreteSolver } from './DiscreteSolver.js';
+import { assertValidProgram } from '../validation/validateProgram.js';
+import { DEFAULT_GRID_RESOLUTION } from '../../constants.js';
+
+const DEFAULT_GENERATIONS = 100;
+const DEFAULT_CANDIDATES_PER_FLOOR = 3;
+const DEFAULT_VERTICAL_ADJACENCY_WEIGHT = 0.5;
+
+// Floor assignment: how strongly an over-full floor is avoided relative to fill ratio
+const OVERFLOW_PENALTY = 10;
+
+/**
+ * An element that occupies the same footprint on every floor it serves (stairs, shafts, lifts).
+ * Coordinates are in boundary units; it is locked in place on each floor solve.
+ */
+export interface VerticalElement {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  kind?: RoomKind;   // Usually 'stair' or 'shaft'
+  floors?: number[]; // Floor indices served (default: every floor)
+}
+
+export interface MultiFloorConfig {
+  solver: 'spring' | 'discrete';   // Per-floor solver
+  generations: number;             // SpringSolver generations per candidate layout
+  candidatesPerFloor: number;      // Independent seeds solved per floor; the best combination is kept
+  verticalAdjacencyWeight: number; // Weight of the cross-floor term (adjacent rooms on different floors)
+  spring?: Partial<SpringConfig>;
+  discrete?: Partial<DiscreteConfig>;
+  strict?: boolean;                // Run validateProgram over all floors and throw on errors
+}
+
+export interface FloorLayout {
+  floor: number;
+  rooms: RoomState[]; // Rooms and vertical elements on this floor, in boundary units
+  fitness: number;    // Per-floor fitness (lower is better; DiscreteSolver scores are negated)
+}
+
+export interface MultiFloorResult {
+  floors: FloorLayout[];
+  assignment: Record<string, number>; // Room id -> floor index
+  crossFloorCost: number;             // Unweighted cross-floor adjacency term
+  totalFitness: number;               // Sum of floor fitness + weighted cross-floor term
+}
+
+/**
+ * Multi-storey solver.
+ * Assigns rooms to floors, then solves each floor with SpringSolver or DiscreteSolver
+ * (vertical elements become fixed rooms, so they line up across floors) and picks,
+ * floor by floor, the candidate layout that best keeps cross-floor adjacencies stacked.
+ */
+export class MultiFloorSolver {
+  private boundaries: PolygonLike[];
+  private rooms: RoomRequest[];
+  private adjacencies: Adjacency[];
+  private verticalElements: VerticalElement[];
+  private config: MultiFloorConfig;
+  private rng: Random;
+  private assignment: Map<string, number>;
+
+  constructor(
+    boundaries: PolygonLike[],
+    rooms: RoomRequest[],
+    adjacencies: Adjacency[],
+    verticalElements: VerticalElement[] = [],
+    config: Partial<MultiFloorConfig> = {},
+    seed: number = Date.now()
+  ) {
+    if (boundaries.length === 0) {
+      throw new Error('MultiFloorSolver needs at least one floor boundary');
+    }
+
+    if (config.strict) {
+      assertValidProgram(boundaries, rooms, adjacencies);
+    }
+
+    this.boundaries = boundaries;
+    this.rooms = [...rooms];
+    this.adjacencies = adjacencies;
+    this.verticalElements = verticalElements;
+    this.rng = new Random(seed);
+
+    this.config = {
+      solver: config.solver ?? 'spring',
+      generations: config.generations ?? DEFAULT_GENERATIONS,
+      candidatesPerFloor: Math.max(1, config.candidatesPerFloor ?? DEFAULT_CANDIDATES_PER_FLOOR),
+      verticalAdjacencyWeight: config.verticalAdjacencyWeight ?? DEFAULT_VERTICAL_ADJACENCY_WEIGHT,
+      spring: config.spring,
+      discrete: config.discrete,
+      strict: config.strict,
+    };
+
+    this.validate();
+    this.assignment = this.assignFloors();
+  }
+
+  /**
+   * Reject pinned floors and vertical elements that reference missing floors, and id clashes
+   */
+  private validate(): void {
+    const floorCount = this.boundaries.length;
+    const isFloor = (f: number) => Number.isInteger(f) && f >= 0 && f < floorCount;
+
+    for (const room of this.rooms) {
+      if (room.floor !== undefined && !isFloor(room.floor)) {
+        throw new Error(`Room "${room.id}" is pinned to floor ${room.floor}, but there are ${floorCount} floors`);
+      }
+    }
+
+    const roomIds = new Set(this.rooms.map(r => r.id));
+    for (const element of this.verticalElements) {
+      if (roomIds.has(element.id)) {
+        throw new Error(`Vertical element "${element.id}" has the same id as a room`);
+      }
+      for (const floor of element.floors ?? []) {
+        if (!isFloor(floor)) {
+          throw new Error(`Vertical element "${element.id}" serves floor ${floor}, but there are ${floorCount} floors`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Greedy floor assignment. Pinned rooms keep their floor; the rest go, most connected
+   * first, to the floor with the lowest fill ratio plus cross-floor adjacency penalty.
+   */
+  private assignFloors(): Map<string, number> {
+    const assignment = new Map<string, number>();
+    const floorCount = this.boundaries.length;
+
+    // Usable area per floor: boundary minus the vertical elements that cut through it
+    const capacity = this.boundaries.map((boundary, floor) => {
+      const elementArea = this.elementsOnFloor(floor).reduce((sum, e) => sum + e.width * e.height, 0);
+      return Math.max(1, Polygon.area(boundary) - elementArea);
+    });
+    const load = new Array<number>(floorCount).fill(0);
+
+    for (const room of this.rooms) {
+      if (room.floor !== undefined) {
+        assignment.set(room.id, room.floor);
+        load[room.floor] += room.targetArea;
+      }
+    }
+
+    const degree = new Map<string, number>();
+    for (const adj of this.adjacencies) {
+      degree.set(adj.a, (degree.get(adj.a) ?? 0) + (adj.weight ?? 1));
+      degree.set(adj.b, (degree.get(adj.b) ?? 0) + (adj.weight ?? 1));
+    }
+
+    const unpinned = this.rooms
+      .filter(room => room.floor === undefined)
+      .sort((a, b) =>
+        (degree.get(b.id) ?? 0) - (degree.get(a.id) ?? 0) ||
+        b.targetArea - a.targetArea ||
+        a.id.localeCompare(b.id)
+      );
+
+    for (const room of unpinned) {
+      let bestFloor = 0;
+      let bestScore = Infinity;
+
+      for (let floor = 0; floor < floorCount; floor++) {
+        const fill = (load[floor] + room.targetArea) / capacity[floor];
+        const overflow = Math.max(0, fill - 1);
+
+        let crossFloor = 0;
+        for (const adj of this.adjacencies) {
+          const partnerId = adj.a === room.id ? adj.b : adj.b === room.id ? adj.a : null;
+          const partnerFloor = partnerId !== null ? assignment.get(partnerId) : undefined;
+          if (partnerFloor !== undefined) {
+            crossFloor += Math.abs(partnerFloor - floor) * (adj.weight ?? 1);
+          }
+        }
+
+        const score = fill + overflow * OVERFLOW_PENALTY + crossFloor * this.config.verticalAdjacencyWeight;
+        if (score < bestScore) {
+          bestScore = score;
+          bestFloor = floor;
+        }
+      }
+
+      assignment.set(room.id, bestFloor);
+      load[bestFloor] += room.targetArea;
+    }
+
+    return assignment;
+  }
+
+  private elementsOnFloor(floor: number): VerticalElement[] {
+    return this.verticalElements.filter(e => !e.floors || e.floors.includes(floor));
+  }
+
+  /**
+   * Adjacencies whose rooms (or vertical elements) both exist on this floor
+   */
+  private adjacenciesOnFloor(floor: number): Adjacency[] {
+    const ids = new Set([
+      ...this.rooms.filter(r => this.assignment.get(r.id) === floor).map(r => r.id),
+      ...this.elementsOnFloor(floor).map(e => e.id),
+    ]);
+    return this.adjacencies.filter(adj => ids.has(adj.a) && ids.has(adj.b));
+  }
+
+  /**
+   * Get the room -> floor assignment used by solve()
+   */
+  getAssignment(): Map<string, number> {
+    return new Map(this.assignment);
+  }
+
+  /**
+   * Solve every floor and return the combined result
+   */
+  solve(): MultiFloorResult {
+    const chosen: FloorLayout[] = [];
+
+    for (let floor = 0; floor < this.boundaries.length; floor++) {
+      let best: FloorLayout | null = null;
+      let bestScore = Infinity;
+
+      for (let c = 0; c < this.config.candidatesPerFloor; c++) {
+        const candidate = this.solveFloor(floor, this.rng.nextInt(0, 0x7fffffff));
+        const score = candidate.fitness +
+          this.config.verticalAdjacencyWeight * this.calculateCrossFloorCost([...chosen, candidate]);
+
+        if (score < bestScore) {
+          bestScore = score;
+          best = candidate;
+        }
+      }
+
+      chosen.push(best!);
+    }
+
+    const crossFloorCost = this.calculateCrossFloorCost(chosen);
+
+    return {
+      floors: chosen,
+      assignment: Object.fromEntries(this.assignment),
+      crossFloorCost,
+      totalFitness: chosen.reduce((sum, f) => sum + f.fitness, 0) + this.config.verticalAdjacencyWeight * crossFloorCost,
+    };
+  }
+
+  /**
+   * Solve one floor with the configured solver
+   */
+  private solveFloor(floor: number, seed: number): FloorLayout {
+    const boundary = this.boundaries[floor];
+    const requests = this.rooms.filter(r => this.assignment.get(r.id) === floor);
+    const elements = this.elementsOnFloor(floor);
+    const adjacencies = this.adjacenciesOnFloor(floor);
+
+    const layout = this.config.solver === 'discrete'
+      ? this.solveDiscreteFloor(boundary, requests, elements, adjacencies, seed)
+      : this.solveSpringFloor(boundary, requests, elements, adjacencies, seed);
+
+    return {
+      floor,
+      rooms: layout.rooms.map(r => ({ ...r, floor })),
+      fitness: layout.fitness,
+    };
+  }
+
+  private solveSpringFloor(
+    boundary: PolygonLike,
+    requests: RoomRequest[],
+    elements: VerticalElement[],
+    adjacencies: Adjacency[],
+    seed: number
+  ): { rooms: RoomState[]; fitness: number } {
+    const rng = new Random(seed);
+    const aabb = Polygon.calculateAABB(Polygon.outerRing(boundary));
+
+    const rooms: RoomState[] = requests.map(request => {
+      const width = Math.sqrt(request.targetArea);
+      const height = request.targetArea / width;
+      return {
+        id: request.id,
+        x: aabb.minX + rng.next() * Math.max(0, aabb.maxX - aabb.minX - width),
+        y: aabb.minY + rng.next() * Math.max(0, aabb.maxY - aabb.minY - height),
+        width,
+        height,
+        vx: 0,
+        vy: 0,
+        targetRatio: request.targetRatio,
+        kind: request.kind,
+      };
+    });
+
+    for (const element of elements) {
+      rooms.push({
+        id: element.id,
+        x: element.x,
+        y: element.y,
+        width: element.width,
+        height: element.height,
+        vx: 0,
+        vy: 0,
+        targetRatio: Math.max(element.width / element.height, element.height / element.width),
+        kind: element.kind,
+        fixed: true,
+      });
+    }
+
+    const solver = new SpringSolver(rooms, boundary, adjacencies, this.config.spring ?? {}, undefined, seed);
+    solver.simulate(this.config.generations);
+
+    return { rooms: solver.getState(), fitness: solver.getStats().bestFitness };
+  }
+
+  private solveDiscreteFloor(
+    boundary: PolygonLike,
+    requests: RoomRequest[],
+    elements: VerticalElement[],
+    adjacencies: Adjacency[],
+    seed: number
+  ): { rooms: RoomState[]; fitness: number } {
+    const resolution = this.config.discrete?.gridResolution ?? DEFAULT_GRID_RESOLUTION;
+
+    const elementRequests: RoomRequest[] = elements.map(element => ({
+      id: element.id,
+      targetArea: element.width * element.height,
+      targetRatio: Math.max(element.width / element.height, element.height / element.width),
+      kind: element.kind,
+      fixed: true,
+      placement: {
+        x: Math.round(element.x / resolution),
+        y: Math.round(element.y / resolution),
+        width: Math.round(element.width / resolution),
+        height: Math.round(element.height / resolution),
+      },
+    }));
+
+    const allRequests = [...requests, ...elementRequests];
+    const solver = new DiscreteSolver(boundary, allRequests, adjacencies, this.config.discrete ?? {}, seed);
+    const result = solver.run();
+
+    // Convert placed rooms from grid cells back to boundary units
+    const rooms: RoomState[] = [];
+    for (const placed of solver.getPlacedRooms().values()) {
+      const request = allRequests.find(r => r.id === placed.id)!;
+      rooms.push({
+        id: placed.id,
+        x: placed.x * resolution,
+        y: placed.y * resolution,
+        width: placed.width * resolution,
+        height: placed.height * resolution,
+        vx: 0,
+        vy: 0,
+        targetRatio: request.targetRatio,
+        kind: request.kind,
+        fixed: request.fixed,
+      });
+    }
+
+    // DiscreteSolver maximizes its score; negate so lower is better like the other solvers
+    return { rooms, fitness: -result.bestFitness };
+  }
+
+  /**
+   * Cross-floor term: for every adjacency between rooms on different floors, the plan-view
+   * gap between their footprints times the number of floors between them. Zero when
+   * connected rooms are stacked on top of each other. Vertical elements are skipped:
+   * they exist on every floor they serve and are aligned by construction.
+   */
+  private calculateCrossFloorCost(floors: FloorLayout[]): number {
+    const elementIds = new Set(this.verticalElements.map(e => e.id));
+    const placed = new Map<string, RoomState & { floor: number }>();
+    for (const layout of floors) {
+      for (const room of layout.rooms) {
+        if (!elementIds.has(room.id)) {
+          placed.set(room.id, { ...room, floor: layout.floor });
+        }
+      }
+    }
+
+    let cost = 0;
+    for (const adj of this.adjacencies) {
+      const roomA = placed.get(adj.a);
+      const roomB = placed.get(adj.b);
+      if (!roomA || !roomB || roomA.floor === roomB.floor) continue;
+
+      const gapX = Math.max(0, Math.abs((roomA.x + roomA.width / 2) - (roomB.x + roomB.width / 2)) - (roomA.width + roomB.width) / 2);
+      const gapY = Math.max(0, Math.abs((roomA.y + roomA.height / 2) - (roomB.y + roomB.height / 2)) - (roomA.height + roomB.height) / 2);
+
+      cost += Math.sqrt(gapX * gapX + gapY * gapY) * Math.abs(roomA.floor - roomB.floor) * (adj.weight ?? 1);
+    }
+
+    return cost;
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { Pareto } from './Pareto.js';
+
+describe('Pareto', () => {
+  describe('dominates', () => {
+    it('should require no worse in all and better in one objective', () => {
+      expect(Pareto.dominates([1, 1], [2, 2])).toBe(true);
+      expect(Pareto.dominates([1, 2], [1, 3])).toBe(true);
+      expect(Pareto.dominates([1, 1], [1, 1])).toBe(false);
+      expect(Pareto.dominates([1, 3], [2, 2])).toBe(false);
+    });
+  });
+
+  describe('nonDominatedSort', () => {
+    it('should split solutions into successive fronts', () => {
+      const objectives = [
+        [1, 5], // front 0
+        [5, 1], // front 0
+        [3, 3], // front 0
+        [4, 4], // front 1 (dominated by [3, 3])
+        [6, 6], // front 2
+      ];
+
+      const fronts = Pareto.nonDominatedSort(objectives);
+
+      expect(fronts).toHaveLength(3);
+      expect([...fronts[0]].sort()).toEqual([0, 1, 2]);
+      expect(fronts[1]).toEqual([3]);
+      expect(fronts[2]).toEqual([4]);
+    });
+
+    it('should return no fronts for no solutions', () => {
+      expect(Pareto.nonDominatedSort([])).toEqual([]);
+    });
+  });
+
+  describe('crowdingDistance', () => {
+    it('should give boundary solutions infinite distance', () => {
+      const objectives = [[1, 5], [2, 4], [5, 1]];
+      const distance = Pareto.crowdingDistance(objectives, [0, 1, 2]);
+
+      expect(distance[0]).toBe(Infinity);
+      expect(distance[2]).toBe(Infinity);
+      expect(distance[1]).toBeGreaterThan(0);
+      expect(Number.isFinite(distance[1])).toBe(true);
+    });
+  });
+
+  describe('rank', () => {
+    it('should order by front, then by crowding distance', () => {
+      const objectives = [[6, 6], [1, 5], [2, 4], [3, 3.5], [5, 1]];
+      const order = Pareto.rank(objectives);
+
+      expect(order[order.length - 1]).toBe(0);
+      expect(order.slice(0, 2).sort()).toEqual([1, 4]);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * NSGA-II helpers for multi-objective ranking.
+ * Every objective is minimized; an objective vector is one number per objective.
+ */
+export class Pareto {
+  /**
+   * True if `a` is no worse than `b` in every objective and strictly better in at least one
+   */
+  static dominates(a: number[], b: number[]): boolean {
+    let strictlyBetter = false;
+
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] > b[i]) return false;
+      if (a[i] < b[i]) strictlyBetter = true;
+    }
+
+    return strictlyBetter;
+  }
+
+  /**
+   * Fast non-dominated sort (Deb et al. 2002).
+   * Returns the fronts as lists of indices into `objectives`; front 0 is the Pareto front.
+   */
+  static nonDominatedSort(objectives: number[][]): number[][] {
+    const n = objectives.length;
+    const dominatedBy: number[][] = objectives.map(() => []); // Indices each solution dominates
+    const dominationCount = new Array<number>(n).fill(0);     // How many solutions dominate each one
+    const fronts: number[][] = [[]];
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Pareto.dominates(objectives[p], objectives[q])) {
+          dominatedBy[p].push(q);
+          dominationCount[q]++;
+        } else if (Pareto.dominates(objectives[q], objectives[p])) {
+          dominatedBy[q].push(p);
+          dominationCount[p]++;
+        }
+      }
+    }
+
+    for (let p = 0; p < n; p++) {
+      if (dominationCount[p] === 0) fronts[0].push(p);
+    }
+
+    let current = 0;
+    while (fronts[current].length > 0) {
+      const next: number[] = [];
+
+      for (const p of fronts[current]) {
+        for (const q of dominatedBy[p]) {
+          dominationCount[q]--;
+          if (dominationCount[q] === 0) next.push(q);
+        }
+      }
+
+      fronts.push(next);
+      current++;
+    }
+
+    fronts.pop(); // Last front is always empty
+    return fronts;
+  }
+
+  /**
+   * Crowding distance of each member of a front (same order as `front`).
+   * Boundary solutions get Infinity so the extremes of the front are always kept.
+   */
+  static crowdingDistance(objectives: number[][], front: number[]): number[] {
+    const distance = new Array<number>(front.length).fill(0);
+    if (front.length === 0) return distance;
+
+    const objectiveCount = objectives[front[0]].length;
+
+    for (let m = 0; m < objectiveCount; m++) {
+      const order = front.map((_, i) => i).sort((a, b) => objectives[front[a]][m] - objectives[front[b]][m]);
+
+      const min = objectives[front[order[0]]][m];
+      const max = objectives[front[order[order.length - 1]]][m];
+
+      distance[order[0]] = Infinity;
+      distance[order[order.length - 1]] = Infinity;
+
+      const range = max - min;
+      if (range <= 0) continue;
+
+      for (let i = 1; i < order.length - 1; i++) {
+        const prev = objectives[front[order[i - 1]]][m];
+        const next = objectives[front[order[i + 1]]][m];
+        distance[order[i]] += (next - prev) / range;
+      }
+    }
+
+    return distance;
+  }
+
+  /**
+   * NSGA-II ordering: indices sorted by front rank (ascending), then crowding distance (descending)
+   */
+  static rank(objectives: number[][]): number[] {
+    const ordered: number[] = [];
+
+    for (const front of Pareto.nonDominatedSort(objectives)) {
+      const distance = Pareto.crowdingDistance(objectives, front);
+      const order = front.map((_, i) => i).sort((a, b) => (distance[a] === distance[b] ? 0 : distance[b] > distance[a] ? 1 : -1));
+      ordered.push(...order.map(i => front[i]));
+    }
+
+    return ordered;
+  }
+}
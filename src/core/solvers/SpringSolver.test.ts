@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { SpringSolver } from './SpringSolver.js';
-import { RoomState } from '../../types.js';
+import { RoomState, SpringConfig } from '../../types.js';
 import { Vec2 } from '../geometry/Vector2.js';
 
 describe('SpringSolver', () => {
@@ -74,6 +74,14 @@ describe('SpringSolver', () => {
 
       expect(solver).toBeDefined();
     });
+
+    it('should throw on invalid programs in strict mode', () => {
+      const rooms = createSimpleRooms();
+      rooms[1].id = rooms[0].id;
+
+      expect(() => new SpringSolver(rooms, createSimpleBoundary(), [], { strict: true }, undefined, 1))
+        .toThrow(/ROOM_ID_DUPLICATE/);
+    });
   });
 
   describe('step', () => {
@@ -374,4 +382,233 @@ describe('SpringSolver', () => {
       expect(() => solver.simulate(100)).not.toThrow();
     });
   });
+
+  describe('seed', () => {
+    it('should be deterministic with same seed', () => {
+      const rooms = createSimpleRooms();
+      const boundary = createSimpleBoundary();
+      const adjacencies = [{ a: 'room1', b: 'room2', weight: 1.0 }];
+
+      const solver1 = new SpringSolver(rooms, boundary, adjacencies, {}, undefined, 1234);
+      const solver2 = new SpringSolver(rooms, boundary, adjacencies, {}, undefined, 1234);
+
+      solver1.simulate(20);
+      solver2.simulate(20);
+
+      expect(solver1.getState()).toEqual(solver2.getState());
+      expect(solver1.getStats()).toEqual(solver2.getStats());
+    });
+  });
+
+  describe('snapshot', () => {
+    it('should resume from a JSON snapshot exactly like an uninterrupted run', () => {
+      const rooms = createSimpleRooms();
+      const boundary = createSimpleBoundary();
+      const adjacencies = [{ a: 'room1', b: 'room2', weight: 1.0 }];
+
+      const original = new SpringSolver(rooms, boundary, adjacencies, {}, 1.5, 77);
+      original.simulate(10);
+
+      const json = JSON.stringify(original.toSnapshot());
+      const restored = SpringSolver.fromSnapshot(JSON.parse(json));
+
+      expect(restored.getGeneration()).toBe(10);
+      expect(restored.getState()).toEqual(original.getState());
+
+      original.simulate(10);
+      restored.simulate(10);
+
+      expect(restored.getState()).toEqual(original.getState());
+      expect(restored.getStats()).toEqual(original.getStats());
+    });
+  });
+
+  describe('stopping rules', () => {
+    it('should report maxGenerations when no rule triggers', () => {
+      const solver = new SpringSolver(createSimpleRooms(), createSimpleBoundary(), [], {}, undefined, 5);
+      const result = solver.simulate(5);
+
+      expect(result.stopReason).toBe('maxGenerations');
+      expect(result.generation).toBe(5);
+    });
+
+    it('should stop on stagnation and call onProgress each generation', () => {
+      const solver = new SpringSolver(createSimpleRooms(), createSimpleBoundary(), [], {}, undefined, 5);
+      const generations: number[] = [];
+
+      const result = solver.simulate(1000, {
+        stagnationWindow: 3,
+        onProgress: p => generations.push(p.generation),
+      });
+
+      expect(result.stopReason).toBe('stagnation');
+      expect(result.generation).toBeLessThan(1000);
+      expect(generations[generations.length - 1]).toBe(result.generation);
+    });
+
+    it('should stop once the target fitness is reached', () => {
+      const solver = new SpringSolver(createSimpleRooms(), createSimpleBoundary(), [], {}, undefined, 5);
+      const result = solver.simulate(100, { targetFitness: Infinity });
+
+      expect(result.stopReason).toBe('targetFitness');
+      expect(result.generation).toBe(1);
+    });
+  });
+
+  describe('islands', () => {
+    const islandConfig = { populationSize: 6, islandCount: 3, migrationInterval: 2, migrationCount: 1 };
+
+    it('should keep at least populationSize genes on every island', () => {
+      const solver = new SpringSolver(createSimpleRooms(), createSimpleBoundary(), [], islandConfig, undefined, 9);
+      solver.simulate(5);
+
+      const islands = solver.toSnapshot().population.islands;
+      expect(islands).toHaveLength(3);
+      expect(islands.every(genes => genes.length >= 6)).toBe(true);
+    });
+
+    it('should be deterministic for a seed with ring and full topologies', () => {
+      for (const migrationTopology of ['ring', 'full'] as const) {
+        const config = { ...islandConfig, migrationTopology };
+        const a = new SpringSolver(createSimpleRooms(), createSimpleBoundary(), [], config, undefined, 11);
+        const b = new SpringSolver(createSimpleRooms(), createSimpleBoundary(), [], config, undefined, 11);
+        a.simulate(8);
+        b.simulate(8);
+
+        expect(a.getState()).toEqual(b.getState());
+        expect(a.getStats()).toEqual(b.getStats());
+      }
+    });
+
+    it('should reject migration settings that never migrate or replace a whole island', () => {
+      const create = (config: Partial<SpringConfig>) =>
+        () => new SpringSolver(createSimpleRooms(), createSimpleBoundary(), [], { ...islandConfig, ...config }, undefined, 1);
+
+      expect(create({ migrationInterval: 0 })).toThrow('migrationInterval must be a whole number of generations >= 1, got 0');
+      expect(create({ migrationInterval: 2.5 })).toThrow('got 2.5');
+      expect(create({ migrationCount: 3, migrationTopology: 'full' })).toThrow('(6 arrivals per migration)');
+      expect(create({ migrationCount: 3, migrationTopology: 'ring' })).not.toThrow();
+      expect(create({ islandCount: 1, migrationInterval: 0 })).not.toThrow();
+    });
+
+    it('should keep islands across a snapshot round trip', () => {
+      const original = new SpringSolver(createSimpleRooms(), createSimpleBoundary(), [], islandConfig, undefined, 13);
+      original.simulate(3);
+
+      const snapshot = JSON.parse(JSON.stringify(original.toSnapshot()));
+      expect(snapshot.population.islands).toHaveLength(3);
+
+      const restored = SpringSolver.fromSnapshot(snapshot);
+      original.simulate(5);
+      restored.simulate(5);
+
+      expect(restored.getState()).toEqual(original.getState());
+    });
+  });
+
+  describe('getParetoFront', () => {
+    const adjacencies = [{ a: 'room1', b: 'room2' }];
+
+    it('should return distinct mutually non-dominated layouts', () => {
+      const solver = new SpringSolver(createSimpleRooms(), createSimpleBoundary(), adjacencies, { useParetoSelection: true }, undefined, 21);
+      solver.simulate(10);
+
+      const front = solver.getParetoFront();
+      expect(front.length).toBeGreaterThan(0);
+
+      for (const a of front) {
+        for (const b of front) {
+          const dominates = a.fitnessG <= b.fitnessG && a.fitnessT <= b.fitnessT &&
+            (a.fitnessG < b.fitnessG || a.fitnessT < b.fitnessT);
+          expect(dominates).toBe(false);
+        }
+      }
+
+      const keys = front.map(layout => JSON.stringify(layout.rooms));
+      expect(new Set(keys).size).toBe(keys.length);
+    });
+
+    it('should include the best scalar-fitness layout on the front', () => {
+      const solver = new SpringSolver(createSimpleRooms(), createSimpleBoundary(), adjacencies, {}, undefined, 22);
+      solver.simulate(10);
+
+      const best = JSON.stringify(solver.getState());
+      expect(solver.getParetoFront().some(layout => JSON.stringify(layout.rooms) === best)).toBe(true);
+    });
+
+    it('should stay deterministic with the area objective enabled', () => {
+      const config = { useParetoSelection: true, paretoAreaObjective: true };
+      const a = new SpringSolver(createSimpleRooms(), createSimpleBoundary(), adjacencies, config, undefined, 23);
+      const b = new SpringSolver(createSimpleRooms(), createSimpleBoundary(), adjacencies, config, undefined, 23);
+      a.simulate(8);
+      b.simulate(8);
+
+      expect(a.getParetoFront()).toEqual(b.getParetoFront());
+      expect(a.getParetoFront().every(layout => layout.areaDeviation >= 0)).toBe(true);
+    });
+  });
+
+  describe('fixed rooms and obstacles', () => {
+    it('should never move or resize a fixed room', () => {
+      const rooms: RoomState[] = [
+        ...createSimpleRooms(),
+        { id: 'stair', x: 35, y: 35, width: 15, height: 15, vx: 0, vy: 0, targetRatio: 1, fixed: true },
+      ];
+      const adjacencies = [{ a: 'room1', b: 'stair' }, { a: 'room2', b: 'stair' }];
+
+      const solver = new SpringSolver(rooms, createSimpleBoundary(), adjacencies, { swapMutationRate: 1, mutationRate: 1 }, undefined, 31);
+      solver.simulate(15);
+
+      for (const layout of [solver.getState(), ...solver.getParetoFront().map(p => p.rooms)]) {
+        expect(layout.find(r => r.id === 'stair')).toMatchObject({ x: 35, y: 35, width: 15, height: 15, fixed: true });
+      }
+    });
+
+    it('should push rooms off static obstacles', () => {
+      const obstacle = [
+        { x: 40, y: 40 },
+        { x: 60, y: 40 },
+        { x: 60, y: 60 },
+        { x: 40, y: 60 },
+      ];
+      const rooms: RoomState[] = [
+        { id: 'room1', x: 45, y: 45, width: 10, height: 10, vx: 0, vy: 0, targetRatio: 1.2 },
+      ];
+
+      const solver = new SpringSolver(rooms, createSimpleBoundary(), [], { obstacles: [obstacle], mutationRate: 0 }, undefined, 32);
+      solver.simulate(5);
+
+      const [room] = solver.getState();
+      const overlapX = Math.min(room.x + room.width, 60) - Math.max(room.x, 40);
+      const overlapY = Math.min(room.y + room.height, 60) - Math.max(room.y, 40);
+      expect(overlapX <= 0.01 || overlapY <= 0.01).toBe(true);
+      expect(solver.getStats().bestFitnessG).toBeLessThan(0.01);
+    });
+  });
+
+  describe('boundary with holes', () => {
+    const courtyardBoundary = () => ({
+      outer: createSimpleBoundary(),
+      holes: [[
+        { x: 40, y: 40 },
+        { x: 60, y: 40 },
+        { x: 60, y: 60 },
+        { x: 40, y: 60 },
+      ]],
+    });
+
+    it('should push rooms out of holes', () => {
+      const rooms: RoomState[] = [
+        { id: 'room1', x: 45, y: 45, width: 10, height: 10, vx: 0, vy: 0, targetRatio: 1.2 },
+      ];
+
+      const solver = new SpringSolver(rooms, courtyardBoundary(), [], { mutationRate: 0 }, undefined, 41);
+      solver.simulate(5);
+
+      const [room] = solver.getState();
+      const overlapX = Math.min(room.x + room.width, 60) - Math.max(room.x, 40);
+      const overlapY = Math.min(room.y + room.height, 60) - Math.max(room.y, 40);
+      expect(overlapX <= 0.01 || overlapY <= 0.01).toBe(true);
+    });
+  });
 });
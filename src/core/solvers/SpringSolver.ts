@@ -1,6 +1,11 @@
-import { SpringConfig, Adjacency, RoomState, RoomStateES } from '../../types.js';
-import { Vec2 } from '../geometry/Vector2.js';
-import { GeneCollection } from './GeneCollection.js';
+import { SpringConfig, Adjacency, RoomState, RoomStateES, RunOptions, RunResult, StopReason, ParetoLayout } from '../../types.js';
+import { assertValidProgram } from '../validation/validateProgram.js';
+import { Polygon, PolygonLike } from '../geometry/Polygon.js';
+import { GeneCollection, GeneCollectionSnapshot } from './GeneCollection.js';
+import { Gene } from './Gene.js';
+import { Random } from '../../utils/Random.js';
+import { SNAPSHOT_VERSION } from '../../constants.js';
+import { RunMonitor } from '../../utils/RunMonitor.js';
 
 const DEFAULT_POPULATION_SIZE = 15;
 const DEFAULT_MAX_GENERATIONS = 100;
@@ -27,6 +32,30 @@ const DEFAULT_FRESH_BLOOD_WARM_UP = 10;
 const DEFAULT_USE_NON_LINEAR_OVERLAP_PENALTY = false;
 const DEFAULT_OVERLAP_PENALTY_EXPONENT = 1.5;
 
+// Island model defaults
+const DEFAULT_ISLAND_COUNT = 1;
+const DEFAULT_MIGRATION_INTERVAL = 10;
+const DEFAULT_MIGRATION_COUNT = 2;
+const DEFAULT_MIGRATION_TOPOLOGY = 'ring';
+
+// Multi-objective selection defaults
+const DEFAULT_USE_PARETO_SELECTION = false;
+const DEFAULT_PARETO_AREA_OBJECTIVE = false;
+
+/**
+ * Plain JSON checkpoint of a SpringSolver run (see toSnapshot / fromSnapshot)
+ */
+export interface SpringSolverSnapshot {
+  version: number;
+  boundary: PolygonLike;
+  adjacencies: Adjacency[];
+  config: SpringConfig;
+  globalTargetRatio?: number;
+  rngState: number;
+  generation: number;
+  population: GeneCollectionSnapshot;
+}
+
 /**
  * Spring solver using Evolutionary Strategy (Genetic Algorithm).
  * Based on the original C# SpringSystem_ES implementation.
@@ -42,15 +71,26 @@ export class SpringSolver {
   private config: SpringConfig;
   private currentGeneration: number = 0;
   private globalTargetRatio: number | undefined;
+  private rng: Random;
+  private boundary: PolygonLike;
+  private adjacencies: Adjacency[];
 
   constructor(
     rooms: RoomState[],
-    boundary: Vec2[],
+    boundary: PolygonLike,
     adjacencies: Adjacency[],
     config: Partial<SpringConfig> = {},
-    globalTargetRatio?: number
+    globalTargetRatio?: number,
+    seed: number = Date.now()
   ) {
+    if (config.strict) {
+      assertValidProgram(boundary, rooms, adjacencies);
+    }
+
     this.globalTargetRatio = globalTargetRatio;
+    this.rng = new Random(seed);
+    this.boundary = boundary;
+    this.adjacencies = adjacencies;
     // Convert RoomState to RoomStateES (remove velocity fields)
     const roomsES: RoomStateES[] = rooms.map(r => ({
       id: r.id,
@@ -64,6 +104,8 @@ export class SpringSolver {
       pressureY: 0,
       accumulatedPressureX: 0, // Initialize persistent pressure tracking
       accumulatedPressureY: 0,
+      kind: r.kind,
+      fixed: r.fixed,
     }));
 
     this.config = {
@@ -91,6 +133,21 @@ export class SpringSolver {
       freshBloodWarmUp: config.freshBloodWarmUp ?? DEFAULT_FRESH_BLOOD_WARM_UP,
       useNonLinearOverlapPenalty: config.useNonLinearOverlapPenalty ?? DEFAULT_USE_NON_LINEAR_OVERLAP_PENALTY,
       overlapPenaltyExponent: config.overlapPenaltyExponent ?? DEFAULT_OVERLAP_PENALTY_EXPONENT,
+
+      // Island model
+      islandCount: config.islandCount ?? DEFAULT_ISLAND_COUNT,
+      migrationInterval: config.migrationInterval ?? DEFAULT_MIGRATION_INTERVAL,
+      migrationCount: config.migrationCount ?? DEFAULT_MIGRATION_COUNT,
+      migrationTopology: config.migrationTopology ?? DEFAULT_MIGRATION_TOPOLOGY,
+
+      // Static obstacles
+      obstacles: config.obstacles ?? [],
+
+      // Multi-objective selection
+      useParetoSelection: config.useParetoSelection ?? DEFAULT_USE_PARETO_SELECTION,
+      paretoAreaObjective: config.paretoAreaObjective ?? DEFAULT_PARETO_AREA_OBJECTIVE,
+
+      strict: config.strict ?? false,
     };
 
     this.geneCollection = new GeneCollection(
@@ -98,7 +155,8 @@ export class SpringSolver {
       boundary,
       adjacencies,
       this.config,
-      this.globalTargetRatio
+      this.globalTargetRatio,
+      this.rng
     );
   }
 
@@ -106,10 +164,27 @@ export class SpringSolver {
    * Get current best room configuration
    */
   getState(): RoomState[] {
-    const best = this.geneCollection.getBest();
+    return SpringSolver.toRoomStates(this.geneCollection.getBest());
+  }
 
-    // Convert RoomStateES back to RoomState (add zero velocities for compatibility)
-    return best.rooms.map(r => ({
+  /**
+   * Get the distinct non-dominated layouts of the current population, so the
+   * geometric/topological trade-off can be shown without re-running with other balances
+   */
+  getParetoFront(): ParetoLayout[] {
+    return this.geneCollection.getParetoFront().map(gene => ({
+      rooms: SpringSolver.toRoomStates(gene),
+      fitnessG: gene.fitnessG,
+      fitnessT: gene.fitnessT,
+      areaDeviation: gene.calculateAreaDeviation(),
+    }));
+  }
+
+  /**
+   * Convert a gene's RoomStateES back to RoomState (add zero velocities for compatibility)
+   */
+  private static toRoomStates(gene: Gene): RoomState[] {
+    return gene.rooms.map(r => ({
       id: r.id,
       x: r.x,
       y: r.y,
@@ -118,6 +193,8 @@ export class SpringSolver {
       targetRatio: r.targetRatio,
       vx: 0,
       vy: 0,
+      kind: r.kind,
+      fixed: r.fixed,
     }));
   }
 
@@ -135,12 +212,24 @@ export class SpringSolver {
   }
 
   /**
-   * Run the evolutionary algorithm for N generations
+   * Run the evolutionary algorithm for up to N generations.
+   * Stops early when one of the stopping rules in `options` is met.
    */
-  simulate(generations: number): void {
+  simulate(generations: number, options: RunOptions = {}): RunResult {
+    const monitor = new RunMonitor(options, true);
+    let stopReason: StopReason = 'maxGenerations';
+
     for (let i = 0; i < generations; i++) {
       this.step();
+
+      const reason = monitor.record(this.currentGeneration, this.geneCollection.getBest().fitness);
+      if (reason) {
+        stopReason = reason;
+        break;
+      }
     }
+
+    return monitor.finish(stopReason, this.currentGeneration, this.geneCollection.getBest().fitness);
   }
 
   /**
@@ -184,6 +273,58 @@ export class SpringSolver {
     return this.currentGeneration;
   }
 
+  /**
+   * Serialize the full solver state (population, PRNG state, generation, config) to plain JSON.
+   * Resuming from the snapshot continues the run exactly as if it had never stopped.
+   */
+  toSnapshot(): SpringSolverSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      boundary: Polygon.copy(this.boundary),
+      adjacencies: this.adjacencies.map(a => ({ ...a })),
+      config: { ...this.config },
+      globalTargetRatio: this.globalTargetRatio,
+      rngState: this.rng.getState(),
+      generation: this.currentGeneration,
+      population: this.geneCollection.toSnapshot(),
+    };
+  }
+
+  /**
+   * Recreate a solver from a snapshot produced by toSnapshot()
+   */
+  static fromSnapshot(snapshot: SpringSolverSnapshot): SpringSolver {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported SpringSolver snapshot version: ${snapshot.version}`);
+    }
+
+    const rooms: RoomState[] = snapshot.population.baseRooms.map(r => ({
+      id: r.id,
+      x: r.x,
+      y: r.y,
+      width: r.width,
+      height: r.height,
+      targetRatio: r.targetRatio,
+      vx: 0,
+      vy: 0,
+    }));
+
+    const solver = new SpringSolver(
+      rooms,
+      snapshot.boundary,
+      snapshot.adjacencies,
+      snapshot.config,
+      snapshot.globalTargetRatio,
+      snapshot.rngState
+    );
+
+    solver.geneCollection.restoreSnapshot(snapshot.population);
+    solver.currentGeneration = snapshot.generation;
+    solver.rng.setState(snapshot.rngState);
+
+    return solver;
+  }
+
   /**
    * Legacy compatibility: Get "kinetic energy" (mapped to fitness)
    * Lower fitness = lower "energy" = more converged
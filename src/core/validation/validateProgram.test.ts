@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { validateProgram } from './validateProgram.js';
+import { Vec2 } from '../geometry/Vector2.js';
+import { RoomRequest } from '../../types.js';
+import { discreteTemplates } from '../../stories/templates/discreteTemplates.js';
+import { springTemplates } from '../../stories/templates/springTemplates.js';
+
+const square: Vec2[] = [{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 20 }, { x: 0, y: 20 }];
+
+const codes = (diagnostics: { code: string }[]) => diagnostics.map(d => d.code);
+
+describe('validateProgram', () => {
+  it('should accept the bundled templates', () => {
+    for (const template of Object.values(discreteTemplates)) {
+      expect(validateProgram(template.boundary, template.rooms, template.adjacencies).errors).toEqual([]);
+    }
+    for (const template of Object.values(springTemplates)) {
+      expect(validateProgram(template.boundary, template.rooms, template.adjacencies).errors).toEqual([]);
+    }
+  });
+
+  it('should report bad ids and adjacencies with their paths', () => {
+    const rooms: RoomRequest[] = [
+      { id: 'a', targetArea: 50, targetRatio: 1.5 },
+      { id: 'a', targetArea: 50, targetRatio: 1.5 },
+      { id: '', targetArea: 50, targetRatio: 1.5 },
+    ];
+    const result = validateProgram(square, rooms, [
+      { a: 'a', b: 'ghost' },
+      { a: 'a', b: 'a' },
+      { a: 'a', b: 'ghost', weight: -1 },
+    ]);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(d => [d.code, d.path])).toEqual([
+      ['ROOM_ID_DUPLICATE', 'rooms[1].id'],
+      ['ROOM_ID_INVALID', 'rooms[2].id'],
+      ['ADJACENCY_UNKNOWN_ROOM', 'adjacencies[0].b'],
+      ['ADJACENCY_SELF', 'adjacencies[1]'],
+      ['ADJACENCY_UNKNOWN_ROOM', 'adjacencies[2].b'],
+      ['ADJACENCY_WEIGHT_INVALID', 'adjacencies[2].weight'],
+    ]);
+    expect(codes(result.warnings)).toEqual(['ADJACENCY_DUPLICATE']);
+  });
+
+  it('should check room areas and ratio ranges', () => {
+    const result = validateProgram(square, [
+      { id: 'huge', targetArea: 500, targetRatio: 1 },
+      { id: 'flat', targetArea: 0, targetRatio: 1 },
+      { id: 'inverted', targetArea: 10, targetRatio: 0.5 },
+      { id: 'broken', targetArea: 10, targetRatio: NaN },
+    ], []);
+
+    expect(codes(result.errors)).toEqual([
+      'ROOM_LARGER_THAN_BOUNDARY',
+      'ROOM_AREA_INVALID',
+      'ROOM_RATIO_INVALID',
+      'TOTAL_AREA_EXCEEDS_BOUNDARY',
+    ]);
+    expect(codes(result.warnings)).toEqual(['ROOM_RATIO_BELOW_ONE']);
+    expect(result.warnings[0].message).toContain('use 2');
+  });
+
+  it('should warn when rooms leave little space for circulation', () => {
+    const result = validateProgram(square, [{ id: 'a', targetArea: 380, targetRatio: 1 }], []);
+
+    expect(result.valid).toBe(true);
+    expect(codes(result.warnings)).toEqual(['TOTAL_AREA_TIGHT']);
+  });
+
+  it('should reject degenerate and self-intersecting boundaries', () => {
+    const line: Vec2[] = [{ x: 0, y: 0 }, { x: 5, y: 0 }, { x: 10, y: 0 }];
+    const bowTie: Vec2[] = [{ x: 0, y: 0 }, { x: 10, y: 10 }, { x: 10, y: 0 }, { x: 0, y: 10 }];
+
+    expect(codes(validateProgram(square.slice(0, 2), [], []).errors)).toEqual(['BOUNDARY_TOO_FEW_POINTS']);
+    expect(codes(validateProgram(line, [], []).errors)).toEqual(['BOUNDARY_DEGENERATE']);
+    expect(codes(validateProgram(bowTie, [], []).errors)).toEqual(['BOUNDARY_SELF_INTERSECTING']);
+  });
+
+  it('should use usable area (minus holes) and validate holes', () => {
+    const courtyard = {
+      outer: square,
+      holes: [[{ x: 5, y: 5 }, { x: 15, y: 5 }, { x: 15, y: 15 }, { x: 5, y: 15 }]],
+    };
+    const result = validateProgram(courtyard, [{ id: 'a', targetArea: 350, targetRatio: 1 }], []);
+
+    expect(codes(result.errors)).toEqual(['ROOM_LARGER_THAN_BOUNDARY', 'TOTAL_AREA_EXCEEDS_BOUNDARY']);
+
+    const outside = { outer: square, holes: [[{ x: 15, y: 15 }, { x: 25, y: 15 }, { x: 25, y: 25 }]] };
+    expect(codes(validateProgram(outside, [], []).warnings)).toEqual(['HOLE_OUTSIDE_BOUNDARY']);
+  });
+
+  it('should sum floor areas for multi-floor programs', () => {
+    const rooms: RoomRequest[] = [
+      { id: 'a', targetArea: 300, targetRatio: 1 },
+      { id: 'b', targetArea: 300, targetRatio: 1 },
+    ];
+
+    expect(validateProgram([square, square], rooms, []).valid).toBe(true);
+    expect(codes(validateProgram([square, square.slice(0, 2)], rooms, []).errors))
+      .toEqual(['BOUNDARY_TOO_FEW_POINTS', 'TOTAL_AREA_EXCEEDS_BOUNDARY']);
+  });
+
+  it('should require placements for fixed room requests', () => {
+    const result = validateProgram(square, [{ id: 'stair', targetArea: 20, targetRatio: 1, fixed: true }], []);
+
+    expect(codes(result.errors)).toEqual(['FIXED_ROOM_NO_PLACEMENT']);
+  });
+
+  it('should reject fixed placements off the boundary or on top of each other', () => {
+    const withHole = { outer: square, holes: [[{ x: 8, y: 8 }, { x: 12, y: 8 }, { x: 12, y: 12 }, { x: 8, y: 12 }]] };
+    const fixed = (id: string, x: number, y: number): RoomRequest =>
+      ({ id, targetArea: 16, targetRatio: 1, fixed: true, placement: { x, y, width: 4, height: 4 } });
+
+    const result = validateProgram(withHole, [fixed('a', 0, 0), fixed('b', 2, 2), fixed('c', 18, 0), fixed('d', 7, 7)], []);
+
+    expect(result.errors.map(d => [d.code, d.path])).toEqual([
+      ['FIXED_ROOM_OVERLAP', 'rooms[1].placement'],
+      ['FIXED_ROOM_OUT_OF_BOUNDS', 'rooms[2].placement'],
+      ['FIXED_ROOM_OUT_OF_BOUNDS', 'rooms[3].placement'],
+    ]);
+    expect(result.errors[0].message).toBe('Fixed room "b" overlaps fixed room "a"');
+  });
+});
@@ -0,0 +1,283 @@
+import { Adjacency, RoomRequest, RoomState, RoomStateES } from '../../types.js';
+import { Polygon, PolygonLike } from '../geometry/Polygon.js';
+
+// Above this share of the usable boundary area, rooms leave little space for corridors and packing slack
+const TIGHT_AREA_RATIO = 0.9;
+
+export type DiagnosticCode =
+  | 'BOUNDARY_TOO_FEW_POINTS'
+  | 'BOUNDARY_INVALID_POINT'
+  | 'BOUNDARY_DEGENERATE'
+  | 'BOUNDARY_SELF_INTERSECTING'
+  | 'HOLE_OUTSIDE_BOUNDARY'
+  | 'ROOM_ID_INVALID'
+  | 'ROOM_ID_DUPLICATE'
+  | 'ROOM_AREA_INVALID'
+  | 'ROOM_RATIO_INVALID'
+  | 'ROOM_RATIO_BELOW_ONE'
+  | 'ROOM_LARGER_THAN_BOUNDARY'
+  | 'FIXED_ROOM_NO_PLACEMENT'
+  | 'FIXED_ROOM_OUT_OF_BOUNDS'
+  | 'FIXED_ROOM_OVERLAP'
+  | 'TOTAL_AREA_EXCEEDS_BOUNDARY'
+  | 'TOTAL_AREA_TIGHT'
+  | 'ADJACENCY_UNKNOWN_ROOM'
+  | 'ADJACENCY_SELF'
+  | 'ADJACENCY_DUPLICATE'
+  | 'ADJACENCY_WEIGHT_INVALID';
+
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: 'error' | 'warning';
+  message: string;
+  path: string; // Location in the input, e.g. "rooms[2].targetRatio" or "boundary.holes[0]"
+}
+
+export interface ValidationResult {
+  valid: boolean; // No errors (warnings allowed)
+  errors: Diagnostic[];
+  warnings: Diagnostic[];
+}
+
+/**
+ * Rooms as any solver takes them: requests (targetArea) or states (width × height)
+ */
+export type ProgramRoom = RoomRequest | RoomState | RoomStateES;
+
+/**
+ * Check a program before solving. Catches the inputs solvers silently mishandle:
+ * unknown/duplicate ids, self-adjacency, rooms that cannot fit, inverted ratio ranges,
+ * fixed placements off the boundary or on top of each other, and degenerate or
+ * self-intersecting boundaries.
+ * @param boundary - Floor boundary, or one boundary per floor for multi-floor programs
+ */
+export function validateProgram(
+  boundary: PolygonLike | PolygonLike[],
+  rooms: ProgramRoom[],
+  adjacencies: Adjacency[]
+): ValidationResult {
+  const diagnostics: Diagnostic[] = [];
+  const error = (code: DiagnosticCode, path: string, message: string) =>
+    diagnostics.push({ code, severity: 'error', message, path });
+  const warning = (code: DiagnosticCode, path: string, message: string) =>
+    diagnostics.push({ code, severity: 'warning', message, path });
+
+  // Boundaries
+  const floors = isFloorList(boundary) ? boundary : [boundary];
+  const floorAreas: number[] = [];
+
+  floors.forEach((floor, f) => {
+    const base = floors.length > 1 || floor !== boundary ? `boundaries[${f}]` : 'boundary';
+    const outer = Polygon.outerRing(floor);
+    const outerPath = Array.isArray(floor) ? base : `${base}.outer`;
+    const rings = [
+      { ring: outer, path: outerPath },
+      ...Polygon.holes(floor).map((ring, h) => ({ ring, path: `${base}.holes[${h}]` })),
+    ];
+
+    let usable = true;
+    for (const { ring, path } of rings) {
+      if (!validateRing(ring, path, error)) usable = false;
+    }
+
+    if (usable) {
+      Polygon.holes(floor).forEach((hole, h) => {
+        if (!hole.every(p => Polygon.pointInPolygon(p, outer))) {
+          warning('HOLE_OUTSIDE_BOUNDARY', `${base}.holes[${h}]`, 'Hole is not fully inside the outer ring');
+        }
+      });
+    }
+
+    floorAreas.push(usable ? Polygon.area(floor) : 0);
+  });
+
+  const largestFloor = Math.max(0, ...floorAreas);
+  const totalFloor = floorAreas.reduce((sum, a) => sum + a, 0);
+
+  // Rooms
+  const ids = new Set<string>();
+  let totalRoomArea = 0;
+  const placed: { id: string; floor: number; rect: Rect }[] = []; // Fixed placements seen so far
+
+  rooms.forEach((room, i) => {
+    const path = `rooms[${i}]`;
+
+    if (typeof room.id !== 'string' || room.id.trim().length === 0) {
+      error('ROOM_ID_INVALID', `${path}.id`, 'Room id must be a non-empty string');
+    } else if (ids.has(room.id)) {
+      error('ROOM_ID_DUPLICATE', `${path}.id`, `Room id "${room.id}" is used more than once`);
+    } else {
+      ids.add(room.id);
+    }
+
+    const area = roomArea(room);
+    if (!Number.isFinite(area) || area <= 0) {
+      const field = 'targetArea' in room ? 'targetArea' : 'width';
+      error('ROOM_AREA_INVALID', `${path}.${field}`, `Room "${room.id}" needs a positive area`);
+    } else {
+      totalRoomArea += area;
+      if (largestFloor > 0 && area > largestFloor) {
+        error(
+          'ROOM_LARGER_THAN_BOUNDARY',
+          path,
+          `Room "${room.id}" (${round(area)}) is larger than the usable boundary area (${round(largestFloor)})`
+        );
+      }
+    }
+
+    if (!Number.isFinite(room.targetRatio) || room.targetRatio <= 0) {
+      error('ROOM_RATIO_INVALID', `${path}.targetRatio`, `Room "${room.id}" needs a positive targetRatio`);
+    } else if (room.targetRatio < 1) {
+      warning(
+        'ROOM_RATIO_BELOW_ONE',
+        `${path}.targetRatio`,
+        `targetRatio ${room.targetRatio} < 1 inverts the allowed range [1/r, r]; use ${round(1 / room.targetRatio)}`
+      );
+    }
+
+    if ('fixed' in room && room.fixed && 'targetArea' in room && !('x' in room) && !room.placement) {
+      error('FIXED_ROOM_NO_PLACEMENT', `${path}.placement`, `Fixed room "${room.id}" has no placement`);
+    }
+
+    if ('placement' in room && room.fixed && room.placement) {
+      const floor = room.floor ?? 0;
+      const rect = room.placement;
+
+      if (floorAreas[floor] > 0 && !cellsInside(rect, floors[floor])) {
+        error('FIXED_ROOM_OUT_OF_BOUNDS', `${path}.placement`, `Fixed room "${room.id}" placement is not inside the boundary`);
+      }
+
+      const other = placed.find(p => p.floor === floor && overlaps(p.rect, rect));
+      if (other) {
+        error('FIXED_ROOM_OVERLAP', `${path}.placement`, `Fixed room "${room.id}" overlaps fixed room "${other.id}"`);
+      }
+      placed.push({ id: room.id, floor, rect });
+    }
+  });
+
+  if (totalFloor > 0 && totalRoomArea > totalFloor) {
+    error(
+      'TOTAL_AREA_EXCEEDS_BOUNDARY',
+      'rooms',
+      `Total room area ${round(totalRoomArea)} exceeds the usable boundary area ${round(totalFloor)}`
+    );
+  } else if (totalFloor > 0 && totalRoomArea > TIGHT_AREA_RATIO * totalFloor) {
+    warning(
+      'TOTAL_AREA_TIGHT',
+      'rooms',
+      `Rooms fill ${Math.round((100 * totalRoomArea) / totalFloor)}% of the boundary, leaving little space for circulation`
+    );
+  }
+
+  // Adjacencies
+  const pairs = new Set<string>();
+  adjacencies.forEach((adj, i) => {
+    const path = `adjacencies[${i}]`;
+
+    for (const end of ['a', 'b'] as const) {
+      if (!ids.has(adj[end])) {
+        error('ADJACENCY_UNKNOWN_ROOM', `${path}.${end}`, `Adjacency references unknown room "${adj[end]}"`);
+      }
+    }
+
+    if (adj.a === adj.b) {
+      error('ADJACENCY_SELF', path, `Room "${adj.a}" cannot be adjacent to itself`);
+    }
+
+    const key = adj.a < adj.b ? `${adj.a}|${adj.b}` : `${adj.b}|${adj.a}`;
+    if (pairs.has(key)) {
+      warning('ADJACENCY_DUPLICATE', path, `Adjacency "${adj.a}"-"${adj.b}" is listed more than once`);
+    }
+    pairs.add(key);
+
+    if (adj.weight !== undefined && (!Number.isFinite(adj.weight) || adj.weight < 0)) {
+      error('ADJACENCY_WEIGHT_INVALID', `${path}.weight`, 'Adjacency weight must be a non-negative number');
+    }
+  });
+
+  const errors = diagnostics.filter(d => d.severity === 'error');
+  const warnings = diagnostics.filter(d => d.severity === 'warning');
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Strict mode for solver constructors: throw if the program has errors (warnings pass)
+ */
+export function assertValidProgram(
+  boundary: PolygonLike | PolygonLike[],
+  rooms: ProgramRoom[],
+  adjacencies: Adjacency[]
+): void {
+  const result = validateProgram(boundary, rooms, adjacencies);
+  if (!result.valid) {
+    const lines = result.errors.map(d => `[${d.code}] ${d.path}: ${d.message}`);
+    throw new Error(`Invalid program:\n- ${lines.join('\n- ')}`);
+  }
+}
+
+/**
+ * Validate one ring; returns false if it cannot be used for area checks
+ */
+function validateRing(
+  ring: { x: number; y: number }[],
+  path: string,
+  error: (code: DiagnosticCode, path: string, message: string) => void
+): boolean {
+  if (ring.length < 3) {
+    error('BOUNDARY_TOO_FEW_POINTS', path, `Polygon needs at least 3 points, got ${ring.length}`);
+    return false;
+  }
+
+  const badPoint = ring.findIndex(p => !Number.isFinite(p.x) || !Number.isFinite(p.y));
+  if (badPoint >= 0) {
+    error('BOUNDARY_INVALID_POINT', `${path}[${badPoint}]`, 'Point coordinates must be finite numbers');
+    return false;
+  }
+
+  if (Polygon.selfIntersects(ring)) {
+    error('BOUNDARY_SELF_INTERSECTING', path, 'Polygon edges cross or touch each other');
+    return false;
+  }
+
+  if (Polygon.area(ring) < 1e-9) {
+    error('BOUNDARY_DEGENERATE', path, 'Polygon has zero area (collinear or repeated points)');
+    return false;
+  }
+
+  return true;
+}
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+/**
+ * Whether every grid cell of a placement has its centre inside the boundary (outside its holes),
+ * the test DiscreteSolver uses to rasterize the boundary
+ */
+function cellsInside(rect: Rect, boundary: PolygonLike): boolean {
+  for (let dy = 0; dy < rect.height; dy++) {
+    for (let dx = 0; dx < rect.width; dx++) {
+      if (!Polygon.pointInPolygon({ x: rect.x + dx + 0.5, y: rect.y + dy + 0.5 }, boundary)) return false;
+    }
+  }
+  return true;
+}
+
+function overlaps(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function roomArea(room: ProgramRoom): number {
+  return 'targetArea' in room ? room.targetArea : room.width * room.height;
+}
+
+/**
+ * A list of floor boundaries rather than a single ring of points
+ */
+function isFloorList(boundary: PolygonLike | PolygonLike[]): boundary is PolygonLike[] {
+  return Array.isArray(boundary) && boundary.length > 0 && !('x' in boundary[0]);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
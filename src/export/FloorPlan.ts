@@ -0,0 +1,88 @@
+import { Adjacency } from '../types.js';
+import { Vec2 } from '../core/geometry/Vector2.js';
+import { Polygon, PolygonLike } from '../core/geometry/Polygon.js';
+import { GridBuffer } from '../core/grid/GridBuffer.js';
+import { RoomRect } from '../core/layout/DoorPlacer.js';
+import { CELL_CORRIDOR } from '../constants.js';
+import { isCirculation } from '../core/rooms/roomKinds.js';
+
+/**
+ * One room or corridor of an exported plan, in world coordinates
+ */
+export interface PlanRoom {
+  id: string;
+  polygon: PolygonLike;
+  area: number;
+  corridor: boolean;
+}
+
+/**
+ * Solver-independent floor plan handed to the exporters
+ */
+export interface FloorPlan {
+  boundary: PolygonLike;
+  rooms: PlanRoom[];
+  adjacencies: Adjacency[];
+}
+
+export interface GridPlanOptions {
+  rooms: Iterable<{ id: string; roomIndex: number }>; // e.g. DiscreteSolver.getPlacedRooms().values()
+  adjacencies?: Adjacency[];
+  gridResolution?: number;                           // World units per cell
+  origin?: Vec2;                                     // World position of cell (0, 0)
+}
+
+/**
+ * Build a plan from room rectangles (SpringSolver.getState(), EvolutionaryFloorplanSolver.getState()).
+ * Rooms of a circulation kind (see ROOM_KINDS) are corridors.
+ */
+export function createPlanFromRooms(boundary: PolygonLike, rooms: RoomRect[], adjacencies: Adjacency[] = []): FloorPlan {
+  return {
+    boundary,
+    rooms: rooms.map(room => ({
+      id: room.id,
+      polygon: Polygon.createRectangle(room.x, room.y, room.width, room.height).map(p => ({ ...p })), // Not the scratch buffer
+      area: room.width * room.height,
+      corridor: isCirculation(room),
+    })),
+    adjacencies,
+  };
+}
+
+/**
+ * Build a plan from a DiscreteSolver grid by tracing its regions.
+ * Each connected corridor network becomes one corridor room (`corridor-0`, `corridor-1`, ...).
+ */
+export function createPlanFromGrid(boundary: PolygonLike, grid: GridBuffer, options: GridPlanOptions): FloorPlan {
+  const roomIds = new Map<number, string>();
+  for (const room of options.rooms) {
+    roomIds.set(room.roomIndex, room.id);
+  }
+
+  let corridorCount = 0;
+  const rooms: PlanRoom[] = [];
+
+  for (const region of grid.traceRegions(options.gridResolution ?? 1, options.origin)) {
+    const corridor = region.value === CELL_CORRIDOR;
+    rooms.push({
+      id: corridor ? `corridor-${corridorCount++}` : roomIds.get(region.value) ?? `room-${region.value}`,
+      polygon: { outer: region.outer, holes: region.holes },
+      area: region.area,
+      corridor,
+    });
+  }
+
+  return { boundary, rooms, adjacencies: options.adjacencies ?? [] };
+}
+
+/**
+ * Where to put a room's label: the centre of its bounding box, or the centroid of its
+ * outline if the centre falls outside the room (L-shapes, rooms around a hole)
+ */
+export function getLabelPoint(room: PlanRoom): Vec2 {
+  const box = Polygon.calculateAABB(Polygon.outerRing(room.polygon));
+  const centre = { x: (box.minX + box.maxX) / 2, y: (box.minY + box.maxY) / 2 };
+  return Polygon.pointInPolygon(centre, room.polygon)
+    ? centre
+    : Polygon.calculateCentroid(Polygon.outerRing(room.polygon));
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { exportDxf } from './exportDxf.js';
+import { createPlanFromRooms } from './FloorPlan.js';
+
+/**
+ * Split a DXF file into [code, value] pairs
+ */
+function parsePairs(dxf: string): [number, string][] {
+  const lines = dxf.trim().split('\n');
+  const pairs: [number, string][] = [];
+  for (let i = 0; i < lines.length; i += 2) {
+    pairs.push([Number(lines[i]), lines[i + 1]]);
+  }
+  return pairs;
+}
+
+/**
+ * Entities of the ENTITIES section, each as its list of pairs (starting with the 0 code)
+ */
+function entities(dxf: string): [number, string][][] {
+  const pairs = parsePairs(dxf);
+  const start = pairs.findIndex(([code, value], i) => code === 2 && value === 'ENTITIES' && pairs[i - 1][1] === 'SECTION');
+  const result: [number, string][][] = [];
+
+  for (let i = start + 1; i < pairs.length && pairs[i][1] !== 'ENDSEC'; i++) {
+    if (pairs[i][0] === 0) result.push([]);
+    result[result.length - 1].push(pairs[i]);
+  }
+  return result;
+}
+
+const value = (entity: [number, string][], code: number) => entity.find(([c]) => c === code)?.[1];
+
+describe('exportDxf', () => {
+  // springTemplates scale: 30 units per metre
+  const plan = createPlanFromRooms(
+    [{ x: 0, y: 0 }, { x: 300, y: 0 }, { x: 300, y: 150 }, { x: 0, y: 150 }],
+    [
+      { id: 'kitchen', x: 0, y: 0, width: 150, height: 120 },
+      { id: 'living', x: 150, y: 0, width: 150, height: 120 },
+      { id: 'corridor-0', x: 0, y: 120, width: 300, height: 30, kind: 'corridor' },
+    ]
+  );
+
+  it('should write a complete R12 file with all layers', () => {
+    const dxf = exportDxf(plan, { unitsPerMetre: 30 });
+    const pairs = parsePairs(dxf);
+
+    expect(pairs[pairs.length - 1]).toEqual([0, 'EOF']);
+    expect(pairs).toContainEqual([1, 'AC1009']);
+
+    const layerNames = pairs.filter(([code], i) => code === 2 && pairs[i - 1][1] === 'LAYER').map(([, v]) => v);
+    expect(layerNames).toEqual(['BOUNDARY', 'ROOMS', 'CORRIDORS', 'LABELS']);
+  });
+
+  it('should put each outline and label on its layer', () => {
+    const byLayer = (type: string) => entities(exportDxf(plan, { unitsPerMetre: 30 }))
+      .filter(e => e[0][1] === type)
+      .map(e => value(e, 8));
+
+    expect(byLayer('POLYLINE')).toEqual(['BOUNDARY', 'ROOMS', 'ROOMS', 'CORRIDORS']);
+    expect(byLayer('TEXT')).toEqual(['LABELS', 'LABELS', 'LABELS', 'LABELS']);
+  });
+
+  it('should convert world units to the output unit and flip y', () => {
+    const dxf = exportDxf(plan, { unitsPerMetre: 30, outputUnit: 'mm' });
+    const pairs = parsePairs(dxf);
+
+    // R12 has no unit header; the unit only shows in the coordinates
+    expect(pairs[pairs.findIndex(([, v]) => v === '$ACADVER') + 1]).toEqual([1, 'AC1009']);
+    expect(pairs.some(([, v]) => v === '$INSUNITS')).toBe(false);
+
+    const boundaryVertices = entities(dxf).filter(e => e[0][1] === 'VERTEX').slice(0, 4);
+    expect(boundaryVertices.map(e => [value(e, 10), value(e, 20)])).toEqual([
+      ['0', '0'],
+      ['10000', '0'],
+      ['10000', '-5000'],
+      ['0', '-5000'],
+    ]);
+
+    const labels = entities(dxf).filter(e => e[0][1] === 'TEXT').map(e => value(e, 1));
+    expect(labels).toEqual(['kitchen', '20.0 m2', 'living', '20.0 m2']);
+  });
+});
@@ -0,0 +1,141 @@
+import { Vec2 } from '../core/geometry/Vector2.js';
+import { Polygon, PolygonLike } from '../core/geometry/Polygon.js';
+import { FloorPlan, getLabelPoint } from './FloorPlan.js';
+
+export type DxfUnit = 'mm' | 'cm' | 'm';
+
+export interface DxfExportOptions {
+  unitsPerMetre: number; // World units per metre: 30 for springTemplates (m2 = 900), 1 for grids traced in metres
+  outputUnit: DxfUnit;   // Unit of the drawing coordinates; R12 cannot record it, so pick the same unit on import
+  textHeight: number;    // Label height in metres
+  flipY: boolean;        // Plans are y-down, CAD is y-up; flip so the drawing isn't mirrored
+}
+
+const DEFAULT_OPTIONS: DxfExportOptions = {
+  unitsPerMetre: 1,
+  outputUnit: 'm',
+  textHeight: 0.25,
+  flipY: true,
+};
+
+// Drawing units per metre
+const UNIT_SCALE: Record<DxfUnit, { perMetre: number }> = {
+  mm: { perMetre: 1000 },
+  cm: { perMetre: 100 },
+  m: { perMetre: 1 },
+};
+
+// Layer name -> AutoCAD colour index
+export const DXF_LAYERS = {
+  BOUNDARY: 7,  // White/black
+  ROOMS: 5,     // Blue
+  CORRIDORS: 8, // Grey
+  LABELS: 2,    // Yellow
+} as const;
+
+type DxfLayer = keyof typeof DXF_LAYERS;
+
+/**
+ * Write a floor plan as an ASCII DXF R12 (AC1009) drawing, readable by AutoCAD, Rhino and most CAD tools.
+ * Each ring (outer outlines and holes) is a closed POLYLINE; room names and areas are TEXT entities.
+ */
+export function exportDxf(plan: FloorPlan, options: Partial<DxfExportOptions> = {}): string {
+  const opts: DxfExportOptions = { ...DEFAULT_OPTIONS, ...options };
+  const unit = UNIT_SCALE[opts.outputUnit];
+  const scale = unit.perMetre / opts.unitsPerMetre;
+
+  const toDrawing = (p: Vec2): Vec2 => ({ x: p.x * scale, y: (opts.flipY ? -p.y : p.y) * scale });
+
+  const out: string[] = [];
+  const group = (code: number, value: string | number) => {
+    out.push(String(code), typeof value === 'number' ? num(value) : value);
+  };
+
+  // HEADER ($INSUNITS only exists from AC1015 on, so R12 drawings are unitless)
+  group(0, 'SECTION');
+  group(2, 'HEADER');
+  group(9, '$ACADVER');
+  group(1, 'AC1009');
+  group(0, 'ENDSEC');
+
+  // TABLES: one LAYER entry per layer
+  const layers = Object.entries(DXF_LAYERS);
+  group(0, 'SECTION');
+  group(2, 'TABLES');
+  group(0, 'TABLE');
+  group(2, 'LAYER');
+  group(70, layers.length);
+  for (const [name, colour] of layers) {
+    group(0, 'LAYER');
+    group(2, name);
+    group(70, 0);
+    group(62, colour);
+    group(6, 'CONTINUOUS');
+  }
+  group(0, 'ENDTAB');
+  group(0, 'ENDSEC');
+
+  // ENTITIES
+  group(0, 'SECTION');
+  group(2, 'ENTITIES');
+
+  const polygon = (layer: DxfLayer, shape: PolygonLike) => {
+    for (const ring of Polygon.rings(shape)) {
+      group(0, 'POLYLINE');
+      group(8, layer);
+      group(66, 1); // Vertices follow
+      group(10, 0);
+      group(20, 0);
+      group(30, 0);
+      group(70, 1); // Closed
+      for (const point of ring) {
+        const p = toDrawing(point);
+        group(0, 'VERTEX');
+        group(8, layer);
+        group(10, p.x);
+        group(20, p.y);
+        group(30, 0);
+      }
+      group(0, 'SEQEND');
+      group(8, layer);
+    }
+  };
+
+  const text = (at: Vec2, height: number, content: string) => {
+    group(0, 'TEXT');
+    group(8, 'LABELS');
+    group(10, at.x);
+    group(20, at.y);
+    group(30, 0);
+    group(40, height);
+    group(1, content);
+    group(72, 1); // Horizontally centred on the alignment point
+    group(11, at.x);
+    group(21, at.y);
+    group(31, 0);
+  };
+
+  polygon('BOUNDARY', plan.boundary);
+
+  const textHeight = opts.textHeight * unit.perMetre;
+  for (const room of plan.rooms) {
+    polygon(room.corridor ? 'CORRIDORS' : 'ROOMS', room.polygon);
+
+    if (!room.corridor) {
+      const at = toDrawing(getLabelPoint(room));
+      const area = room.area / (opts.unitsPerMetre * opts.unitsPerMetre);
+      text(at, textHeight, room.id);
+      text({ x: at.x, y: at.y - 1.5 * textHeight }, textHeight * 0.8, `${area.toFixed(1)} m2`);
+    }
+  }
+
+  group(0, 'ENDSEC');
+  group(0, 'EOF');
+
+  return out.join('\n') + '\n';
+}
+
+function num(value: number): string {
+  if (Number.isInteger(value)) return String(value);
+  return String(Math.round(value * 1e6) / 1e6);
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { exportSvg } from './exportSvg.js';
+import { createPlanFromGrid, createPlanFromRooms } from './FloorPlan.js';
+import { Polygon } from '../core/geometry/Polygon.js';
+import { GridBuffer } from '../core/grid/GridBuffer.js';
+import { CELL_CORRIDOR } from '../constants.js';
+
+// createRectangle reuses a scratch buffer, so keep a copy
+const rectangle = (x: number, y: number, width: number, height: number) =>
+  Polygon.createRectangle(x, y, width, height).map(p => ({ ...p }));
+
+describe('exportSvg', () => {
+  const boundary = rectangle(0, 0, 300, 150);
+  const plan = createPlanFromRooms(boundary, [
+    { id: 'kitchen', x: 0, y: 0, width: 150, height: 120 },
+    { id: 'living & dining', x: 150, y: 0, width: 150, height: 120 },
+    { id: 'corridor-0', x: 0, y: 120, width: 300, height: 30, kind: 'corridor' },
+  ], [{ a: 'kitchen', b: 'living & dining' }]);
+
+  it('should produce a standalone SVG document sized from the boundary', () => {
+    const svg = exportSvg(plan, { scale: 2, padding: 10 });
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="620" height="320"')).toBe(true);
+    expect(svg.trim().endsWith('</svg>')).toBe(true);
+    expect(svg).toContain('id="boundary" d="M10 10 L610 10 L610 310 L10 310 Z"');
+  });
+
+  it('should fill rooms from the palette and corridors with the corridor colour', () => {
+    const svg = exportSvg(plan, { palette: ['#111111', '#222222'], corridorFill: '#999999' });
+
+    expect(svg).toContain('data-room="kitchen"');
+    expect(svg).toMatch(/data-room="kitchen"[^>]*fill="#111111"/);
+    expect(svg).toMatch(/data-room="corridor-0"[^>]*fill="#999999"/);
+  });
+
+  it('should label rooms with escaped names and areas in square metres', () => {
+    const svg = exportSvg(plan, { unitsPerMetre: 30 });
+
+    expect(svg).toContain('>living &amp; dining</text>');
+    expect(svg).toContain('>20.0 m²</text>');
+    expect(svg).not.toContain('>corridor-0</text>');
+  });
+
+  it('should draw adjacency lines and dimension strings only when enabled', () => {
+    expect(exportSvg(plan)).not.toContain('stroke-dasharray');
+    expect(exportSvg(plan)).not.toContain('id="dimensions"');
+
+    const svg = exportSvg(plan, { showAdjacencies: true, showDimensions: true, unitsPerMetre: 30 });
+    expect(svg.match(/stroke-dasharray/g)).toHaveLength(1);
+    expect(svg).toContain('>10.00 m</text>');
+    expect(svg).toContain('>5.00 × 4.00</text>');
+  });
+
+  it('should render traced DiscreteSolver grids with holes as even-odd paths', () => {
+    const grid = new GridBuffer(5, 5);
+    for (let i = 0; i < 5; i++) {
+      grid.set(i, 0, CELL_CORRIDOR);
+      grid.set(i, 4, CELL_CORRIDOR);
+      grid.set(0, i, CELL_CORRIDOR);
+      grid.set(4, i, CELL_CORRIDOR);
+    }
+    grid.set(2, 2, 1);
+
+    const gridPlan = createPlanFromGrid(rectangle(0, 0, 10, 10), grid, {
+      rooms: [{ id: 'core', roomIndex: 1 }],
+      gridResolution: 2,
+    });
+    const svg = exportSvg(gridPlan);
+
+    expect(gridPlan.rooms.map(r => r.id).sort()).toEqual(['core', 'corridor-0']);
+    expect(svg).toMatch(/data-room="corridor-0" d="M[^"]*Z M[^"]*Z"/); // Outer ring + hole
+    expect(svg).toContain('>4.0 m²</text>');
+  });
+});
@@ -0,0 +1,166 @@
+import { Vec2 } from '../core/geometry/Vector2.js';
+import { AABB, Polygon, PolygonLike } from '../core/geometry/Polygon.js';
+import { FloorPlan, PlanRoom, getLabelPoint } from './FloorPlan.js';
+
+const DEFAULT_PALETTE = ['#f4a261', '#e9c46a', '#2a9d8f', '#8ab17d', '#e76f51', '#90caf9', '#ce93d8', '#bcaaa4'];
+
+export interface SvgExportOptions {
+  scale: number;             // SVG pixels per world unit
+  padding: number;           // Margin around the boundary in pixels (room for dimension strings)
+  unitsPerMetre: number;     // World units per metre, for area and dimension labels (30 for springTemplates)
+  palette: string[];         // Room fill colours, cycled in room order
+  corridorFill: string;
+  boundaryStroke: string;
+  boundaryStrokeWidth: number;
+  roomStroke: string;
+  roomStrokeWidth: number;
+  adjacencyStroke: string;
+  fontFamily: string;
+  fontSize: number;          // Pixels
+  showLabels: boolean;       // Room id and area at the room centre
+  showAdjacencies: boolean;  // Dashed lines between the centres of required adjacencies
+  showDimensions: boolean;   // Overall width/height of the boundary and room sizes under the labels
+}
+
+const DEFAULT_OPTIONS: SvgExportOptions = {
+  scale: 1,
+  padding: 40,
+  unitsPerMetre: 1,
+  palette: DEFAULT_PALETTE,
+  corridorFill: '#dddddd',
+  boundaryStroke: '#222222',
+  boundaryStrokeWidth: 3,
+  roomStroke: '#444444',
+  roomStrokeWidth: 1,
+  adjacencyStroke: '#d62828',
+  fontFamily: 'sans-serif',
+  fontSize: 12,
+  showLabels: true,
+  showAdjacencies: false,
+  showDimensions: false,
+};
+
+/**
+ * Render a floor plan as a standalone SVG document.
+ * Pure string output, so it runs in Node and workers without a DOM.
+ */
+export function exportSvg(plan: FloorPlan, options: Partial<SvgExportOptions> = {}): string {
+  const opts: SvgExportOptions = { ...DEFAULT_OPTIONS, ...options };
+  const bounds = Polygon.calculateAABB(Polygon.outerRing(plan.boundary));
+
+  // World -> SVG pixels
+  const px = (x: number) => (x - bounds.minX) * opts.scale + opts.padding;
+  const py = (y: number) => (y - bounds.minY) * opts.scale + opts.padding;
+  const toPath = (polygon: PolygonLike) =>
+    Polygon.rings(polygon)
+      .map(ring => ring.map((p, i) => `${i === 0 ? 'M' : 'L'}${fmt(px(p.x))} ${fmt(py(p.y))}`).join(' ') + ' Z')
+      .join(' ');
+
+  const width = (bounds.maxX - bounds.minX) * opts.scale + 2 * opts.padding;
+  const height = (bounds.maxY - bounds.minY) * opts.scale + 2 * opts.padding;
+  const lines: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(width)}" height="${fmt(height)}" viewBox="0 0 ${fmt(width)} ${fmt(height)}">`,
+  ];
+
+  // Rooms and corridors
+  lines.push('  <g id="rooms">');
+  let colourIndex = 0;
+  for (const room of plan.rooms) {
+    const fill = room.corridor ? opts.corridorFill : opts.palette[colourIndex++ % opts.palette.length];
+    lines.push(
+      `    <path data-room="${escapeXml(room.id)}" d="${toPath(room.polygon)}" fill="${fill}" fill-rule="evenodd" ` +
+      `stroke="${opts.roomStroke}" stroke-width="${opts.roomStrokeWidth}"/>`
+    );
+  }
+  lines.push('  </g>');
+
+  // Boundary on top so the outer wall line is never covered by room fills
+  lines.push(
+    `  <path id="boundary" d="${toPath(plan.boundary)}" fill="none" fill-rule="evenodd" ` +
+    `stroke="${opts.boundaryStroke}" stroke-width="${opts.boundaryStrokeWidth}"/>`
+  );
+
+  const centres = new Map<string, Vec2>();
+  for (const room of plan.rooms) {
+    if (!centres.has(room.id)) centres.set(room.id, getLabelPoint(room));
+  }
+
+  if (opts.showAdjacencies) {
+    lines.push('  <g id="adjacencies">');
+    for (const adj of plan.adjacencies) {
+      const a = centres.get(adj.a);
+      const b = centres.get(adj.b);
+      if (!a || !b) continue;
+      lines.push(
+        `    <line x1="${fmt(px(a.x))}" y1="${fmt(py(a.y))}" x2="${fmt(px(b.x))}" y2="${fmt(py(b.y))}" ` +
+        `stroke="${opts.adjacencyStroke}" stroke-width="1" stroke-dasharray="4 3"/>`
+      );
+    }
+    lines.push('  </g>');
+  }
+
+  const text = (x: number, y: number, content: string, extra = '') =>
+    `<text x="${fmt(x)}" y="${fmt(y)}" font-family="${escapeXml(opts.fontFamily)}" font-size="${opts.fontSize}" ` +
+    `text-anchor="middle"${extra}>${escapeXml(content)}</text>`;
+  const metres = (length: number) => (length / opts.unitsPerMetre).toFixed(2);
+
+  if (opts.showLabels) {
+    lines.push('  <g id="labels">');
+    for (const room of plan.rooms) {
+      if (room.corridor) continue;
+
+      const centre = getLabelPoint(room);
+      const x = px(centre.x);
+      const y = py(centre.y);
+      const area = room.area / (opts.unitsPerMetre * opts.unitsPerMetre);
+
+      lines.push(`    ${text(x, y, room.id, ' font-weight="bold"')}`);
+      lines.push(`    ${text(x, y + 1.2 * opts.fontSize, `${area.toFixed(1)} m²`)}`);
+
+      if (opts.showDimensions) {
+        const box = roomBounds(room);
+        lines.push(`    ${text(x, y + 2.4 * opts.fontSize, `${metres(box.maxX - box.minX)} × ${metres(box.maxY - box.minY)}`)}`);
+      }
+    }
+    lines.push('  </g>');
+  }
+
+  if (opts.showDimensions) {
+    // Overall dimension strings above and left of the boundary
+    const left = px(bounds.minX);
+    const right = px(bounds.maxX);
+    const top = py(bounds.minY);
+    const bottom = py(bounds.maxY);
+    const dimY = top - opts.padding / 2;
+    const dimX = left - opts.padding / 2;
+    const midY = (top + bottom) / 2;
+    const line = (x1: number, y1: number, x2: number, y2: number) =>
+      `<line x1="${fmt(x1)}" y1="${fmt(y1)}" x2="${fmt(x2)}" y2="${fmt(y2)}" stroke="${opts.boundaryStroke}" stroke-width="1"/>`;
+
+    lines.push('  <g id="dimensions">');
+    lines.push(`    ${line(left, dimY, right, dimY)}`);
+    lines.push(`    ${text((left + right) / 2, dimY - 4, `${metres(bounds.maxX - bounds.minX)} m`)}`);
+    lines.push(`    ${line(dimX, top, dimX, bottom)}`);
+    lines.push(`    ${text(dimX - 4, midY, `${metres(bounds.maxY - bounds.minY)} m`, ` transform="rotate(-90 ${fmt(dimX - 4)} ${fmt(midY)})"`)}`);
+    lines.push('  </g>');
+  }
+
+  lines.push('</svg>');
+  return lines.join('\n') + '\n';
+}
+
+function roomBounds(room: PlanRoom): AABB {
+  return Polygon.calculateAABB(Polygon.outerRing(room.polygon));
+}
+
+function fmt(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { loadProgram, writeProgram, writeSolvedPlan, PROGRAM_FORMAT, PROGRAM_FORMAT_VERSION, ProgramData } from './programFile.js';
+import { CorridorRule } from '../types.js';
+import { discreteTemplates } from '../stories/templates/discreteTemplates.js';
+import { springTemplates } from '../stories/templates/springTemplates.js';
+
+describe('programFile', () => {
+  const apartment = discreteTemplates['small-apartment'];
+  const program: ProgramData = {
+    name: 'small-apartment',
+    boundary: apartment.boundary,
+    rooms: apartment.rooms,
+    adjacencies: apartment.adjacencies,
+    startPoint: apartment.startPoint,
+    discreteConfig: { gridResolution: 1, maxIterations: 200 },
+  };
+
+  describe('json flavour', () => {
+    it('should round-trip a discrete template', () => {
+      const loaded = loadProgram(writeProgram(program));
+
+      expect(loaded).toEqual(program);
+      expect(loaded.rooms[0].corridorRule).toBe(CorridorRule.TWO_SIDES);
+    });
+
+    it('should write versioned files with readable corridor rules', () => {
+      const file = JSON.parse(writeProgram(program));
+
+      expect(file.format).toBe(PROGRAM_FORMAT);
+      expect(file.version).toBe(PROGRAM_FORMAT_VERSION);
+      expect(file.rooms[1].corridorRule).toBe('one-side');
+      expect(file.solver.discrete.maxIterations).toBe(200);
+    });
+
+    it('should round-trip corridor specs and reject malformed ones', () => {
+      const rooms = [{ ...program.rooms[0], corridorRule: { sides: ['top' as const, 'left' as const], width: 1.5, unit: 'm' as const } }, ...program.rooms.slice(1)];
+      const file = JSON.parse(writeProgram({ ...program, rooms }));
+
+      expect(file.rooms[0].corridorRule).toEqual({ sides: ['top', 'left'], width: 1.5, unit: 'm' });
+      expect(loadProgram(file).rooms[0].corridorRule).toEqual(rooms[0].corridorRule);
+
+      file.rooms[0].corridorRule = { sides: ['north'], unit: 'ft' };
+      expect(() => loadProgram(file)).toThrow('rooms[0].corridorRule.sides must be an array of top, right, bottom, left');
+      file.rooms[0].corridorRule = { sides: ['top'], unit: 'ft' };
+      expect(() => loadProgram(file)).toThrow('rooms[0].corridorRule.unit must be "cells" or "m"');
+    });
+
+    it('should round-trip solved plans as room states', () => {
+      const template = springTemplates['howoge-1-room'];
+      const loaded = loadProgram(writeSolvedPlan(template.boundary, template.rooms, template.adjacencies));
+
+      expect(loaded.roomStates).toEqual(template.rooms.map(r => ({ ...r, vx: 0, vy: 0 })));
+      expect(loaded.rooms[0].targetArea).toBe(template.rooms[0].width * template.rooms[0].height);
+    });
+
+    it('should keep room kinds and read the legacy hall flag as a corridor', () => {
+      const template = springTemplates['howoge-5-room'];
+      const loaded = loadProgram(writeSolvedPlan(template.boundary, template.rooms, template.adjacencies));
+      expect(loaded.rooms.find(r => r.id === 'corridor-1')?.kind).toBe('corridor');
+
+      const file = JSON.parse(writeProgram(program));
+      file.rooms[0].isHall = true;
+      expect(loadProgram(file).rooms[0].kind).toBe('corridor');
+
+      file.rooms[0].kind = 'lobby';
+      expect(() => loadProgram(file)).toThrow('rooms[0].kind must be one of room, corridor, shaft, stair, outdoor');
+    });
+
+    it('should keep boundary holes', () => {
+      const courtyard = {
+        outer: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }],
+        holes: [[{ x: 3, y: 3 }, { x: 7, y: 3 }, { x: 7, y: 7 }, { x: 3, y: 7 }]],
+      };
+      const loaded = loadProgram(writeProgram({ ...program, boundary: courtyard }));
+
+      expect(loaded.boundary).toEqual(courtyard);
+    });
+  });
+
+  describe('geojson flavour', () => {
+    it('should write a FeatureCollection with closed polygon rings', () => {
+      const collection = JSON.parse(writeProgram(program, 'geojson'));
+
+      expect(collection.type).toBe('FeatureCollection');
+      expect(collection.version).toBe(PROGRAM_FORMAT_VERSION);
+      expect(collection.features[0].properties.role).toBe('boundary');
+
+      const ring = collection.features[0].geometry.coordinates[0];
+      expect(ring[0]).toEqual(ring[ring.length - 1]);
+      expect(collection.features[1].geometry).toBeNull(); // No geometry before solving
+    });
+
+    it('should round-trip programs and solved plans', () => {
+      expect(loadProgram(writeProgram(program, 'geojson'))).toEqual(program);
+
+      const template = springTemplates['howoge-2-room'];
+      const loaded = loadProgram(writeSolvedPlan(template.boundary, template.rooms, template.adjacencies, 'geojson'));
+      expect(loaded.roomStates?.map(r => [r.id, r.x, r.y, r.width, r.height]))
+        .toEqual(template.rooms.map(r => [r.id, r.x, r.y, r.width, r.height]));
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject malformed JSON', () => {
+      expect(() => loadProgram('{ nope')).toThrow(/not valid JSON/);
+    });
+
+    it('should list every problem in one error', () => {
+      const file = JSON.parse(writeProgram(program));
+      file.version = 99;
+      file.rooms[0].targetArea = -5;
+      file.rooms[1].corridorRule = 'sideways';
+      file.rooms.push({ id: 'living', targetArea: 10 });
+      file.adjacencies.push({ a: 'living', b: 'garage' });
+
+      let message = '';
+      try {
+        loadProgram(file);
+      } catch (e) {
+        message = (e as Error).message;
+      }
+
+      expect(message).toContain('unsupported version 99');
+      expect(message).toContain('rooms[0].targetArea must be a positive number');
+      expect(message).toContain('rooms[1].corridorRule must be one of');
+      expect(message).toContain('rooms[4].id "living" is used more than once');
+      expect(message).toContain('adjacencies[3] references unknown room "garage"');
+    });
+
+    it('should require a placement for fixed rooms', () => {
+      const file = JSON.parse(writeProgram(program));
+      file.rooms[0].fixed = true;
+
+      expect(() => loadProgram(file)).toThrow('rooms[0] is fixed but has no placement');
+    });
+
+    it('should require a boundary feature in GeoJSON', () => {
+      const collection = JSON.parse(writeProgram(program, 'geojson'));
+      collection.features.shift();
+
+      expect(() => loadProgram(collection)).toThrow('no feature with role "boundary"');
+    });
+  });
+});
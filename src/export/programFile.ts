@@ -0,0 +1,607 @@
+import { Adjacency, CorridorRule, CorridorSide, CorridorSpec, DiscreteConfig, RoomKind, RoomRequest, RoomState, SpringConfig } from '../types.js';
+import { Vec2 } from '../core/geometry/Vector2.js';
+import { Polygon, PolygonLike } from '../core/geometry/Polygon.js';
+import { ROOM_KINDS } from '../core/rooms/roomKinds.js';
+import { CORRIDOR_SIDES } from '../core/grid/corridorSpec.js';
+
+export const PROGRAM_FORMAT = 'magnetizing-fpg/program';
+export const PROGRAM_FORMAT_VERSION = 1; // Bump when the file layout changes; loaders accept older versions
+
+export type CorridorRuleName = 'none' | 'one-side' | 'two-sides' | 'all-sides';
+
+const CORRIDOR_RULE_NAMES: CorridorRuleName[] = ['none', 'one-side', 'two-sides', 'all-sides']; // Indexed by CorridorRule
+const ROOM_KIND_NAMES = Object.keys(ROOM_KINDS) as RoomKind[];
+
+/**
+ * In-memory program: everything needed to run a solver, plus optional room geometry
+ * (initial positions for SpringSolver, or a solved layout)
+ */
+export interface ProgramData {
+  name?: string;
+  boundary: PolygonLike;
+  rooms: RoomRequest[];
+  adjacencies: Adjacency[];
+  roomStates?: RoomState[]; // Rooms that have geometry, in `rooms` order
+  startPoint?: Vec2;        // DiscreteSolver entrance, in grid cells
+  discreteConfig?: Partial<DiscreteConfig>;
+  springConfig?: Partial<SpringConfig>;
+}
+
+/**
+ * One room as stored in a program file. Geometry (x, y, width, height) is optional and in
+ * boundary units; `targetArea` may be omitted when geometry is given.
+ */
+export interface ProgramRoomJson {
+  id: string;
+  targetArea?: number;
+  targetRatio?: number;
+  corridorRule?: CorridorRuleName | CorridorSpec;
+  kind?: RoomKind;
+  isHall?: boolean; // Legacy flag, read as kind 'corridor'
+  fixed?: boolean;
+  placement?: { x: number; y: number; width: number; height: number };
+  floor?: number;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Plain JSON flavour of a program file
+ */
+export interface ProgramFileJson {
+  format: typeof PROGRAM_FORMAT;
+  version: number;
+  name?: string;
+  boundary: PolygonLike;
+  rooms: ProgramRoomJson[];
+  adjacencies: Adjacency[];
+  startPoint?: Vec2;
+  solver?: { discrete?: Partial<DiscreteConfig>; spring?: Partial<SpringConfig> };
+}
+
+/**
+ * JSON Schema (draft-07) of the plain JSON flavour, for validation in other tools
+ */
+export const PROGRAM_JSON_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: `https://magnetizing-fpg/schemas/program-v${PROGRAM_FORMAT_VERSION}.json`,
+  type: 'object',
+  required: ['format', 'version', 'boundary', 'rooms', 'adjacencies'],
+  definitions: {
+    point: {
+      type: 'object',
+      required: ['x', 'y'],
+      properties: { x: { type: 'number' }, y: { type: 'number' } },
+    },
+    ring: { type: 'array', minItems: 3, items: { $ref: '#/definitions/point' } },
+    rect: {
+      type: 'object',
+      required: ['x', 'y', 'width', 'height'],
+      properties: {
+        x: { type: 'number' },
+        y: { type: 'number' },
+        width: { type: 'number', exclusiveMinimum: 0 },
+        height: { type: 'number', exclusiveMinimum: 0 },
+      },
+    },
+    corridorSpec: {
+      type: 'object',
+      required: ['sides'],
+      properties: {
+        sides: { type: 'array', uniqueItems: true, items: { enum: CORRIDOR_SIDES } },
+        width: { type: 'number', exclusiveMinimum: 0 },
+        unit: { enum: ['cells', 'm'] },
+        rotate: { type: 'boolean' },
+      },
+    },
+  },
+  properties: {
+    format: { const: PROGRAM_FORMAT },
+    version: { type: 'integer', minimum: 1, maximum: PROGRAM_FORMAT_VERSION },
+    name: { type: 'string' },
+    boundary: {
+      oneOf: [
+        { $ref: '#/definitions/ring' },
+        {
+          type: 'object',
+          required: ['outer', 'holes'],
+          properties: {
+            outer: { $ref: '#/definitions/ring' },
+            holes: { type: 'array', items: { $ref: '#/definitions/ring' } },
+          },
+        },
+      ],
+    },
+    rooms: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          targetArea: { type: 'number', exclusiveMinimum: 0 },
+          targetRatio: { type: 'number', exclusiveMinimum: 0 },
+          corridorRule: { oneOf: [{ enum: CORRIDOR_RULE_NAMES }, { $ref: '#/definitions/corridorSpec' }] },
+          kind: { enum: ROOM_KIND_NAMES },
+          isHall: { type: 'boolean' }, // Legacy, read as kind 'corridor'
+          fixed: { type: 'boolean' },
+          placement: { $ref: '#/definitions/rect' },
+          floor: { type: 'integer', minimum: 0 },
+          x: { type: 'number' },
+          y: { type: 'number' },
+          width: { type: 'number', exclusiveMinimum: 0 },
+          height: { type: 'number', exclusiveMinimum: 0 },
+        },
+      },
+    },
+    adjacencies: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['a', 'b'],
+        properties: { a: { type: 'string' }, b: { type: 'string' }, weight: { type: 'number' } },
+      },
+    },
+    startPoint: { $ref: '#/definitions/point' },
+    solver: {
+      type: 'object',
+      properties: { discrete: { type: 'object' }, spring: { type: 'object' } },
+    },
+  },
+} as const;
+
+type Json = Record<string, unknown>;
+
+/**
+ * Load and validate a program file in either flavour (plain JSON or GeoJSON FeatureCollection).
+ * Throws one Error listing every problem found.
+ */
+export function loadProgram(input: string | object): ProgramData {
+  let data: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch (e) {
+      throw new Error(`Invalid program file: not valid JSON (${(e as Error).message})`);
+    }
+  }
+
+  if (!isObject(data)) {
+    throw new Error('Invalid program file: expected a JSON object');
+  }
+
+  const errors: string[] = [];
+  const file = data.type === 'FeatureCollection' ? fromGeoJson(data, errors) : data;
+  const program = errors.length === 0 ? validateFile(file, errors) : null;
+
+  if (!program || errors.length > 0) {
+    throw new Error(`Invalid program file:\n- ${errors.join('\n- ')}`);
+  }
+
+  return program;
+}
+
+/**
+ * Serialize a program. `roomStates` geometry is written onto the matching rooms.
+ */
+export function writeProgram(program: ProgramData, flavour: 'json' | 'geojson' = 'json'): string {
+  const file = toFile(program);
+  return JSON.stringify(flavour === 'geojson' ? toGeoJson(file) : file, null, 2) + '\n';
+}
+
+/**
+ * Serialize a solved layout (SpringSolver.getState(), EvolutionaryFloorplanSolver.getState()).
+ * Each room's target area is its solved area.
+ */
+export function writeSolvedPlan(
+  boundary: PolygonLike,
+  rooms: RoomState[],
+  adjacencies: Adjacency[],
+  flavour: 'json' | 'geojson' = 'json'
+): string {
+  return writeProgram({
+    boundary,
+    rooms: rooms.map(r => ({ id: r.id, targetArea: r.width * r.height, targetRatio: r.targetRatio, kind: r.kind })),
+    adjacencies,
+    roomStates: rooms,
+  }, flavour);
+}
+
+function toFile(program: ProgramData): ProgramFileJson {
+  const geometry = new Map((program.roomStates ?? []).map(s => [s.id, s]));
+
+  const rooms = program.rooms.map((room): ProgramRoomJson => {
+    const state = geometry.get(room.id);
+    return dropUndefined({
+      id: room.id,
+      targetArea: room.targetArea,
+      targetRatio: room.targetRatio,
+      corridorRule: typeof room.corridorRule === 'number' ? CORRIDOR_RULE_NAMES[room.corridorRule] : room.corridorRule,
+      kind: room.kind,
+      fixed: room.fixed,
+      placement: room.placement,
+      floor: room.floor,
+      x: state?.x,
+      y: state?.y,
+      width: state?.width,
+      height: state?.height,
+    });
+  });
+
+  const solver = program.discreteConfig || program.springConfig
+    ? dropUndefined({ discrete: program.discreteConfig, spring: program.springConfig })
+    : undefined;
+
+  return dropUndefined({
+    format: PROGRAM_FORMAT,
+    version: PROGRAM_FORMAT_VERSION,
+    name: program.name,
+    boundary: Polygon.copy(program.boundary),
+    rooms,
+    adjacencies: program.adjacencies.map(a => dropUndefined({ a: a.a, b: a.b, weight: a.weight })),
+    startPoint: program.startPoint,
+    solver,
+  });
+}
+
+function validateFile(file: Json, errors: string[]): ProgramData | null {
+  if (file.format !== PROGRAM_FORMAT) {
+    errors.push(`format must be "${PROGRAM_FORMAT}"`);
+  }
+  if (typeof file.version !== 'number' || !Number.isInteger(file.version) || file.version < 1) {
+    errors.push('version must be a positive integer');
+  } else if (file.version > PROGRAM_FORMAT_VERSION) {
+    errors.push(`unsupported version ${file.version} (this library reads up to ${PROGRAM_FORMAT_VERSION})`);
+  }
+  if (file.name !== undefined && typeof file.name !== 'string') {
+    errors.push('name must be a string');
+  }
+
+  const boundary = readBoundary(file.boundary, 'boundary', errors);
+
+  const rooms: RoomRequest[] = [];
+  const roomStates: RoomState[] = [];
+  const ids = new Set<string>();
+
+  if (!Array.isArray(file.rooms)) {
+    errors.push('rooms must be an array');
+  } else {
+    file.rooms.forEach((raw: unknown, i) => {
+      const path = `rooms[${i}]`;
+      if (!isObject(raw)) {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+
+      if (typeof raw.id !== 'string' || raw.id.length === 0) {
+        errors.push(`${path}.id must be a non-empty string`);
+        return;
+      }
+      if (ids.has(raw.id)) {
+        errors.push(`${path}.id "${raw.id}" is used more than once`);
+      }
+      ids.add(raw.id);
+
+      const rect = readRect(raw, path, errors, false);
+      const targetArea = raw.targetArea ?? (rect ? rect.width * rect.height : undefined);
+      if (!isPositive(targetArea)) {
+        errors.push(`${path}.targetArea must be a positive number (or give x, y, width, height)`);
+      }
+      const targetRatio = raw.targetRatio ?? 1;
+      if (!isPositive(targetRatio)) {
+        errors.push(`${path}.targetRatio must be a positive number`);
+      }
+
+      let corridorRule: CorridorRule | CorridorSpec | undefined;
+      if (isObject(raw.corridorRule)) {
+        corridorRule = readCorridorSpec(raw.corridorRule, `${path}.corridorRule`, errors);
+      } else if (raw.corridorRule !== undefined) {
+        const index = CORRIDOR_RULE_NAMES.indexOf(raw.corridorRule as CorridorRuleName);
+        if (index < 0) {
+          errors.push(`${path}.corridorRule must be one of ${CORRIDOR_RULE_NAMES.join(', ')}, or a corridor spec`);
+        } else {
+          corridorRule = index as CorridorRule;
+        }
+      }
+
+      if (raw.kind !== undefined && !ROOM_KIND_NAMES.includes(raw.kind as RoomKind)) {
+        errors.push(`${path}.kind must be one of ${ROOM_KIND_NAMES.join(', ')}`);
+      }
+      const kind = (raw.kind as RoomKind | undefined) ?? (raw.isHall === true ? 'corridor' : undefined);
+
+      for (const flag of ['isHall', 'fixed'] as const) {
+        if (raw[flag] !== undefined && typeof raw[flag] !== 'boolean') {
+          errors.push(`${path}.${flag} must be a boolean`);
+        }
+      }
+      if (raw.floor !== undefined && (!Number.isInteger(raw.floor) || (raw.floor as number) < 0)) {
+        errors.push(`${path}.floor must be a non-negative integer`);
+      }
+
+      const placement = raw.placement !== undefined ? readRect(raw.placement, `${path}.placement`, errors, true) : undefined;
+      if (raw.fixed === true && !placement) {
+        errors.push(`${path} is fixed but has no placement`);
+      }
+
+      rooms.push(dropUndefined({
+        id: raw.id,
+        targetArea: targetArea as number,
+        targetRatio: targetRatio as number,
+        kind,
+        fixed: raw.fixed as boolean | undefined,
+        placement: placement ?? undefined,
+        floor: raw.floor as number | undefined,
+        corridorRule,
+      }));
+
+      if (rect) {
+        roomStates.push(dropUndefined({
+          id: raw.id,
+          ...rect,
+          vx: 0,
+          vy: 0,
+          targetRatio: targetRatio as number,
+          kind,
+          fixed: raw.fixed as boolean | undefined,
+          floor: raw.floor as number | undefined,
+        }));
+      }
+    });
+  }
+
+  const adjacencies: Adjacency[] = [];
+  if (!Array.isArray(file.adjacencies)) {
+    errors.push('adjacencies must be an array');
+  } else {
+    file.adjacencies.forEach((raw: unknown, i) => {
+      const path = `adjacencies[${i}]`;
+      if (!isObject(raw) || typeof raw.a !== 'string' || typeof raw.b !== 'string') {
+        errors.push(`${path} must have string room ids a and b`);
+        return;
+      }
+      for (const end of [raw.a, raw.b]) {
+        if (!ids.has(end)) errors.push(`${path} references unknown room "${end}"`);
+      }
+      if (raw.weight !== undefined && !isFiniteNumber(raw.weight)) {
+        errors.push(`${path}.weight must be a number`);
+      }
+      adjacencies.push(dropUndefined({ a: raw.a, b: raw.b, weight: raw.weight as number | undefined }));
+    });
+  }
+
+  let startPoint: Vec2 | undefined;
+  if (file.startPoint !== undefined) {
+    startPoint = readPoint(file.startPoint, 'startPoint', errors) ?? undefined;
+  }
+
+  let discreteConfig: Partial<DiscreteConfig> | undefined;
+  let springConfig: Partial<SpringConfig> | undefined;
+  if (file.solver !== undefined) {
+    if (!isObject(file.solver)) {
+      errors.push('solver must be an object');
+    } else {
+      for (const key of ['discrete', 'spring'] as const) {
+        if (file.solver[key] !== undefined && !isObject(file.solver[key])) {
+          errors.push(`solver.${key} must be an object`);
+        }
+      }
+      discreteConfig = file.solver.discrete as Partial<DiscreteConfig> | undefined;
+      springConfig = file.solver.spring as Partial<SpringConfig> | undefined;
+    }
+  }
+
+  if (!boundary) return null;
+
+  return dropUndefined({
+    name: file.name as string | undefined,
+    boundary,
+    rooms,
+    adjacencies,
+    roomStates: roomStates.length > 0 ? roomStates : undefined,
+    startPoint,
+    discreteConfig,
+    springConfig,
+  });
+}
+
+/**
+ * GeoJSON flavour: boundary and rooms are Polygon features (rooms without geometry have
+ * `geometry: null`), everything else is kept as foreign members of the FeatureCollection.
+ * Coordinates are plan coordinates, not longitude/latitude.
+ */
+function toGeoJson(file: ProgramFileJson): Json {
+  const ring = (points: Vec2[]) => [...points, points[0]].map(p => [p.x, p.y]);
+  const polygon = (shape: PolygonLike) => ({ type: 'Polygon', coordinates: Polygon.rings(shape).map(ring) });
+
+  const features: Json[] = [
+    { type: 'Feature', geometry: polygon(file.boundary), properties: { role: 'boundary' } },
+  ];
+
+  for (const room of file.rooms) {
+    const { x, y, width, height, ...properties } = room;
+    const hasGeometry = x !== undefined && y !== undefined && width !== undefined && height !== undefined;
+    features.push({
+      type: 'Feature',
+      id: room.id,
+      geometry: hasGeometry ? polygon(Polygon.createRectangle(x, y, width, height)) : null,
+      properties: { role: 'room', ...properties },
+    });
+  }
+
+  const { boundary: _boundary, rooms: _rooms, ...members } = file;
+  return { type: 'FeatureCollection', ...members, features };
+}
+
+function fromGeoJson(collection: Json, errors: string[]): Json {
+  const { type: _type, features, ...members } = collection;
+  if (!Array.isArray(features)) {
+    errors.push('features must be an array');
+    return {};
+  }
+
+  let boundary: unknown;
+  const rooms: Json[] = [];
+
+  features.forEach((feature: unknown, i) => {
+    const path = `features[${i}]`;
+    if (!isObject(feature) || !isObject(feature.properties)) {
+      errors.push(`${path} must be a Feature with properties`);
+      return;
+    }
+
+    const { role, ...properties } = feature.properties;
+    const rings = readGeoJsonPolygon(feature.geometry, `${path}.geometry`, errors);
+
+    if (role === 'boundary') {
+      if (!rings) {
+        errors.push(`${path} boundary needs a Polygon geometry`);
+      } else {
+        boundary = rings.length === 1 ? rings[0] : { outer: rings[0], holes: rings.slice(1) };
+      }
+    } else if (role === 'room') {
+      const room: Json = { ...properties };
+      if (rings) {
+        const box = Polygon.calculateAABB(rings[0]);
+        Object.assign(room, { x: box.minX, y: box.minY, width: box.maxX - box.minX, height: box.maxY - box.minY });
+      }
+      rooms.push(room);
+    } else {
+      errors.push(`${path}.properties.role must be "boundary" or "room"`);
+    }
+  });
+
+  if (boundary === undefined) {
+    errors.push('no feature with role "boundary"');
+  }
+
+  return { ...members, boundary, rooms };
+}
+
+/**
+ * Rings of a GeoJSON Polygon without the repeated closing point, or null for `geometry: null`
+ */
+function readGeoJsonPolygon(geometry: unknown, path: string, errors: string[]): Vec2[][] | null {
+  if (geometry === null || geometry === undefined) return null;
+
+  if (!isObject(geometry) || geometry.type !== 'Polygon' || !Array.isArray(geometry.coordinates)) {
+    errors.push(`${path} must be a GeoJSON Polygon or null`);
+    return null;
+  }
+
+  const rings: Vec2[][] = [];
+  for (const ring of geometry.coordinates as unknown[]) {
+    if (!Array.isArray(ring) || !ring.every(p => Array.isArray(p) && p.length >= 2 && p.every(isFiniteNumber))) {
+      errors.push(`${path}.coordinates must be rings of [x, y] positions`);
+      return null;
+    }
+    const points = ring.map(([x, y]: number[]) => ({ x, y }));
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (points.length > 1 && first.x === last.x && first.y === last.y) points.pop();
+    rings.push(points);
+  }
+
+  return rings.length > 0 ? rings : null;
+}
+
+function readBoundary(raw: unknown, path: string, errors: string[]): PolygonLike | null {
+  if (Array.isArray(raw)) {
+    return readRing(raw, path, errors);
+  }
+  if (isObject(raw) && Array.isArray(raw.outer)) {
+    const outer = readRing(raw.outer, `${path}.outer`, errors);
+    const holes = Array.isArray(raw.holes)
+      ? raw.holes.map((hole: unknown, i) => readRing(hole, `${path}.holes[${i}]`, errors))
+      : [];
+    if (raw.holes !== undefined && !Array.isArray(raw.holes)) {
+      errors.push(`${path}.holes must be an array`);
+    }
+    return outer && holes.every(h => h) ? { outer, holes: holes as Vec2[][] } : null;
+  }
+  errors.push(`${path} must be a list of points or { outer, holes }`);
+  return null;
+}
+
+function readRing(raw: unknown, path: string, errors: string[]): Vec2[] | null {
+  if (!Array.isArray(raw) || raw.length < 3) {
+    errors.push(`${path} must have at least 3 points`);
+    return null;
+  }
+  const points = raw.map((p: unknown, i) => readPoint(p, `${path}[${i}]`, errors));
+  return points.every(p => p) ? (points as Vec2[]) : null;
+}
+
+function readPoint(raw: unknown, path: string, errors: string[]): Vec2 | null {
+  if (!isObject(raw) || !isFiniteNumber(raw.x) || !isFiniteNumber(raw.y)) {
+    errors.push(`${path} must be a point { x, y }`);
+    return null;
+  }
+  return { x: raw.x, y: raw.y };
+}
+
+/**
+ * Read { x, y, width, height }. With `required` false, a room without any geometry is fine (returns null).
+ */
+function readRect(raw: unknown, path: string, errors: string[], required: boolean): { x: number; y: number; width: number; height: number } | null {
+  if (!isObject(raw)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  const keys = ['x', 'y', 'width', 'height'] as const;
+  if (!required && keys.every(k => raw[k] === undefined)) return null;
+
+  if (!isFiniteNumber(raw.x) || !isFiniteNumber(raw.y) || !isPositive(raw.width) || !isPositive(raw.height)) {
+    errors.push(`${path} needs numeric x, y and positive width, height`);
+    return null;
+  }
+  return { x: raw.x, y: raw.y, width: raw.width, height: raw.height };
+}
+
+/**
+ * Read { sides, width?, unit?, rotate? }
+ */
+function readCorridorSpec(raw: Json, path: string, errors: string[]): CorridorSpec | undefined {
+  const sides = raw.sides;
+  if (!Array.isArray(sides) || !sides.every(side => CORRIDOR_SIDES.includes(side as CorridorSide))) {
+    errors.push(`${path}.sides must be an array of ${CORRIDOR_SIDES.join(', ')}`);
+    return undefined;
+  }
+  if (raw.width !== undefined && !isPositive(raw.width)) {
+    errors.push(`${path}.width must be a positive number`);
+  }
+  if (raw.unit !== undefined && raw.unit !== 'cells' && raw.unit !== 'm') {
+    errors.push(`${path}.unit must be "cells" or "m"`);
+  }
+  if (raw.rotate !== undefined && typeof raw.rotate !== 'boolean') {
+    errors.push(`${path}.rotate must be a boolean`);
+  }
+
+  return dropUndefined({
+    sides: [...new Set(sides as CorridorSide[])],
+    width: raw.width as number | undefined,
+    unit: raw.unit as CorridorSpec['unit'],
+    rotate: raw.rotate as boolean | undefined,
+  });
+}
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isPositive(value: unknown): value is number {
+  return isFiniteNumber(value) && value > 0;
+}
+
+/**
+ * Remove undefined optional fields so written files and loaded objects stay minimal
+ */
+function dropUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
@@ -4,6 +4,20 @@ export * from './constants.js';
 export * from './core/geometry/Vector2.js';
 export * from './core/geometry/Polygon.js';
 export * from './core/grid/GridBuffer.js';
+export * from './core/grid/CorridorRouter.js';
+export * from './core/grid/corridorSpec.js';
 export * from './utils/Random.js';
 export * from './core/solvers/DiscreteSolver.js';
 export * from './core/solvers/SpringSolver.js';
+export * from './core/solvers/MultiFloorSolver.js';
+export * from './core/layout/DoorPlacer.js';
+export * from './core/layout/WallGraph.js';
+export * from './core/rooms/roomKinds.js';
+export * from './core/validation/validateProgram.js';
+export * from './core/metrics/evaluateLayout.js';
+export * from './export/FloorPlan.js';
+export * from './export/exportSvg.js';
+export * from './export/exportDxf.js';
+export * from './export/programFile.js';
+export * from './workers/solverJob.js';
+export * from './workers/runSolverInWorker.js';
@@ -493,6 +493,7 @@ export const springTemplates: Record<SpringTemplateType, SpringTemplate> = {
         vx: 0,
         vy: 0,
         targetRatio: 3.0,
+        kind: "corridor",
       },
       // Balkon ~5m²
       {
@@ -783,6 +784,7 @@ export const springTemplates: Record<SpringTemplateType, SpringTemplate> = {
         vx: 0,
         vy: 0,
         targetRatio: 4,
+        kind: "corridor",
       },
 
       // Living area
@@ -1726,6 +1728,7 @@ export const springTemplates: Record<SpringTemplateType, SpringTemplate> = {
         vx: 0,
         vy: 0,
         targetRatio: 100,
+        kind: "corridor",
       },
       {
         id: "apt-1-1",
@@ -1838,6 +1841,7 @@ export const springTemplates: Record<SpringTemplateType, SpringTemplate> = {
         vx: 0,
         vy: 0,
         targetRatio: 100,
+        kind: "corridor",
       },
       {
         id: "apt-2-1",
@@ -1950,6 +1954,7 @@ export const springTemplates: Record<SpringTemplateType, SpringTemplate> = {
         vx: 0,
         vy: 0,
         targetRatio: 100,
+        kind: "corridor",
       },
       {
         id: "apt-3-1",
@@ -2062,6 +2067,7 @@ export const springTemplates: Record<SpringTemplateType, SpringTemplate> = {
         vx: 0,
         vy: 0,
         targetRatio: 100,
+        kind: "corridor",
       },
       {
         id: "apt-4-1",
@@ -2174,6 +2180,7 @@ export const springTemplates: Record<SpringTemplateType, SpringTemplate> = {
         vx: 0,
         vy: 0,
         targetRatio: 100,
+        kind: "corridor",
       },
       {
         id: "apt-5-1",
@@ -2286,6 +2293,7 @@ export const springTemplates: Record<SpringTemplateType, SpringTemplate> = {
         vx: 0,
         vy: 0,
         targetRatio: 100,
+        kind: "corridor",
       },
       {
         id: "apt-6-1",
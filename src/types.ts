@@ -1,3 +1,5 @@
+import { Vec2 } from './core/geometry/Vector2.js';
+
 /**
  * Defines how a room projects circulation space (corridors).
  */
@@ -8,15 +10,50 @@ export enum CorridorRule {
   ALL_SIDES = 3,  // Halo: Top, Bottom, Left, Right
 }
 
+export type CorridorSide = 'top' | 'right' | 'bottom' | 'left';
+
+/**
+ * Corridor strips a room carries, for layouts CorridorRule cannot express.
+ * Strips on two adjacent sides share the corner block between them.
+ */
+export interface CorridorSpec {
+  sides: CorridorSide[]; // Any combination; empty means no corridor
+  width?: number;        // Strip width (default 1)
+  unit?: 'cells' | 'm';  // Unit of `width` (default 'cells'); metres round up to whole cells
+  rotate?: boolean;      // Let the solver turn the side set in 90° steps when placing (default true)
+}
+
+/**
+ * A building exit for DiscreteSolver. Give either a grid `cell`, or a `point` on the
+ * boundary polygon in boundary units, which is snapped to the nearest inside cell.
+ */
+export interface Entrance {
+  id?: string; // Name in reports (default "entrance-<index>")
+  cell?: { x: number; y: number };
+  point?: Vec2;
+}
+
+/**
+ * How DiscreteSolver builds circulation:
+ * - 'stamp': every room carries the corridor strips of its corridorRule, which must touch the network
+ * - 'route': rooms are placed bare; a router links the entrance to every room whose rule has a side
+ */
+export type CorridorMode = 'stamp' | 'route';
+
 export interface DiscreteConfig {
   gridResolution: number;
   maxIterations: number;
   mutationRate: number; // 0.0 to 1.0
-  startPoint?: { x: number; y: number }; // Entrance point for corridor network (in grid coordinates)
+  startPoint?: { x: number; y: number }; // Single entrance cell; ignored when `entrances` is given
+  entrances?: Entrance[]; // Exits the corridor network grows from (default: startPoint, else the grid centre)
+  obstacles?: Vec2[][]; // Static polygons (columns, voids) no room or corridor may cover, in boundary coordinates
+  strict?: boolean;     // Run validateProgram in the constructor and throw on errors
+  corridorMode?: CorridorMode; // How corridors are built (default 'stamp')
+  corridorWidth?: number;      // Width of routed corridors in cells (default 1, 'route' mode only)
   weights: {
     compactness: number; // Reward touching neighbors
     adjacency: number;   // Reward satisfying connectivity graph
-    corridor: number;    // Reward touching corridors
+    corridor: number;    // Reward touching corridors, penalize corridor cells and dead ends
   };
 }
 
@@ -46,18 +83,56 @@ export interface SpringConfig {
   freshBloodSpawnRadius?: number;  // Spawn radius around best gene's centroid (default 100)
   useNonLinearOverlapPenalty?: boolean; // Apply exponential penalty to overlaps based on size/shape
   overlapPenaltyExponent?: number; // Exponent for overlap penalty (1.0 = linear, 2.0 = quadratic)
+
+  // Island model (populationSize applies per island)
+  islandCount?: number;            // Number of independently evolving sub-populations (1 = single population)
+  migrationInterval?: number;      // Every N generations, migrate top genes between islands
+  migrationCount?: number;         // Number of top genes each island sends per migration
+  migrationTopology?: MigrationTopology; // 'ring' = to the next island, 'full' = to every other island
+
+  // Static obstacles
+  obstacles?: Vec2[][];            // Polygons (columns, voids) rooms must avoid; overlap is penalized like room overlap.
+                                   // Collisions push rooms clear of the bounding box, so concave ones repel like rectangles
+
+  // Multi-objective selection (NSGA-II)
+  useParetoSelection?: boolean;    // Rank genes by non-domination on (fitnessG, fitnessT) instead of fitnessBalance
+  paretoAreaObjective?: boolean;   // Add area deviation from targetArea as a third Pareto objective
+
+  // Input checking
+  strict?: boolean;                // Run validateProgram in the constructor and throw on errors
 }
 
+export type MigrationTopology = 'ring' | 'full';
+
+/**
+ * One non-dominated layout from a multi-objective run
+ */
+export interface ParetoLayout {
+  rooms: RoomState[];
+  fitnessG: number;       // Geometric objective (overlaps + out-of-bounds)
+  fitnessT: number;       // Topological objective (connection distances)
+  areaDeviation: number;  // Sum of relative area errors against targetArea
+}
+
+/**
+ * What a room is used for. Solvers, metrics and renderers look up per-kind behaviour
+ * in ROOM_KINDS; a room without a kind is a plain 'room'.
+ */
+export type RoomKind = 'room' | 'corridor' | 'shaft' | 'stair' | 'outdoor';
+
 export interface RoomRequest {
   id: string;
   targetArea: number;
   targetRatio: number; // Max aspect ratio (W/H). Valid range: [1/targetRatio, targetRatio]. Best: 1.0 (square)
-  isHall?: boolean;
+  kind?: RoomKind; // Default 'room'
+  fixed?: boolean; // Locked in place (staircase, shaft, existing room); requires `placement`
+  placement?: { x: number; y: number; width: number; height: number }; // Locked rectangle in grid cells (DiscreteSolver)
+  floor?: number; // Pin the room to this floor index (MultiFloorSolver); unpinned rooms are assigned automatically
   /**
-   * Defines automatic corridor generation rule.
+   * Defines automatic corridor generation rule: a fixed CorridorRule, or a CorridorSpec.
    * Defaults to CorridorRule.NONE if undefined.
    */
-  corridorRule?: CorridorRule;
+  corridorRule?: CorridorRule | CorridorSpec;
 }
 
 export interface Adjacency {
@@ -75,6 +150,9 @@ export interface RoomState {
   vx: number; // Velocity X
   vy: number; // Velocity Y
   targetRatio: number; // Max aspect ratio (W/H). Valid range: [1/targetRatio, targetRatio]
+  kind?: RoomKind; // Default 'room'
+  fixed?: boolean; // Position and size are locked; solvers never move or resize this room
+  floor?: number; // Floor index the room sits on (MultiFloorSolver)
 }
 
 // Room state for Evolutionary Strategy (no velocity fields)
@@ -90,4 +168,29 @@ export interface RoomStateES {
   pressureY: number; // Temporary vertical collision pressure (reset each iteration)
   accumulatedPressureX: number; // Persistent pressure used for mutation guidance
   accumulatedPressureY: number; // Persistent pressure used for mutation guidance
+  kind?: RoomKind; // Default 'room'
+  fixed?: boolean; // Position and size are locked; solvers never move or resize this room
+}
+
+// Stopping rules shared by all solvers' run loops (SpringSolver.simulate, DiscreteSolver.run, EvolutionaryFloorplanSolver.simulate)
+export interface StoppingRules {
+  stagnationWindow?: number; // Stop after N generations without best-fitness improvement
+  timeBudgetMs?: number;     // Stop once the run has taken this many milliseconds of wall-clock time
+  targetFitness?: number;    // Stop once best fitness reaches this value (<= for minimizing solvers, >= for DiscreteSolver score)
+}
+
+export interface RunProgress {
+  generation: number;  // Generation (iteration) counter after the step that just finished
+  bestFitness: number; // Best fitness so far (DiscreteSolver reports its global score, higher is better)
+  elapsedMs: number;   // Wall-clock time since the run started
+}
+
+export interface RunOptions extends StoppingRules {
+  onProgress?: (progress: RunProgress) => void; // Called after every generation
+}
+
+export type StopReason = 'maxGenerations' | 'stagnation' | 'timeBudget' | 'targetFitness';
+
+export interface RunResult extends RunProgress {
+  stopReason: StopReason;
 }
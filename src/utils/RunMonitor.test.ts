@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { RunMonitor } from './RunMonitor.js';
+import { RunProgress } from '../types.js';
+
+describe('RunMonitor', () => {
+  describe('record', () => {
+    it('should continue when no stopping rules are set', () => {
+      const monitor = new RunMonitor({}, true);
+
+      for (let gen = 1; gen <= 100; gen++) {
+        expect(monitor.record(gen, 10)).toBeNull();
+      }
+    });
+
+    it('should report progress for every generation', () => {
+      const progress: RunProgress[] = [];
+      const monitor = new RunMonitor({ onProgress: p => progress.push(p) }, true);
+
+      monitor.record(1, 5);
+      monitor.record(2, 4);
+
+      expect(progress.map(p => p.generation)).toEqual([1, 2]);
+      expect(progress.map(p => p.bestFitness)).toEqual([5, 4]);
+      expect(progress[1].elapsedMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should stop on target fitness when minimizing', () => {
+      const monitor = new RunMonitor({ targetFitness: 1 }, true);
+
+      expect(monitor.record(1, 3)).toBeNull();
+      expect(monitor.record(2, 1)).toBe('targetFitness');
+    });
+
+    it('should stop on target fitness when maximizing', () => {
+      const monitor = new RunMonitor({ targetFitness: 100 }, false);
+
+      expect(monitor.record(1, 50)).toBeNull();
+      expect(monitor.record(2, 120)).toBe('targetFitness');
+    });
+
+    it('should stop after the stagnation window without improvement', () => {
+      const monitor = new RunMonitor({ stagnationWindow: 3 }, true);
+
+      expect(monitor.record(1, 10)).toBeNull();
+      expect(monitor.record(2, 8)).toBeNull(); // Improvement resets the window
+      expect(monitor.record(3, 8)).toBeNull();
+      expect(monitor.record(4, 9)).toBeNull();
+      expect(monitor.record(5, 8)).toBe('stagnation');
+    });
+
+    it('should treat higher fitness as improvement when maximizing', () => {
+      const monitor = new RunMonitor({ stagnationWindow: 2 }, false);
+
+      expect(monitor.record(1, 10)).toBeNull();
+      expect(monitor.record(2, 20)).toBeNull();
+      expect(monitor.record(3, 15)).toBeNull();
+      expect(monitor.record(4, 15)).toBe('stagnation');
+    });
+
+    it('should stop when the time budget is exhausted', () => {
+      const monitor = new RunMonitor({ timeBudgetMs: 0 }, true);
+
+      expect(monitor.record(1, 10)).toBe('timeBudget');
+    });
+  });
+
+  describe('finish', () => {
+    it('should build a run result', () => {
+      const monitor = new RunMonitor({}, true);
+      const result = monitor.finish('maxGenerations', 12, 3.5);
+
+      expect(result.stopReason).toBe('maxGenerations');
+      expect(result.generation).toBe(12);
+      expect(result.bestFitness).toBe(3.5);
+      expect(result.elapsedMs).toBeGreaterThanOrEqual(0);
+    });
+  });
+});
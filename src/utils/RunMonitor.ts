@@ -0,0 +1,66 @@
+import { RunOptions, RunResult, StopReason } from '../types.js';
+
+/**
+ * Tracks a solver run loop: reports progress and evaluates the stopping rules.
+ * Solvers call record() once per generation and stop when it returns a reason.
+ */
+export class RunMonitor {
+  private options: RunOptions;
+  private minimize: boolean;
+  private startTime: number;
+  private bestFitness: number;
+  private lastImprovementGeneration: number | null = null;
+
+  /**
+   * @param minimize - true if lower fitness is better (SpringSolver, EvolutionaryFloorplanSolver)
+   */
+  constructor(options: RunOptions, minimize: boolean) {
+    this.options = options;
+    this.minimize = minimize;
+    this.startTime = performance.now();
+    this.bestFitness = minimize ? Infinity : -Infinity;
+  }
+
+  /**
+   * Record the state after a generation. Returns the reason to stop, or null to continue.
+   */
+  record(generation: number, bestFitness: number): StopReason | null {
+    const elapsedMs = this.elapsed();
+
+    const improved = this.minimize ? bestFitness < this.bestFitness : bestFitness > this.bestFitness;
+    if (improved || this.lastImprovementGeneration === null) {
+      this.bestFitness = bestFitness;
+      this.lastImprovementGeneration = generation;
+    }
+
+    this.options.onProgress?.({ generation, bestFitness, elapsedMs });
+
+    const { targetFitness, stagnationWindow, timeBudgetMs } = this.options;
+
+    if (targetFitness !== undefined) {
+      const reached = this.minimize ? bestFitness <= targetFitness : bestFitness >= targetFitness;
+      if (reached) return 'targetFitness';
+    }
+
+    if (stagnationWindow !== undefined && generation - this.lastImprovementGeneration >= stagnationWindow) {
+      return 'stagnation';
+    }
+
+    if (timeBudgetMs !== undefined && elapsedMs >= timeBudgetMs) {
+      return 'timeBudget';
+    }
+
+    return null;
+  }
+
+  /**
+   * Build the result object for a finished run
+   */
+  finish(stopReason: StopReason, generation: number, bestFitness: number): RunResult {
+    return { stopReason, generation, bestFitness, elapsedMs: this.elapsed() };
+  }
+
+  private elapsed(): number {
+    return performance.now() - this.startTime;
+  }
+}
@@ -4,6 +4,7 @@ import { useFrame } from "@react-three/fiber";
 import * as THREE from "three";
 import { RoomState, Adjacency } from "../types.js";
 import { Vec2 } from "../core/geometry/Vector2.js";
+import { kindBehavior } from "../core/rooms/roomKinds.js";
 import type { SpringSolver } from "../core/solvers/SpringSolver.js";
 import type { EvolutionaryFloorplanSolver } from "../core/solvers/EvolutionaryFloorplanSolver.js";
 
@@ -123,14 +124,6 @@ const roomColors: Record<string, string> = {
   "fountain-court": "#7fffd4",
   "grand-terrace": "#98fb98",
 
-  // Hotel - Corridors (gray tones)
-  "corridor-1": "#808080",
-  "corridor-2": "#808080",
-  "corridor-3": "#808080",
-  "corridor-4": "#808080",
-  "corridor-5": "#808080",
-  "corridor-6": "#808080",
-
   // Hotel - Floor 1 apartments (light blue)
   "apt-1-1": "#87ceeb",
   "apt-1-2": "#87ceeb",
@@ -448,7 +441,8 @@ export const SpringSystem3D: React.FC<SpringSystem3DProps> = ({
 
       {/* Render rooms - meshes will be updated imperatively via refs */}
       {roomsSnapshot.map((room: RoomState) => {
-        const color = roomColors[room.id] || "#cccccc";
+        // Corridors, stairs, shafts and outdoor rooms share their kind's colour
+        const color = kindBehavior(room).color ?? roomColors[room.id] ?? "#cccccc";
         const centerX = room.x + room.width / 2;
         const centerY = room.y + room.height / 2;
 
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { Worker } from 'node:worker_threads';
+import { runSolverInWorker } from './runSolverInWorker.js';
+import { SolverProgress } from './solverJob.js';
+import { SpringSolver } from '../core/solvers/SpringSolver.js';
+import { RoomState } from '../types.js';
+import { Vec2 } from '../core/geometry/Vector2.js';
+
+// The worker entry is TypeScript in the source tree, so load it through tsx
+const createTsWorker = (): Worker => {
+  const entry = new URL('./solverWorker.ts', import.meta.url).href;
+  return new Worker(
+    `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(entry)}); });`,
+    { eval: true }
+  );
+};
+
+describe('runSolverInWorker', () => {
+  const boundary: Vec2[] = [
+    { x: 0, y: 0 },
+    { x: 100, y: 0 },
+    { x: 100, y: 100 },
+    { x: 0, y: 100 },
+  ];
+
+  const rooms: RoomState[] = [
+    { id: 'room1', x: 10, y: 10, width: 20, height: 20, vx: 0, vy: 0, targetRatio: 1.2 },
+    { id: 'room2', x: 50, y: 50, width: 20, height: 20, vx: 0, vy: 0, targetRatio: 1.2 },
+  ];
+
+  const adjacencies = [{ a: 'room1', b: 'room2', weight: 1.0 }];
+
+  it('should run the spring solver in a worker and stream progress', async () => {
+    const progress: SolverProgress<'spring'>[] = [];
+
+    const result = await runSolverInWorker(
+      'spring',
+      { rooms, boundary, adjacencies, generations: 10, seed: 42 },
+      {},
+      { createWorker: createTsWorker, onProgress: p => progress.push(p), progressInterval: 5 }
+    );
+
+    expect(progress.map(p => p.generation)).toEqual([5, 10]);
+    expect(result.generation).toBe(10);
+
+    // Same seed on the main thread gives the same layout
+    const local = new SpringSolver(rooms, boundary, adjacencies, {}, undefined, 42);
+    local.simulate(10);
+    expect(result.state).toEqual(local.getState());
+    expect(SpringSolver.fromSnapshot(result.snapshot).getState()).toEqual(local.getState());
+  }, 20000);
+
+  it('should run the discrete solver in a worker', async () => {
+    const result = await runSolverInWorker(
+      'discrete',
+      {
+        boundary: [
+          { x: 0, y: 0 },
+          { x: 20, y: 0 },
+          { x: 20, y: 20 },
+          { x: 0, y: 20 },
+        ],
+        rooms: [
+          { id: 'a', targetArea: 25, targetRatio: 1.2 },
+          { id: 'b', targetArea: 20, targetRatio: 1.2 },
+        ],
+        adjacencies: [{ a: 'a', b: 'b' }],
+        seed: 7,
+      },
+      { maxIterations: 10 },
+      { createWorker: createTsWorker }
+    );
+
+    expect(result.kind).toBe('discrete');
+    expect(result.stats.iteration).toBe(10);
+    expect(result.state.length).toBe(result.stats.placedRooms);
+  }, 20000);
+
+  it('should reject and stop the worker when aborted', async () => {
+    const controller = new AbortController();
+
+    const run = runSolverInWorker(
+      'spring',
+      { rooms, boundary, adjacencies, generations: 1_000_000, seed: 1 },
+      {},
+      {
+        createWorker: createTsWorker,
+        signal: controller.signal,
+        onProgress: () => controller.abort(),
+      }
+    );
+
+    await expect(run).rejects.toThrow(/abort/i);
+  }, 20000);
+
+  it('should reject when the worker exits without replying', async () => {
+    const run = runSolverInWorker('spring', { rooms, boundary, adjacencies, generations: 1 }, {}, {
+      createWorker: () => new Worker('process.exit(3)', { eval: true }),
+    });
+
+    await expect(run).rejects.toThrow('Solver worker exited with code 3');
+  }, 20000);
+
+  it('should reject immediately with an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      runSolverInWorker('spring', { rooms, boundary, adjacencies, generations: 1 }, {}, {
+        createWorker: createTsWorker,
+        signal: controller.signal,
+      })
+    ).rejects.toThrow(/abort/i);
+  });
+});
@@ -0,0 +1,123 @@
+import type { Worker as NodeWorker } from 'node:worker_threads';
+import {
+  SolverKind,
+  SolverJobTypes,
+  SolverJobRequest,
+  SolverJobResult,
+  SolverProgress,
+  SolverWorkerMessage,
+} from './solverJob.js';
+
+export interface RunSolverInWorkerOptions<K extends SolverKind> {
+  signal?: AbortSignal;                               // Aborting terminates the worker and rejects the promise
+  onProgress?: (progress: SolverProgress<K>) => void; // Streamed progress (generation, stats, best state)
+  progressInterval?: number;                          // Generations between progress events (default 1)
+  createWorker?: () => Worker | NodeWorker;           // Override how the worker is spawned (bundlers, tests)
+}
+
+/**
+ * Minimal common surface over browser Web Workers and Node worker_threads.
+ */
+interface WorkerHandle {
+  postMessage(message: unknown): void;
+  onMessage(listener: (message: SolverWorkerMessage) => void): void;
+  onError(listener: (error: Error) => void): void;
+  onExit(listener: (error: Error) => void): void; // Exit (Node) or an undeliverable message
+  terminate(): void;
+}
+
+function wrapWorker(worker: Worker | NodeWorker): WorkerHandle {
+  if ('on' in worker) {
+    // Node worker_threads
+    return {
+      postMessage: message => worker.postMessage(message),
+      onMessage: listener => worker.on('message', listener),
+      onError: listener => worker.on('error', listener),
+      onExit: listener => {
+        worker.on('exit', code => listener(new Error(`Solver worker exited with code ${code}`)));
+        worker.on('messageerror', error => listener(error));
+      },
+      terminate: () => void worker.terminate(),
+    };
+  }
+
+  // Browser Web Worker
+  return {
+    postMessage: message => worker.postMessage(message),
+    onMessage: listener => worker.addEventListener('message', event => listener(event.data)),
+    onError: listener => worker.addEventListener('error', event => listener(new Error(event.message))),
+    onExit: listener => worker.addEventListener('messageerror', () => listener(new Error('Solver worker message could not be deserialized'))),
+    terminate: () => worker.terminate(),
+  };
+}
+
+async function createDefaultWorker(): Promise<Worker | NodeWorker> {
+  const url = new URL('./solverWorker.js', import.meta.url);
+
+  if (typeof Worker !== 'undefined') {
+    return new Worker(url, { type: 'module' });
+  }
+
+  const { Worker: NodeWorkerClass } = await import('node:worker_threads');
+  return new NodeWorkerClass(url);
+}
+
+function abortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('Solver run was aborted', 'AbortError');
+}
+
+/**
+ * Run a solver off the calling thread and resolve with its final state and snapshot.
+ * Progress events are streamed through `options.onProgress`.
+ */
+export async function runSolverInWorker<K extends SolverKind>(
+  kind: K,
+  input: SolverJobTypes[K]['input'],
+  config: SolverJobTypes[K]['config'],
+  options: RunSolverInWorkerOptions<K> = {}
+): Promise<SolverJobResult<K>> {
+  const { signal, onProgress, progressInterval } = options;
+
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
+
+  const worker = wrapWorker(options.createWorker ? options.createWorker() : await createDefaultWorker());
+
+  return new Promise<SolverJobResult<K>>((resolve, reject) => {
+    let settled = false;
+
+    const finish = (callback: () => void): void => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+      callback();
+    };
+
+    const handleAbort = (): void => {
+      finish(() => reject(abortError(signal!)));
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onMessage(message => {
+      if (settled) return;
+
+      if (message.type === 'progress') {
+        onProgress?.(message.progress as SolverProgress<K>);
+      } else if (message.type === 'done') {
+        finish(() => resolve(message.result as SolverJobResult<K>));
+      } else {
+        finish(() => reject(new Error(message.message)));
+      }
+    });
+
+    worker.onError(error => finish(() => reject(error)));
+    // Settle even if the worker dies without reporting an error
+    worker.onExit(error => finish(() => reject(error)));
+
+    const request: SolverJobRequest<K> = { kind, input, config, progressInterval };
+    worker.postMessage(request);
+  });
+}
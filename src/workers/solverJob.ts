@@ -0,0 +1,212 @@
+import { SpringSolver, SpringSolverSnapshot } from '../core/solvers/SpringSolver.js';
+import { DiscreteSolver, DiscreteSolverSnapshot, PlacedRoom } from '../core/solvers/DiscreteSolver.js';
+import { EvolutionaryFloorplanSolver, EvolutionarySolverSnapshot } from '../core/solvers/EvolutionaryFloorplanSolver.js';
+import { EvolutionaryConfig } from '../core/solvers/EvolutionaryGene.js';
+import { Adjacency, DiscreteConfig, RoomRequest, RoomState, RoomStateES, SpringConfig, StopReason, StoppingRules } from '../types.js';
+import { PolygonLike } from '../core/geometry/Polygon.js';
+
+export interface SpringJobInput {
+  rooms: RoomState[];
+  boundary: PolygonLike;
+  adjacencies: Adjacency[];
+  generations: number;
+  globalTargetRatio?: number;
+  seed?: number;
+  stopping?: StoppingRules;
+}
+
+export interface DiscreteJobInput {
+  boundary: PolygonLike;
+  rooms: RoomRequest[];
+  adjacencies: Adjacency[];
+  seed?: number;
+  stopping?: StoppingRules;
+}
+
+export interface EvolutionaryJobInput {
+  rooms: RoomStateES[];
+  boundary: PolygonLike;
+  adjacencies: Adjacency[];
+  generations: number;
+  globalTargetRatio?: number;
+  seed?: number;
+  stopping?: StoppingRules;
+}
+
+/**
+ * Per-solver input, config, progress payload and snapshot types.
+ */
+export interface SolverJobTypes {
+  spring: {
+    input: SpringJobInput;
+    config: Partial<SpringConfig>;
+    state: RoomState[];
+    stats: ReturnType<SpringSolver['getStats']>;
+    snapshot: SpringSolverSnapshot;
+  };
+  discrete: {
+    input: DiscreteJobInput;
+    config: Partial<DiscreteConfig>;
+    state: PlacedRoom[];
+    stats: { iteration: number; bestScore: number; placedRooms: number; totalRooms: number };
+    snapshot: DiscreteSolverSnapshot;
+  };
+  evolutionary: {
+    input: EvolutionaryJobInput;
+    config: EvolutionaryConfig;
+    state: RoomState[];
+    stats: ReturnType<EvolutionaryFloorplanSolver['getStats']>;
+    snapshot: EvolutionarySolverSnapshot;
+  };
+}
+
+export type SolverKind = keyof SolverJobTypes;
+
+export interface SolverProgress<K extends SolverKind = SolverKind> {
+  kind: K;
+  generation: number;
+  stats: SolverJobTypes[K]['stats'];
+  state: SolverJobTypes[K]['state'];
+}
+
+export interface SolverJobResult<K extends SolverKind = SolverKind> extends SolverProgress<K> {
+  stopReason: StopReason;
+  snapshot: SolverJobTypes[K]['snapshot'];
+}
+
+export interface SolverJobRequest<K extends SolverKind = SolverKind> {
+  kind: K;
+  input: SolverJobTypes[K]['input'];
+  config: SolverJobTypes[K]['config'];
+  progressInterval?: number; // Generations between progress events (default 1)
+}
+
+/**
+ * Messages posted from the worker back to the main thread
+ */
+export type SolverWorkerMessage =
+  | { type: 'progress'; progress: SolverProgress }
+  | { type: 'done'; result: SolverJobResult }
+  | { type: 'error'; message: string };
+
+/**
+ * Execute a solver job synchronously on the current thread, reporting progress through `emit`.
+ * This is the body of the worker; it is kept free of any messaging so it can run anywhere.
+ */
+export function runSolverJob<K extends SolverKind>(
+  request: SolverJobRequest<K>,
+  emit: (progress: SolverProgress<K>) => void
+): SolverJobResult<K> {
+  // The generic narrows poorly across the switch, so each branch casts back to K's payload
+  const job = request as SolverJobRequest;
+  const interval = Math.max(1, Math.floor(request.progressInterval ?? 1));
+  const report = emit as (progress: SolverProgress) => void;
+
+  switch (job.kind) {
+    case 'spring':
+      return runSpring(job as SolverJobRequest<'spring'>, interval, report) as SolverJobResult<K>;
+    case 'discrete':
+      return runDiscrete(job as SolverJobRequest<'discrete'>, interval, report) as SolverJobResult<K>;
+    case 'evolutionary':
+      return runEvolutionary(job as SolverJobRequest<'evolutionary'>, interval, report) as SolverJobResult<K>;
+    default:
+      throw new Error(`Unknown solver kind: ${(job as { kind: string }).kind}`);
+  }
+}
+
+function runSpring(
+  job: SolverJobRequest<'spring'>,
+  interval: number,
+  emit: (progress: SolverProgress<'spring'>) => void
+): SolverJobResult<'spring'> {
+  const { input, config } = job;
+  const solver = new SpringSolver(
+    input.rooms,
+    input.boundary,
+    input.adjacencies,
+    config,
+    input.globalTargetRatio,
+    input.seed
+  );
+
+  const progress = (): SolverProgress<'spring'> => ({
+    kind: 'spring',
+    generation: solver.getGeneration(),
+    stats: solver.getStats(),
+    state: solver.getState(),
+  });
+
+  const run = solver.simulate(input.generations, {
+    ...input.stopping,
+    onProgress: ({ generation }) => {
+      if (generation % interval === 0) emit(progress());
+    },
+  });
+
+  return { ...progress(), stopReason: run.stopReason, snapshot: solver.toSnapshot() };
+}
+
+function runDiscrete(
+  job: SolverJobRequest<'discrete'>,
+  interval: number,
+  emit: (progress: SolverProgress<'discrete'>) => void
+): SolverJobResult<'discrete'> {
+  const { input, config } = job;
+  const solver = new DiscreteSolver(input.boundary, input.rooms, input.adjacencies, config, input.seed);
+
+  const progress = (bestScore: number): SolverProgress<'discrete'> => {
+    const placed = Array.from(solver.getPlacedRooms().values());
+    return {
+      kind: 'discrete',
+      generation: solver.getIteration(),
+      stats: {
+        iteration: solver.getIteration(),
+        bestScore,
+        placedRooms: placed.length,
+        totalRooms: input.rooms.length,
+      },
+      state: placed,
+    };
+  };
+
+  const run = solver.run({
+    ...input.stopping,
+    onProgress: ({ generation, bestFitness }) => {
+      if (generation % interval === 0) emit(progress(bestFitness));
+    },
+  });
+
+  return { ...progress(run.bestFitness), stopReason: run.stopReason, snapshot: solver.toSnapshot() };
+}
+
+function runEvolutionary(
+  job: SolverJobRequest<'evolutionary'>,
+  interval: number,
+  emit: (progress: SolverProgress<'evolutionary'>) => void
+): SolverJobResult<'evolutionary'> {
+  const { input, config } = job;
+  const solver = new EvolutionaryFloorplanSolver(
+    input.rooms,
+    input.boundary,
+    input.adjacencies,
+    config,
+    input.globalTargetRatio,
+    input.seed
+  );
+
+  const progress = (): SolverProgress<'evolutionary'> => ({
+    kind: 'evolutionary',
+    generation: solver.getGeneration(),
+    stats: solver.getStats(),
+    state: solver.getState(),
+  });
+
+  const run = solver.simulate(input.generations, {
+    ...input.stopping,
+    onProgress: ({ generation }) => {
+      if (generation % interval === 0) emit(progress());
+    },
+  });
+
+  return { ...progress(), stopReason: run.stopReason, snapshot: solver.toSnapshot() };
+}
@@ -0,0 +1,39 @@
+/**
+ * Worker entry point for runSolverInWorker().
+ * Runs in both browser Web Workers and Node worker_threads.
+ */
+import { runSolverJob, SolverJobRequest, SolverWorkerMessage } from './solverJob.js';
+
+type Post = (message: SolverWorkerMessage) => void;
+
+function handleRequest(request: SolverJobRequest, post: Post): void {
+  try {
+    const result = runSolverJob(request, progress => post({ type: 'progress', progress }));
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+async function listen(): Promise<void> {
+  const isNode = typeof process !== 'undefined' && !!process.versions?.node;
+
+  if (isNode) {
+    const { parentPort } = await import('node:worker_threads');
+    if (!parentPort) return; // Not running as a worker
+    const port = parentPort;
+    port.once('message', (request: SolverJobRequest) => {
+      handleRequest(request, message => port.postMessage(message));
+    });
+  } else {
+    const scope = self as unknown as {
+      postMessage(message: SolverWorkerMessage): void;
+      addEventListener(type: 'message', listener: (event: MessageEvent<SolverJobRequest>) => void): void;
+    };
+    scope.addEventListener('message', event => {
+      handleRequest(event.data, message => scope.postMessage(message));
+    });
+  }
+}
+
+void listen();